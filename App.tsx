@@ -1,135 +1,253 @@
-import React, { useState, useEffect, useMemo, useContext, createContext } from 'react';
-import { ArrowRight, Database, Cpu, Layers, Info, Monitor, Binary, HelpCircle, X, BookOpen, Grid, Box, Square } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ArrowRight, Database, Cpu, Layers, Info, Monitor, Binary, HelpCircle, X, BookOpen, Undo2, Redo2, Bookmark as BookmarkIcon, ListTree, Grid, Box, Square, AlertTriangle } from 'lucide-react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { formatHex, bigIntToBytes, parseInput, getByteBorderColor, calculateMinBytes } from './utils';
+import {
+  formatHex, formatBin, bigIntToBytes, bytesToBigInt, parseInput, getByteBorderColor, calculateMinBytes, checkIntegerRange,
+  encodeTypedInput, getSourceTypeInfo, bytesToInput, formatIntegerLiteral, SOURCE_TYPES, InputFormat, SourceType,
+  MAX_WORD_BITS, WORD_WIDTH_PRESETS, wordByteCount, topByteBits,
+} from './utils';
+import { maskOf, bitLabel, BitNumbering } from './bitOps';
+import { TooltipProvider, Tooltip } from './components/Tooltip';
+import { FloatBreakdown, getFloatBitClassName } from './components/FloatBreakdown';
+import { BitOperations } from './components/BitOperations';
+import { WordCard, BitEditHandlers, BitAnnotation, bitEditProps, BIT_FOCUS_CLASS, UNUSED_BIT_CLASS, BitNumberingProvider, useBitNumbering } from './components/WordCard';
+import { MemoryGrid, useMemoryGrid, gridCellProps } from './components/MemoryGrid';
+import { LiveRegion } from './components/LiveRegion';
+import { ParseError } from './components/ParseError';
+import { ExpressionCalculator } from './components/ExpressionCalculator';
+import { RegisterPanel, getRegisterAnnotation } from './components/RegisterPanel';
+import { StructPanel, getStructAnnotation, EXAMPLE_STRUCT } from './components/StructPanel';
+import { BufferInput } from './components/BufferInput';
+import { HexView } from './components/HexView';
+import { EndianComparison } from './components/EndianComparison';
+import { BitAnalysisPanel } from './components/BitAnalysisPanel';
+import { CopyLinkButton } from './components/CopyLinkButton';
+import { CodeExport } from './components/CodeExport';
+import { TextStrip } from './components/TextStrip';
+import { DissectorPanel } from './components/DissectorPanel';
+import { ChecksumPanel } from './components/ChecksumPanel';
+import { VarintPanel } from './components/VarintPanel';
+import { BookmarkPanel } from './components/BookmarkPanel';
+import { FLOAT32, FLOAT64 } from './float';
+import { NUMERIC_TYPES, InterpretContext, getTypeSize, getTypeNote, getTypeAlignment, interpretAt, MAX_Q_BITS } from './numericTypes';
+import { EXAMPLE_REGISTER } from './register';
+import { ABI_PRESETS, MAX_STRUCT_SIZE, parseStruct } from './structLayout';
+import { ViewState, readQuery, readHash, buildPermalink } from './permalink';
+import { RichText } from './components/RichText';
+import { ByteBuffer } from './hexDump';
+import { checkoutBuffer, paddedBytes, patchBuffer, prunePatches } from './bufferEdits';
+import { diffBytes, changedWordBits } from './diff';
+import { DissectedField, fieldBitMasks } from './dissectors';
+import { History, createHistory, isPending, pushHistory, undoHistory, redoHistory } from './history';
+import { bookmarkToState } from './bookmarks';
+import { LANGUAGES, t, setLanguage, useLanguage, applyDocumentLanguage } from './i18n';
 
-// --- Tooltip System ---
+// --- Input Formats ---
 
-interface TooltipContextType {
-  showTooltip: (text: React.ReactNode, e: React.MouseEvent) => void;
-  hideTooltip: () => void;
-}
+const INPUT_FORMATS: { id: InputFormat; label: string; tag: string; placeholder: string; help: string }[] = [
+  {
+    id: 'auto', tag: 'AUTO', placeholder: "0x1F, 0b1010, 0o755, 123ULL...",
+    get label() { return t('inputFormat.auto.label'); },
+    get help() { return t('inputFormat.auto.help'); },
+  },
+  {
+    id: 'dec', tag: 'DEC', placeholder: "12345...",
+    get label() { return t('inputFormat.dec.label'); },
+    get help() { return t('inputFormat.dec.help'); },
+  },
+  {
+    id: 'hex', tag: 'HEX', placeholder: "0x1234...",
+    get label() { return t('inputFormat.hex.label'); },
+    get help() { return t('inputFormat.hex.help'); },
+  },
+  {
+    id: 'bin', tag: 'BIN', placeholder: "0b1010_1100...",
+    get label() { return t('inputFormat.bin.label'); },
+    get help() { return t('inputFormat.bin.help'); },
+  },
+  {
+    id: 'oct', tag: 'OCT', placeholder: "0o755, 0755...",
+    get label() { return t('inputFormat.oct.label'); },
+    get help() { return t('inputFormat.oct.help'); },
+  },
+];
 
-const TooltipContext = createContext<TooltipContextType | null>(null);
-
-const TooltipProvider = ({ children }: { children: React.ReactNode }) => {
-  const [tooltip, setTooltip] = useState<{ text: React.ReactNode; x: number; y: number } | null>(null);
-
-  const showTooltip = (text: React.ReactNode, e: React.MouseEvent) => {
-    setTooltip({ text, x: e.clientX, y: e.clientY });
-  };
-
-  const hideTooltip = () => {
-    setTooltip(null);
-  };
-
-  return (
-    <TooltipContext.Provider value={{ showTooltip, hideTooltip }}>
-      {children}
-      {tooltip && (
-        <div 
-          className="fixed z-[9999] pointer-events-none bg-gray-800 border border-gray-600 text-white text-xs px-3 py-2 rounded shadow-xl whitespace-pre-wrap max-w-xs"
-          style={{ 
-            left: tooltip.x, 
-            top: tooltip.y,
-            transform: 'translate(-100%, -100%) translate(-12px, -12px)' 
-          }}
-        >
-          {tooltip.text}
-        </div>
-      )}
-    </TooltipContext.Provider>
-  );
+const DEFAULT_VIEW_STATE: ViewState = {
+  inputMode: 'value', // One typed value, or raw bytes from a dump/file
+  inputStr: "305419896", // Example value
+  inputType: 'dec',
+  sourceType: 'int',
+  wordBits: 32, // Any width up to MAX_WORD_BITS; words still take whole bytes
+  bitNumbering: 'lsb0', // Bit 0 is the least significant bit
+  isLittleEndian: true, // Default to LE (x86 standard)
+  isSigned: false,
+  overflowMode: 'extend', // What a too-large integer does to the word
+  viewUnit: 'byte',
+  floatFormat: FLOAT32,
+  highlightFloatFields: false,
+  qFormat: { m: 0, n: 15, signed: true }, // Q15, the usual DSP sample format
+  cursorOffset: 0, // Address the interpretation table reads from
+  showRegisterOverlay: false,
+  structAbi: ABI_PRESETS[0],
+  showStructOverlay: false,
+  buffer: { bytes: [], format: null, baseAddress: 0, fileName: null },
+  registerDef: EXAMPLE_REGISTER,
+  structSource: EXAMPLE_STRUCT,
 };
 
-const Tooltip = ({ children, text }: { children: React.ReactNode; text: React.ReactNode }) => {
-  const ctx = useContext(TooltipContext);
-  
-  if (!ctx) return <>{children}</>;
+const CARD_VIEW_LIMIT = 256;
+const WHOLE_VALUE_LIMIT = 1024;
+// Outline of the bits that belong to the selected dissector field
+const FIELD_BIT_CLASS = "ring-2 ring-inset ring-yellow-300";
+// Compare mode lists the changed bits of this many words; the rest are only counted
+const COMPARE_WORD_LIMIT = 16;
 
-  return (
-    <div 
-      className="w-fit cursor-help inline-block"
-      onMouseEnter={(e) => ctx.showTooltip(text, e)}
-      onMouseMove={(e) => ctx.showTooltip(text, e)}
-      onMouseLeave={ctx.hideTooltip}
-    >
-      {children}
-    </div>
-  );
+const clampInt = (raw: string, min: number, max: number) => {
+  const n = parseInt(raw, 10);
+  return Number.isNaN(n) ? min : Math.min(max, Math.max(min, n));
 };
 
 // --- Components ---
 
 const HelpModal = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  // Focus moves into the dialog while it is open and returns to the opener afterwards
+  useEffect(() => {
+    if (!isOpen) return;
+    const opener = document.activeElement as HTMLElement | null;
+    dialogRef.current?.querySelector<HTMLElement>('button')?.focus();
+    return () => opener?.focus();
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', closeOnEscape);
+    return () => document.removeEventListener('keydown', closeOnEscape);
+  }, [isOpen, onClose]);
+
+  // Tab and Shift+Tab wrap around inside the dialog
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Tab' || !dialogRef.current) return;
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>('button, [tabindex="0"]'));
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
   if (!isOpen) return null;
   return (
     <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
-      <div className="bg-gray-900 border border-gray-700 rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto shadow-2xl" onClick={e => e.stopPropagation()}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="help-title"
+        tabIndex={-1}
+        onKeyDown={onKeyDown}
+        className="bg-gray-900 border border-gray-700 rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto shadow-2xl outline-none"
+        onClick={e => e.stopPropagation()}
+      >
         <div className="flex items-center justify-between p-6 border-b border-gray-800 sticky top-0 bg-gray-900 z-10">
-          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <h2 id="help-title" className="text-xl font-bold text-white flex items-center gap-2">
             <BookOpen className="text-cyan-400" />
-            用語集・使い方ガイド
+            {t('help.title')}
           </h2>
-          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+          <button onClick={onClose} aria-label={t('help.close')} className="text-gray-400 hover:text-white transition-colors">
             <X size={24} />
           </button>
         </div>
         <div className="p-6 space-y-6 text-gray-300 leading-relaxed">
           <section>
-            <h3 className="text-lg font-bold text-white mb-2 border-l-4 border-cyan-500 pl-3">基本用語</h3>
+            <h3 className="text-lg font-bold text-white mb-2 border-l-4 border-cyan-500 pl-3">{t('help.basics.heading')}</h3>
             <dl className="space-y-4">
               <div>
-                <dt className="font-bold text-cyan-400">ビット (Bit)</dt>
-                <dd className="text-sm">コンピュータが扱う情報の最小単位です。「0」か「1」のどちらかの状態を持ちます。</dd>
+                <dt className="font-bold text-cyan-400">{t('help.basics.bit.term')}</dt>
+                <dd className="text-sm">{t('help.basics.bit.text')}</dd>
+              </div>
+              <div>
+                <dt className="font-bold text-cyan-400">{t('help.basics.byte.term')}</dt>
+                <dd className="text-sm">{t('help.basics.byte.text')}</dd>
+              </div>
+              <div>
+                <dt className="font-bold text-cyan-400">{t('help.basics.word.term')}</dt>
+                <dd className="text-sm">{t('help.basics.word.text')}</dd>
+              </div>
+              <div>
+                <dt className="font-bold text-cyan-400">{t('help.basics.alignment.term')}</dt>
+                <dd className="text-sm">{t('help.basics.alignment.text')}</dd>
               </div>
               <div>
-                <dt className="font-bold text-cyan-400">バイト (Byte)</dt>
-                <dd className="text-sm">8つのビットをまとめた単位です。1バイトで0〜255までの数値を表現できます。</dd>
+                <dt className="font-bold text-cyan-400">{t('help.basics.bitField.term')}</dt>
+                <dd className="text-sm">{t('help.basics.bitField.text')}</dd>
               </div>
               <div>
-                <dt className="font-bold text-cyan-400">ワード (Word)</dt>
-                <dd className="text-sm">CPUが一度に処理できるデータの単位です。このツールでは16ビット(2バイト)、32ビット(4バイト)、64ビット(8バイト)を選択できます。</dd>
+                <dt className="font-bold text-cyan-400">{t('help.basics.padding.term')}</dt>
+                <dd className="text-sm"><RichText text={t('help.basics.padding.text')} /></dd>
               </div>
             </dl>
           </section>
 
           <section>
-            <h3 className="text-lg font-bold text-white mb-2 border-l-4 border-purple-500 pl-3">エンディアン (Endianness)</h3>
+            <h3 className="text-lg font-bold text-white mb-2 border-l-4 border-purple-500 pl-3">{t('help.endian.heading')}</h3>
             <p className="text-sm mb-3">
-              複数のバイトにまたがる大きな数値（例：10000など）をメモリに保存する際、「どのバイトから順に並べるか」というルールのことです。
+              {t('help.endian.intro')}
             </p>
             <dl className="space-y-4">
               <div>
-                <dt className="font-bold text-purple-400">リトルエンディアン (Little Endian)</dt>
+                <dt className="font-bold text-purple-400">{t('help.endian.little.term')}</dt>
+                <dd className="text-sm">
+                  <RichText text={t('help.endian.little.text')} />
+                </dd>
+              </div>
+              <div>
+                <dt className="font-bold text-purple-400">{t('help.endian.big.term')}</dt>
                 <dd className="text-sm">
-                  <span className="font-bold text-white">「下の桁」</span>から先にメモリに置く方式です。IntelやAMDのCPU（Windows PCなど）で使われています。
-                  <br/>例：<code>0x1234</code> → メモリには <code>34 12</code> と保存される。
+                  <RichText text={t('help.endian.big.text')} />
                 </dd>
               </div>
               <div>
-                <dt className="font-bold text-purple-400">ビッグエンディアン (Big Endian)</dt>
+                <dt className="font-bold text-purple-400">{t('help.endian.middle.term')}</dt>
                 <dd className="text-sm">
-                  <span className="font-bold text-white">「上の桁」</span>から先にメモリに置く方式です。ネットワーク通信や一部の古いCPUで使われています。
-                  <br/>例：<code>0x1234</code> → メモリには <code>12 34</code> と保存される。
+                  <RichText text={t('help.endian.middle.text')} />
                 </dd>
               </div>
             </dl>
           </section>
 
           <section>
-            <h3 className="text-lg font-bold text-white mb-2 border-l-4 border-green-500 pl-3">データの型</h3>
+            <h3 className="text-lg font-bold text-white mb-2 border-l-4 border-green-500 pl-3">{t('help.types.heading')}</h3>
             <ul className="list-disc list-inside space-y-2 text-sm">
-              <li><span className="font-bold text-white">符号付き (Signed)</span>: プラスとマイナスの両方を扱える整数。最上位ビットが1だとマイナスになります。</li>
-              <li><span className="font-bold text-white">符号なし (Unsigned)</span>: 0とプラスの値のみを扱う整数。その分、扱えるプラスの最大値が大きくなります。</li>
-              <li><span className="font-bold text-white">浮動小数点 (Float)</span>: 小数を扱うための形式。「IEEE 754」という規格でビットの使い方が決まっています。</li>
+              <li><span className="font-bold text-white">{t('help.types.signed.term')}</span>: {t('help.types.signed.text')}</li>
+              <li><span className="font-bold text-white">{t('help.types.twosComplement.term')}</span>: <RichText text={t('help.types.twosComplement.text')} /></li>
+              <li><span className="font-bold text-white">{t('help.types.unsigned.term')}</span>: {t('help.types.unsigned.text')}</li>
+              <li><span className="font-bold text-white">{t('help.types.float.term')}</span>: {t('help.types.float.text')}</li>
+            </ul>
+          </section>
+
+          <section>
+            <h3 className="text-lg font-bold text-white mb-2 border-l-4 border-orange-500 pl-3">{t('help.input.heading')}</h3>
+            <ul className="list-disc list-inside space-y-2 text-sm">
+              <li><span className="font-bold text-white">{t('help.input.prefix.term')}</span>: <RichText text={t('help.input.prefix.text')} /></li>
+              <li><span className="font-bold text-white">{t('help.input.separator.term')}</span>: <RichText text={t('help.input.separator.text')} /></li>
+              <li><span className="font-bold text-white">{t('help.input.suffix.term')}</span>: <RichText text={t('help.input.suffix.text')} /></li>
+              <li><span className="font-bold text-white">{t('help.input.bytes.term')}</span>: <RichText text={t('help.input.bytes.text')} /></li>
             </ul>
           </section>
         </div>
         <div className="p-6 border-t border-gray-800 bg-gray-900/50 text-center">
           <button onClick={onClose} className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded-lg transition-colors">
-            閉じる
+            {t('help.close')}
           </button>
         </div>
       </div>
@@ -137,10 +255,37 @@ const HelpModal = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }
   );
 };
 
-const BitGrid = ({ byteVal, colorClass }: { byteVal: number, colorClass: string }) => {
+const BitGrid = ({
+  byteVal,
+  colorClass,
+  address,
+  editor,
+  gridRow,
+  gridCol,
+  diffMask = 0,
+  highlightMask = 0,
+  usedBits = 8,
+}: {
+  byteVal: number,
+  colorClass: string,
+  address: number,
+  editor?: BitEditHandlers,
+  // Position of the byte in the enclosing MemoryGrid; each bit is one cell
+  gridRow: number,
+  gridCol: number,
+  // Compare mode: set bits differ from the second input
+  diffMask?: number,
+  // Set bits belong to the selected dissector field
+  highlightMask?: number,
+  // Low bits that belong to the word; fewer than 8 in the top byte of a partial-width word
+  usedBits?: number,
+}) => {
+  const grid = useMemoryGrid();
+  const numbering = useBitNumbering();
   const bits = useMemo(() => {
     return Array.from({ length: 8 }).map((_, i) => (byteVal >> (7 - i)) & 1);
   }, [byteVal]);
+  const editable = !!editor?.canEdit(address);
 
   return (
     <div className="flex gap-px">
@@ -152,9 +297,17 @@ const BitGrid = ({ byteVal, colorClass }: { byteVal: number, colorClass: string
             "w-2.5 h-4 sm:w-3 sm:h-5 text-[8px] sm:text-[10px]",
             bit === 1 
               ? `bg-opacity-90 text-white font-bold ${colorClass.replace('border-', 'bg-')}` 
-              : "bg-gray-800 text-gray-600"
+              : "bg-gray-800 text-gray-600",
+            (diffMask >> (7 - i)) & 1 && (bit === 1 ? "bg-red-600 text-white" : "bg-red-950 text-red-400"),
+            (highlightMask >> (7 - i)) & 1 && FIELD_BIT_CLASS,
+            7 - i >= usedBits && UNUSED_BIT_CLASS,
+            editable && "cursor-pointer select-none hover:ring-1 hover:ring-white",
+            BIT_FOCUS_CLASS
           )}
-          title={`ビット ${7-i}`}
+          title={7 - i >= usedBits ? t('width.unusedBit') : t('common.bit', { bit: bitLabel(7 - i, 8, numbering) })}
+          aria-label={`+${address} ${t('common.bit', { bit: bitLabel(7 - i, 8, numbering) })} = ${bit}`}
+          {...gridCellProps(grid, gridRow, gridCol * 8 + i, !editable)}
+          {...bitEditProps(editor, address, 7 - i)}
         >
           {bit}
         </div>
@@ -169,39 +322,84 @@ const ByteCard = ({
   totalBytes, 
   isLittleEndian, 
   addressOffset,
+  isCursor = false,
+  onSelect,
+  editor,
+  annotation,
+  gridRow,
+  gridCol,
+  compareValue,
+  highlightMask,
+  usedBits,
 }: { 
   index: number; 
   value: number; 
   totalBytes: number; 
   isLittleEndian: boolean;
   addressOffset: number;
+  isCursor?: boolean;
+  onSelect?: () => void;
+  editor?: BitEditHandlers;
+  // Marks the byte as part of a named region, e.g. a struct member
+  annotation?: BitAnnotation;
+  gridRow: number;
+  gridCol: number;
+  // Compare mode: the byte at the same address in the second input
+  compareValue?: number;
+  highlightMask?: number;
+  usedBits?: number;
 }) => {
-  const borderColor = getByteBorderColor(index, totalBytes, isLittleEndian);
-  const significance = isLittleEndian ? index : (totalBytes - 1 - index);
+  // Bytes past the value (zero fill) have no significance of their own
+  const borderColor = index < totalBytes ? getByteBorderColor(index, totalBytes, isLittleEndian) : 'border-gray-700';
+  const significance = index < totalBytes ? (isLittleEndian ? index : (totalBytes - 1 - index)) : -1;
   
   // Determine label based on significance
+  const diffMask = compareValue === undefined ? 0 : value ^ compareValue;
+  
   let label = "";
   let labelFull = "";
   if (significance === 0) {
     label = "LSB";
-    labelFull = "Least Significant Byte (最下位バイト)";
+    labelFull = t('byteCard.lsb');
   }
   else if (significance === totalBytes - 1) {
     label = "MSB";
-    labelFull = "Most Significant Byte (最上位バイト)";
+    labelFull = t('byteCard.msb');
   }
 
   return (
-    <div className={twMerge(
-      "relative flex flex-col items-center bg-gray-900 rounded-lg border-2 transition-all duration-500", 
-      borderColor,
-      "p-1.5 sm:p-2 min-w-[90px] sm:min-w-[100px]"
-    )}>
+    <div
+      onClick={onSelect}
+      title={annotation?.title}
+      className={twMerge(
+        "relative flex flex-col items-center bg-gray-900 rounded-lg border-2 transition-all duration-500", 
+        borderColor,
+        "p-1.5 sm:p-2 min-w-[90px] sm:min-w-[100px]",
+        onSelect && "cursor-pointer hover:bg-gray-850",
+        diffMask && "bg-red-950/40",
+        isCursor && "ring-2 ring-white ring-offset-2 ring-offset-gray-900"
+      )}
+    >
       {/* Address Label */}
-      <div className="absolute -top-4 left-1.5 bg-gray-950 px-1 text-[9px] sm:text-[10px] text-gray-400 font-mono border border-gray-800 rounded whitespace-nowrap z-10">
-        Addr: +{addressOffset}
+      <div className={twMerge(
+        "absolute -top-4 left-1.5 bg-gray-950 px-1 text-[9px] sm:text-[10px] text-gray-400 font-mono border border-gray-800 rounded whitespace-nowrap z-10",
+        isCursor && "text-white border-white"
+      )}>
+        {isCursor && '▶ '}Addr: +{addressOffset}
       </div>
       
+      {/* Region Stripe and Label */}
+      {annotation && (
+        <>
+          <div className={twMerge("absolute inset-x-0 top-0 h-1 rounded-t-sm", annotation.barClassName)} />
+          {annotation.label && (
+            <div className={twMerge("absolute -bottom-3 left-1.5 max-w-[60%] truncate bg-gray-950 px-1 text-[9px] font-bold font-mono border border-gray-700 rounded z-10", annotation.labelClassName)}>
+              {annotation.label}
+            </div>
+          )}
+        </>
+      )}
+
       {/* Significance Label */}
       {label && (
         <Tooltip text={labelFull}>
@@ -216,197 +414,517 @@ const ByteCard = ({
       <div className="text-xl sm:text-2xl font-mono font-bold text-white mb-1">
         0x{formatHex(value)}
       </div>
-      <BitGrid byteVal={value} colorClass={borderColor} />
+      <BitGrid byteVal={value} colorClass={borderColor} address={addressOffset} editor={editor} gridRow={gridRow} gridCol={gridCol} diffMask={diffMask} highlightMask={highlightMask} usedBits={usedBits} />
       <div className="mt-1 text-[9px] sm:text-[10px] text-gray-500 font-mono">
         {value.toString().padStart(3, '0')}
       </div>
+      {compareValue !== undefined && (
+        <div className="mt-1 pt-1 w-full border-t border-gray-800 text-center text-[9px] sm:text-[10px] font-mono">
+          <div className="text-gray-400">B 0x{formatHex(compareValue)}</div>
+          <div className={diffMask ? "text-red-400 font-bold" : "text-gray-600"}>⊕ {formatBin(diffMask)}</div>
+        </div>
+      )}
     </div>
   );
 };
 
-const WordCard = ({
-  bytes,
-  addressOffset,
-  isLittleEndian,
-  wordWidth
-}: {
-  bytes: number[];
-  addressOffset: number;
-  isLittleEndian: boolean;
-  wordWidth: number;
-}) => {
-  // Reconstruct the value from bytes
-  const value = useMemo(() => {
-    let val = 0n;
-    if (isLittleEndian) {
-      for (let i = bytes.length - 1; i >= 0; i--) {
-        val = (val << 8n) | BigInt(bytes[i]);
-      }
-    } else {
-      for (let i = 0; i < bytes.length; i++) {
-        val = (val << 8n) | BigInt(bytes[i]);
-      }
+// The page background; also hands the bit numbering down to every WordCard and BitGrid
+const PageShell = ({ bitNumbering, children }: { bitNumbering: BitNumbering; children: React.ReactNode }) => (
+  <BitNumberingProvider value={bitNumbering}>
+    <div className="min-h-screen bg-gray-950 text-gray-200 p-4 sm:p-8 font-sans">{children}</div>
+  </BitNumberingProvider>
+);
+
+const MainContent = () => {
+  // Settings from the query string apply immediately; the hash (buffers, definitions) is restored below
+  const [initialState] = useState<ViewState>(() => ({ ...DEFAULT_VIEW_STATE, ...readQuery(window.location.search) }));
+  const [inputMode, setInputMode] = useState(initialState.inputMode);
+  const [inputStr, setInputStr] = useState(initialState.inputStr);
+  const [dumpText, setDumpText] = useState<string>('');
+  const [buffer, setBuffer] = useState(initialState.buffer);
+  // The buffer as of the last edit, which may not have been rendered yet during a fast paint stroke
+  const bufferRef = useRef(buffer);
+  const [inputType, setInputType] = useState(initialState.inputType);
+  const [sourceType, setSourceType] = useState(initialState.sourceType);
+  const [wordBits, setWordBits] = useState(initialState.wordBits);
+  const [bitNumbering, setBitNumbering] = useState(initialState.bitNumbering);
+  const [isLittleEndian, setIsLittleEndian] = useState(initialState.isLittleEndian);
+  const [isSigned, setIsSigned] = useState(initialState.isSigned);
+  const [overflowMode, setOverflowMode] = useState(initialState.overflowMode);
+  const [viewUnit, setViewUnit] = useState(initialState.viewUnit);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [isBookmarksOpen, setIsBookmarksOpen] = useState(false);
+  const [showDissector, setShowDissector] = useState(false);
+  const [dissectedField, setDissectedField] = useState<DissectedField | null>(null);
+  const [floatFormat, setFloatFormat] = useState(initialState.floatFormat);
+  const [highlightFloatFields, setHighlightFloatFields] = useState(initialState.highlightFloatFields);
+  const [qFormat, setQFormat] = useState(initialState.qFormat);
+  const [cursorOffset, setCursorOffset] = useState(initialState.cursorOffset);
+  const [registerDef, setRegisterDef] = useState(initialState.registerDef);
+  const [showRegisterOverlay, setShowRegisterOverlay] = useState(initialState.showRegisterOverlay);
+  const [structSource, setStructSource] = useState(initialState.structSource);
+  const [structAbi, setStructAbi] = useState(initialState.structAbi);
+  const [showStructOverlay, setShowStructOverlay] = useState(initialState.showStructOverlay);
+  const [isHashRestored, setIsHashRestored] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  // Compare mode: a second value (or buffer) read with the same settings. It stays out of the link and undo history.
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareStr, setCompareStr] = useState('');
+  const [compareDumpText, setCompareDumpText] = useState('');
+  const [compareBuffer, setCompareBuffer] = useState<ByteBuffer>({ bytes: [], format: null, baseAddress: 0, fileName: null });
+  // Parse errors and notes are translated when computed, so the memos below depend on it
+  const language = useLanguage();
+
+  useEffect(applyDocumentLanguage, [language]);
+
+  const viewState = useMemo<ViewState>(() => ({
+    inputMode, inputStr, inputType, sourceType, wordBits, bitNumbering, isLittleEndian, isSigned, overflowMode, viewUnit,
+    floatFormat, highlightFloatFields, qFormat, cursorOffset, showRegisterOverlay, structAbi, showStructOverlay,
+    buffer, registerDef, structSource,
+  }), [
+    inputMode, inputStr, inputType, sourceType, wordBits, bitNumbering, isLittleEndian, isSigned, overflowMode, viewUnit,
+    floatFormat, highlightFloatFields, qFormat, cursorOffset, showRegisterOverlay, structAbi, showStructOverlay,
+    buffer, registerDef, structSource,
+  ]);
+
+  useEffect(() => {
+    readHash(window.location.hash).then(({ state, error }) => {
+      if (state.buffer) showBuffer(state.buffer);
+      if (state.registerDef) setRegisterDef(state.registerDef);
+      if (state.structSource !== undefined) setStructSource(state.structSource);
+      setLinkError(error);
+      setIsHashRestored(true);
+    });
+  }, []);
+
+  // Every buffer goes on screen through here; an earlier or later revision of the same bytes is checked out first
+  const showBuffer = (next: ByteBuffer) => {
+    checkoutBuffer(next);
+    bufferRef.current = next;
+    setBuffer(next);
+  };
+
+  // Sets every field present in `state`; shared by undo/redo and bookmarks
+  const applyViewState = (state: Partial<ViewState>) => {
+    const setters: { [K in keyof ViewState]: (value: ViewState[K]) => void } = {
+      inputMode: setInputMode, inputStr: setInputStr, inputType: setInputType, sourceType: setSourceType,
+      wordBits: setWordBits, bitNumbering: setBitNumbering, isLittleEndian: setIsLittleEndian, isSigned: setIsSigned, overflowMode: setOverflowMode,
+      viewUnit: setViewUnit, floatFormat: setFloatFormat, highlightFloatFields: setHighlightFloatFields,
+      qFormat: setQFormat, cursorOffset: setCursorOffset, showRegisterOverlay: setShowRegisterOverlay,
+      structAbi: setStructAbi, showStructOverlay: setShowStructOverlay, buffer: showBuffer,
+      registerDef: setRegisterDef, structSource: setStructSource,
+    };
+    for (const key of Object.keys(state) as (keyof ViewState)[]) {
+      (setters[key] as (value: unknown) => void)(state[key]);
     }
-    return val;
-  }, [bytes, isLittleEndian]);
+  };
 
-  // For display, we want to show bits in logical order (MSB -> LSB)
-  // If Little Endian: Memory is [LSB, ..., MSB]. 
-  // If Big Endian: Memory is [MSB, ..., LSB].
-  // The `value` computed above is the logical value.
-  // We can just iterate bits of `value`.
+  // Undo/redo over the whole view state. Changes are recorded once they settle, so typing a number is one step;
+  // the history starts after the hash is read, so a shared link cannot be undone back to the defaults.
+  const [history, setHistory] = useState<History<ViewState> | null>(null);
+  const historyPayload = (state: ViewState) => state.buffer.bytes;
+  useEffect(() => {
+    if (!isHashRestored) return;
+    const timer = setTimeout(() => {
+      setHistory(h => h ? pushHistory(h, viewState, historyPayload) : createHistory(viewState));
+    }, history ? 400 : 0);
+    return () => clearTimeout(timer);
+  }, [viewState, isHashRestored]);
 
-  const hexWidth = wordWidth * 2;
-  const hexString = value.toString(16).toUpperCase().padStart(hexWidth, '0');
+  // Buffer edits are undone from their patches, which are only needed while some entry can still go back to them
+  useEffect(() => {
+    if (history) prunePatches([...history.past, history.present, ...history.future].map(state => state.buffer));
+  }, [history]);
 
-  return (
-    <div className="relative flex flex-col p-4 bg-gray-900 rounded-lg border-2 border-cyan-500/50 w-full">
-      <div className="absolute -top-3 left-3 bg-gray-950 px-2 text-xs text-gray-400 font-mono border border-gray-800 rounded">
-        Addr: +{addressOffset} 〜 +{addressOffset + wordWidth - 1}
-      </div>
+  const hasPendingChange = !!history && isPending(history, viewState);
+  const canUndo = !!history && (history.past.length > 0 || hasPendingChange);
+  const canRedo = !!history && history.future.length > 0 && !hasPendingChange;
 
-      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-4">
-        <div>
-          <div className="text-xs text-gray-400 font-mono mb-1">Word Value (Hex)</div>
-          <div className="text-2xl sm:text-3xl font-mono font-bold text-white tracking-wider">
-            0x{hexString}
-          </div>
-        </div>
-        <div className="text-right">
-          <div className="text-xs text-gray-400 font-mono mb-1">Decimal</div>
-          <div className="text-lg font-mono text-cyan-400">
-            {value.toString()}
-          </div>
-        </div>
-      </div>
+  const stepHistory = (step: typeof undoHistory) => {
+    if (!history) return;
+    // A change still waiting to be recorded goes in first, so undo starts from what is on screen
+    const next = step(pushHistory(history, viewState, historyPayload));
+    setHistory(next);
+    applyViewState(next.present);
+  };
 
-      <div className="space-y-2">
-        <div className="text-xs text-gray-500 font-mono">Binary Representation (MSB → LSB)</div>
-        <div className="flex flex-wrap gap-1">
-          {/* Render bits from MSB to LSB */}
-          {Array.from({ length: wordWidth }).map((_, byteIndex) => {
-            // Logical byte index (0 = MSB byte)
-            const logicalByteIndex = byteIndex;
-            const shift = BigInt((wordWidth - 1 - logicalByteIndex) * 8);
-            const byteVal = Number((value >> shift) & 0xFFn);
-            
-            return (
-              <div key={byteIndex} className="flex gap-px p-1 bg-gray-950 rounded border border-gray-800">
-                {Array.from({ length: 8 }).map((_, bitIndex) => {
-                  const bit = (byteVal >> (7 - bitIndex)) & 1;
-                  return (
-                    <div
-                      key={bitIndex}
-                      className={twMerge(
-                        "w-3 h-5 sm:w-4 sm:h-6 flex items-center justify-center text-[10px] sm:text-xs font-mono",
-                        bit === 1 ? "bg-cyan-600 text-white font-bold" : "bg-gray-800 text-gray-600"
-                      )}
-                    >
-                      {bit}
-                    </div>
-                  );
-                })}
-              </div>
-            );
-          })}
-        </div>
-      </div>
-    </div>
-  );
-};
+  // Text fields keep the browser's own undo for their contents
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (!(e.ctrlKey || e.metaKey) || (key !== 'z' && key !== 'y')) return;
+      if ((e.target as HTMLElement).closest('textarea, input:not([type=checkbox]):not([type=radio]), [contenteditable]')) return;
+      e.preventDefault();
+      stepHistory(key === 'y' || e.shiftKey ? redoHistory : undoHistory);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
 
-const MainContent = () => {
-  const [inputStr, setInputStr] = useState<string>("305419896"); // Example value
-  const [inputType, setInputType] = useState<'hex' | 'dec'>('dec');
-  const [byteWidth, setByteWidth] = useState<2 | 4 | 8>(4); // 16, 32, or 64-bit
-  const [isLittleEndian, setIsLittleEndian] = useState<boolean>(true); // Default to LE (x86 standard)
-  const [viewUnit, setViewUnit] = useState<'byte' | 'word'>('byte');
-  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const getPermalink = () => buildPermalink(viewState, DEFAULT_VIEW_STATE, window.location.origin + window.location.pathname);
+
+  // Keep the address bar in sync, so reloading keeps the view; debounced since buffers are deflated.
+  // Until the hash has been read, writing the URL would throw away the link being opened.
+  useEffect(() => {
+    if (!isHashRestored) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      getPermalink().then(link => {
+        if (!cancelled) window.history.replaceState(null, '', link.url);
+      });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [viewState, isHashRestored]);
 
   // Derived State
-  const rawValue = useMemo(() => parseInput(inputStr, inputType), [inputStr, inputType]);
+  const sourceInfo = getSourceTypeInfo(sourceType);
+  const intResult = useMemo(() => parseInput(inputStr, inputType), [inputStr, inputType, language]);
+  const rawValue = intResult.value;
+
+  const isBufferMode = inputMode === 'buffer';
+  // Bytes per word in memory; the top one is partial when the width is not a multiple of 8
+  const byteWidth = wordByteCount(wordBits);
+
+  // Typed sources are encoded exactly as the type stores them (null for the variable-length integer)
+  const typedResult = useMemo(() => {
+    if (sourceType === 'int' || isBufferMode) return null;
+    return encodeTypedInput(inputStr, sourceType, inputType, isLittleEndian);
+  }, [inputStr, sourceType, inputType, isLittleEndian, isBufferMode, language]);
+  // A loaded buffer is taken byte for byte, like an already-encoded value
+  const typedBytes = isBufferMode ? buffer.bytes : typedResult?.value ?? null;
+  // Buffer edits keep the same array, so memos over the bytes key on this as well
+  const bytesRevision = isBufferMode ? buffer.revision ?? 0 : 0;
+  const parseResult = typedResult ?? intResult;
+  const inputFormat = INPUT_FORMATS.find(f => f.id === inputType) ?? INPUT_FORMATS[0];
+
+  // The second input of compare mode, parsed exactly like the first
+  const compareResult = useMemo(() => {
+    if (!isComparing || isBufferMode) return null;
+    if (sourceType === 'int') return parseInput(compareStr, inputType);
+    return encodeTypedInput(compareStr, sourceType, inputType, isLittleEndian);
+  }, [isComparing, isBufferMode, compareStr, sourceType, inputType, isLittleEndian, language]);
+  const compareParsed = compareResult?.value;
+  const compareTypedBytes = isBufferMode ? compareBuffer.bytes : Array.isArray(compareParsed) ? compareParsed : null;
+  const compareInt = typeof compareParsed === 'bigint' ? compareParsed : 0n;
+  // Nothing is compared until B holds a value; a half-typed B would light up every bit
+  const hasCompare = isComparing && (isBufferMode ? compareBuffer.bytes.length > 0 : !!compareResult && !compareResult.error);
   
+  // A partial-width word has no room for the bits past its width, so it always wraps
+  const wrapsToWord = overflowMode === 'wrap' || wordBits % 8 !== 0;
+
   // Calculate dynamic byte length based on input value
   const dynamicByteLength = useMemo(() => {
-    const minBytes = calculateMinBytes(rawValue);
+    // In wrap mode the variable-length integer is truncated to a single word
+    if (!typedBytes && wrapsToWord) return byteWidth;
+    const ownBytes = typedBytes ? Math.max(typedBytes.length, 1) : calculateMinBytes(rawValue, isSigned);
+    // Compare mode sizes the grid for the longer of the two inputs
+    const compareLength = !hasCompare ? 0
+      : compareTypedBytes ? compareTypedBytes.length
+      : wrapsToWord ? byteWidth : calculateMinBytes(compareInt, isSigned);
+    const minBytes = Math.max(ownBytes, compareLength);
     // Ensure we have at least byteWidth, and always a multiple of byteWidth
     return Math.max(byteWidth, Math.ceil(minBytes / byteWidth) * byteWidth);
-  }, [rawValue, byteWidth]);
+  }, [typedBytes, rawValue, byteWidth, isSigned, wrapsToWord, hasCompare, compareTypedBytes, compareInt]);
+
+  // Whether the integer fits the selected word (or, for a typed source, the type itself)
+  const rangeCheck = useMemo(() => {
+    if (isBufferMode || sourceInfo.kind !== 'int' || parseResult.error) return null;
+    if (sourceType === 'int') return checkIntegerRange(rawValue, wordBits, isSigned);
+    return checkIntegerRange(rawValue, (sourceInfo.size ?? 0) * 8, sourceType.startsWith('int'));
+  }, [isBufferMode, sourceInfo, sourceType, parseResult.error, rawValue, wordBits, isSigned]);
+
+  const structResult = useMemo(() => parseStruct(structSource, structAbi), [structSource, structAbi, language]);
+  const structLayout = showStructOverlay ? structResult.layout : null;
 
   // The bytes as they would appear in memory based on selected endianness
   const memoryBytes = useMemo(() => {
-    return bigIntToBytes(rawValue, dynamicByteLength, isLittleEndian);
-  }, [rawValue, dynamicByteLength, isLittleEndian]);
+    // An overlaid struct gets zero-filled words up to its end, so every member has bytes to show
+    const structLength = structLayout ? Math.ceil(Math.min(structLayout.size, MAX_STRUCT_SIZE) / byteWidth) * byteWidth : 0;
+    const length = Math.max(dynamicByteLength, structLength);
+    // A buffer's padded copy is kept in step with its in-place edits instead of being made again for each
+    if (isBufferMode) return paddedBytes(buffer, length);
+    // The typed value sits at address 0; the rest of the last word is zero-filled.
+    // A wrapped integer keeps only the word's bits, so the unused top bits of a partial byte stay clear
+    const stored = typedBytes ?? bigIntToBytes(wrapsToWord ? BigInt.asUintN(wordBits, rawValue) : rawValue, dynamicByteLength, isLittleEndian);
+    return length > stored.length ? [...stored, ...Array(length - stored.length).fill(0)] : stored;
+  }, [isBufferMode, buffer, typedBytes, rawValue, dynamicByteLength, isLittleEndian, structLayout, byteWidth, wrapsToWord, wordBits]);
+
+  // The second input laid out like memoryBytes, so the two are compared address by address
+  const compareBytes = useMemo(() => {
+    if (!hasCompare) return null;
+    // B wraps to the word like A does, or identical values would differ in the unused top bits
+    const stored = compareTypedBytes ?? bigIntToBytes(wrapsToWord ? BigInt.asUintN(wordBits, compareInt) : compareInt, dynamicByteLength, isLittleEndian);
+    return memoryBytes.map((_, i) => stored[i] ?? 0);
+  }, [hasCompare, compareTypedBytes, compareInt, wrapsToWord, wordBits, dynamicByteLength, isLittleEndian, memoryBytes, bytesRevision]);
+  const diff = useMemo(() => compareBytes && diffBytes(memoryBytes, compareBytes), [memoryBytes, compareBytes]);
+  const changedWords = useMemo(() => diff ? changedWordBits(diff.xor, byteWidth, isLittleEndian) : [], [diff, byteWidth, isLittleEndian]);
 
-  // Interpretations (Always based on the first 8 bytes max for standard types)
+  // Bit pattern of the input itself, before it is padded out to whole words
+  const rawBinary = useMemo(() => {
+    if (isBufferMode) return '';
+    if (!typedBytes) {
+      // Negative values are shown as the two's complement bits they are stored as
+      if (rawValue >= 0n) return rawValue.toString(2);
+      const bits = calculateMinBytes(rawValue, true) * 8;
+      return BigInt.asUintN(bits, rawValue).toString(2);
+    }
+    if (sourceType === 'string') return typedBytes.map(b => formatBin(b)).join(' ');
+    return bytesToBigInt(typedBytes, isLittleEndian).toString(2).padStart(typedBytes.length * 8, '0');
+  }, [isBufferMode, typedBytes, rawValue, sourceType, isLittleEndian]);
+
+  // The cursor stays put when the buffer shrinks, but never reads past its end
+  const cursor = Math.min(cursorOffset, memoryBytes.length - 1);
+  const focusedWordAddress = cursor - (cursor % byteWidth);
+  // Only the most significant byte of a word can be partly outside a non-byte-multiple width
+  const usedBitsAt = (address: number) =>
+    address % byteWidth === (isLittleEndian ? byteWidth - 1 : 0) ? topByteBits(wordBits) : 8;
+
+  // Past this size one card per byte is too slow; the memory area switches to the windowed hex view
+  const isLargeBuffer = memoryBytes.length > CARD_VIEW_LIMIT;
+
+  // Interpretations: every registered type, read as if a pointer to it were cast at the cursor
+  const interpretContext = useMemo<InterpretContext>(() => ({ wordWidth: byteWidth, wordBits, qFormat }), [byteWidth, wordBits, qFormat]);
   const interpretations = useMemo(() => {
-    const buffer = new ArrayBuffer(8);
-    const view = new DataView(buffer);
-    
-    // We only fill the buffer with the first 8 bytes of our memory representation
-    // to simulate "casting" the pointer at address 0.
-    const bytesToRead = Math.min(memoryBytes.length, 8);
-    for(let i=0; i<bytesToRead; i++) {
-        view.setUint8(i, memoryBytes[i]);
+    return NUMERIC_TYPES
+      .filter(type => byteWidth >= (type.minWordWidth ?? 0))
+      .map(type => ({
+        type,
+        size: getTypeSize(type, interpretContext),
+        note: getTypeNote(type, interpretContext),
+        alignment: getTypeAlignment(type, interpretContext),
+        value: interpretAt(type, memoryBytes, cursor, isLittleEndian, interpretContext),
+      }));
+  }, [memoryBytes, bytesRevision, cursor, isLittleEndian, byteWidth, interpretContext, language]);
+  // The same reads on the second input; a row whose value differs is marked as changed
+  const compareInterpretations = useMemo(() => {
+    if (!compareBytes) return null;
+    return interpretations.map(({ type }) => interpretAt(type, compareBytes, cursor, isLittleEndian, interpretContext));
+  }, [interpretations, compareBytes, cursor, isLittleEndian, interpretContext]);
+
+  // --- Bit Editing ---
+  // Edits rewrite the input box, so everything downstream (hex/dec, table, panels) follows.
+  // Only the input's own storage is editable: zero padding after a typed value has nowhere to go.
+  const editLength = typedBytes ? typedBytes.length : dynamicByteLength;
+  // Range and shift edits treat the whole value as one integer, which only makes sense (and stays fast) when it is small
+  const canEditWholeValue = editLength > 0 && editLength <= WHOLE_VALUE_LIMIT;
+  const editValue = useMemo(() => {
+    return canEditWholeValue ? bytesToBigInt(memoryBytes.slice(0, editLength), isLittleEndian) : 0n;
+  }, [memoryBytes, bytesRevision, editLength, isLittleEndian, canEditWholeValue]);
+
+  // Writes `values` over the input's own bytes from `address`. A buffer is patched in place (see bufferEdits.ts);
+  // a typed value is small, so it is re-encoded into the input box as a whole.
+  const writeBytes = (address: number, values: number[]) => {
+    const own = values.slice(0, Math.max(0, editLength - address));
+    if (isBufferMode) {
+      showBuffer(patchBuffer(bufferRef.current, address, own));
+      return;
     }
-    
-    const le = isLittleEndian;
+    const next = memoryBytes.slice(0, editLength);
+    next.splice(address, own.length, ...own);
+    setInputStr(bytesToInput(next, sourceType, inputType, isLittleEndian, isSigned));
+  };
 
-    // Helper to safely get values even if buffer is small (return null or 0)
-    const safeGet = (getter: () => any, minBytes: number) => {
-      if (bytesToRead < minBytes) return null;
-      return getter();
-    };
+  // Appended bytes go after the input's own bytes; a typed value becomes a buffer so that it can grow
+  const appendBytes = (extra: number[]) => {
+    const own = memoryBytes.slice(0, editLength);
+    showBuffer(isBufferMode
+      ? { ...buffer, bytes: [...own, ...extra] }
+      : { bytes: [...own, ...extra], format: null, baseAddress: 0, fileName: null });
+    setInputMode('buffer');
+  };
 
-    return {
-      int8: safeGet(() => view.getInt8(0), 1),
-      uint8: safeGet(() => view.getUint8(0), 1),
-      int16: safeGet(() => view.getInt16(0, le), 2),
-      uint16: safeGet(() => view.getUint16(0, le), 2),
-      int32: safeGet(() => view.getInt32(0, le), 4),
-      uint32: safeGet(() => view.getUint32(0, le), 4),
-      float32: safeGet(() => view.getFloat32(0, le), 4),
-      int64: safeGet(() => view.getBigInt64(0, le), 8),
-      uint64: safeGet(() => view.getBigUint64(0, le), 8),
-      float64: safeGet(() => view.getFloat64(0, le), 8),
-    };
-  }, [memoryBytes, isLittleEndian]);
+  const applyEditValue = (value: bigint) => {
+    writeBytes(0, bigIntToBytes(value, editLength, isLittleEndian));
+  };
+
+  // Variable-length encodings take the input as a number: the literal itself for integers, else the stored bytes
+  const varintValue = !isBufferMode && sourceType === 'int'
+    ? rawValue
+    : canEditWholeValue ? (isSigned ? BigInt.asIntN(editLength * 8, editValue) : editValue) : null;
+
+  const applyVarintValue = (value: bigint) => {
+    setInputMode('value');
+    setSourceType('int');
+    setInputStr(formatIntegerLiteral(value, inputType));
+  };
 
-  // Chunk bytes for Word View
+  // Words are read and written at the selected bit width; the unused bits of a partial top byte are left as they are
+  const wordMask = maskOf(wordBits);
+  const readStoredWord = (address: number) => bytesToBigInt(memoryBytes.slice(address, address + byteWidth), isLittleEndian);
+  const readWord = (address: number) => readStoredWord(address) & wordMask;
+
+  const writeWord = (address: number, value: bigint) => {
+    const stored = (readStoredWord(address) & ~wordMask) | (value & wordMask);
+    writeBytes(address, bigIntToBytes(stored, byteWidth, isLittleEndian));
+  };
+
+  // The calculator works on the word at address 0; the register definition and byte order comparison on the word under the cursor
+  const firstWord = readWord(0);
+  const registerWord = readWord(focusedWordAddress);
+  const registerAnnotation = useMemo(() => getRegisterAnnotation(registerDef), [registerDef]);
+  const structAnnotation = useMemo(() => structLayout ? getStructAnnotation(structLayout) : undefined, [structLayout]);
+
+  // While dragging, a typed value's edits accumulate here so that fast strokes are not lost between renders.
+  // A buffer needs no copy: bufferRef always holds its latest revision.
+  const paintRef = useRef<{ value: 0 | 1; bytes: number[] | null } | null>(null);
+  useEffect(() => {
+    const endPaint = () => { paintRef.current = null; };
+    window.addEventListener('mouseup', endPaint);
+    return () => window.removeEventListener('mouseup', endPaint);
+  }, []);
+
+  const paintBit = (address: number, bit: number) => {
+    const paint = paintRef.current;
+    if (!paint) return;
+    const mask = 1 << bit;
+    const bytes = paint.bytes ?? bufferRef.current.bytes;
+    const byte = paint.value ? bytes[address] | mask : bytes[address] & ~mask;
+    if (byte === bytes[address]) return;
+    if (!paint.bytes) {
+      writeBytes(address, [byte]);
+      return;
+    }
+    paint.bytes[address] = byte;
+    writeBytes(0, paint.bytes);
+  };
+
+  const bitEditor: BitEditHandlers = {
+    canEdit: (address) => address < editLength,
+    onBitDown: (address, bit) => {
+      const current = (memoryBytes[address] >> bit) & 1;
+      paintRef.current = { value: current ? 0 : 1, bytes: isBufferMode ? null : memoryBytes.slice(0, editLength) };
+      paintBit(address, bit);
+    },
+    onBitEnter: paintBit,
+    onBitToggle: (address, bit) => writeBytes(address, [memoryBytes[address] ^ (1 << bit)]),
+  };
+
+  // Screen readers hear the word under the cursor whenever it changes, once typing has settled
+  const [announcement, setAnnouncement] = useState('');
+  const announcedWordRef = useRef<bigint | null>(null);
+  useEffect(() => {
+    if (announcedWordRef.current === null || announcedWordRef.current === registerWord) {
+      announcedWordRef.current = registerWord;
+      return;
+    }
+    const timer = setTimeout(() => {
+      announcedWordRef.current = registerWord;
+      setAnnouncement(t('a11y.wordChanged', {
+        address: focusedWordAddress,
+        hex: registerWord.toString(16).toUpperCase().padStart(Math.ceil(wordBits / 4), '0'),
+        value: (isSigned ? BigInt.asIntN(wordBits, registerWord) : registerWord).toString(),
+      }));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [registerWord, focusedWordAddress, wordBits, isSigned]);
+
+  const floatBitClassName = useMemo(() => {
+    return highlightFloatFields ? getFloatBitClassName(floatFormat, isLittleEndian, cursor) : undefined;
+  }, [highlightFloatFields, floatFormat, isLittleEndian, cursor]);
+
+  // The selected dissector field, as a bit mask per address; drawn over the float colouring in the word view
+  const fieldMasks = useMemo(() => showDissector && dissectedField ? fieldBitMasks(dissectedField) : null, [showDissector, dissectedField]);
+  const wordBitClassName = useMemo(() => {
+    if (!fieldMasks) return floatBitClassName;
+    return (address: number, bit: number, isSet: boolean) => twMerge(
+      floatBitClassName?.(address, bit, isSet),
+      ((fieldMasks.get(address) ?? 0) >> bit) & 1 && FIELD_BIT_CLASS
+    );
+  }, [floatBitClassName, fieldMasks]);
+
+  // Dumps keep the addresses they were taken from; the cards still count from +0
+  const baseAddress = isBufferMode ? buffer.baseAddress : 0;
+  const addressDigits = Math.max(4, Math.ceil((baseAddress + memoryBytes.length - 1).toString(16).length / 2) * 2);
+  const formatAddress = (address: number) => `0x${address.toString(16).toUpperCase().padStart(addressDigits, '0')}`;
+
+  // Chunk bytes into rows of the byte grid and cards of the word view
   const wordChunks = useMemo(() => {
-    const chunks = [];
+    const chunks: number[][] = [];
+    if (isLargeBuffer) return chunks;
     for (let i = 0; i < memoryBytes.length; i += byteWidth) {
       chunks.push(memoryBytes.slice(i, i + byteWidth));
     }
     return chunks;
-  }, [memoryBytes, byteWidth]);
+  }, [memoryBytes, bytesRevision, byteWidth, isLargeBuffer]);
+
+  const focusedWordBytes = memoryBytes.slice(focusedWordAddress, focusedWordAddress + byteWidth);
 
   return (
-    <div className="min-h-screen bg-gray-950 text-gray-200 p-4 sm:p-8 font-sans">
+    <PageShell bitNumbering={bitNumbering}>
       <HelpModal isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} />
-      
+      <LiveRegion message={announcement} />
+      <BookmarkPanel
+        isOpen={isBookmarksOpen}
+        onClose={() => setIsBookmarksOpen(false)}
+        viewState={viewState}
+        onRestore={(bookmark) => applyViewState(bookmarkToState(bookmark))}
+      />
+    
       <div className="max-w-[1600px] mx-auto space-y-6">
-        
+      
         {/* Header */}
         <header className="flex flex-col md:flex-row md:items-center justify-between gap-4 border-b border-gray-800 pb-6">
           <div>
             <h1 className="text-2xl sm:text-3xl font-bold bg-gradient-to-r from-cyan-400 to-blue-600 bg-clip-text text-transparent flex items-center gap-3">
               <Binary className="text-cyan-400" />
-              ビット可視化ツール
+              {t('app.title')}
             </h1>
             <p className="text-gray-400 mt-2 max-w-xl text-sm sm:text-base">
-              数値がメモリ内でどのように保存されるかを可視化します。<br className="hidden sm:block"/>
-              ビット、バイト、エンディアンの関係を学びましょう。
+              {t('app.subtitle1')}<br className="hidden sm:block"/>
+              {t('app.subtitle2')}
             </p>
           </div>
           
           <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
+             <div className="flex bg-gray-950 p-1 rounded-lg border border-gray-800">
+               {LANGUAGES.map(l => (
+                 <button
+                   key={l.id}
+                   onClick={() => setLanguage(l.id)}
+                   className={clsx(
+                     "px-3 py-1.5 rounded text-xs font-bold transition-all",
+                     language === l.id ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300"
+                   )}
+                 >
+                   {l.label}
+                 </button>
+               ))}
+             </div>
+             <div className="flex bg-gray-950 p-1 rounded-lg border border-gray-800">
+               {([
+                 { label: t('history.undo'), icon: Undo2, enabled: canUndo, step: undoHistory },
+                 { label: t('history.redo'), icon: Redo2, enabled: canRedo, step: redoHistory },
+               ]).map(({ label, icon: Icon, enabled, step }) => (
+                 <button
+                   key={label}
+                   onClick={() => stepHistory(step)}
+                   disabled={!enabled}
+                   aria-label={label}
+                   title={label}
+                   className="px-3 py-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-800 transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                 >
+                   <Icon size={14} />
+                 </button>
+               ))}
+             </div>
+             <button
+               onClick={() => setIsBookmarksOpen(open => !open)}
+               aria-expanded={isBookmarksOpen}
+               className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-cyan-400 transition-colors text-sm font-bold border border-gray-700"
+             >
+               <BookmarkIcon size={18} />
+               {t('bookmark.title')}
+             </button>
+             <CopyLinkButton getLink={getPermalink} restoreError={linkError} />
              <button 
                onClick={() => setIsHelpOpen(true)}
                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-cyan-400 transition-colors text-sm font-bold border border-gray-700"
              >
                <HelpCircle size={18} />
-               用語集・使い方
+               {t('app.help')}
              </button>
           </div>
         </header>
@@ -417,50 +935,165 @@ const MainContent = () => {
           <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-lg font-semibold text-white flex items-center gap-2">
-                <Monitor size={18} /> 入力値
+                <Monitor size={18} /> {t('input.title')}
               </h2>
-              <Tooltip text="変換したい数値をここに入力してください。">
+              <Tooltip text={t('input.help')}>
                 <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
               </Tooltip>
             </div>
             
             <div className="space-y-4">
-              <div className="flex gap-2 bg-gray-950 p-1 rounded-lg border border-gray-800">
-                <button
-                  onClick={() => setInputType('dec')}
-                  className={clsx("flex-1 py-2 text-sm font-medium rounded-md transition-all", inputType === 'dec' ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300")}
-                >
-                  10進数 (Decimal)
-                </button>
-                <button
-                  onClick={() => setInputType('hex')}
-                  className={clsx("flex-1 py-2 text-sm font-medium rounded-md transition-all", inputType === 'hex' ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300")}
-                >
-                  16進数 (Hex)
-                </button>
+              {/* Input Mode */}
+              <div className="flex gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+                {([['value', 'input.mode.value'], ['buffer', 'input.mode.buffer']] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setInputMode(mode)}
+                    className={clsx("flex-1 py-2 text-xs sm:text-sm font-medium rounded-md transition-all", inputMode === mode ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300")}
+                  >
+                    {t(label)}
+                  </button>
+                ))}
               </div>
 
-              <div className="relative">
-                <input
-                  type="text"
-                  value={inputStr}
-                  onChange={(e) => setInputStr(e.target.value)}
-                  className="w-full bg-gray-950 border border-gray-700 text-white px-4 py-3 rounded-lg font-mono text-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent outline-none"
-                  placeholder={inputType === 'hex' ? "0x1234..." : "12345..."}
-                />
-                <div className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500 font-mono">
-                  {inputType === 'hex' ? 'HEX' : 'DEC'}
+              {isBufferMode ? (
+                <BufferInput text={dumpText} onTextChange={setDumpText} buffer={buffer} onLoad={showBuffer} />
+              ) : (
+                <>
+                <div className="flex items-center gap-2 bg-gray-950 p-1.5 rounded-lg border border-gray-800">
+                  <Tooltip text={t('input.typeHelp')}>
+                    <div className="text-xs font-medium text-gray-400 px-2 whitespace-nowrap">{t('input.type')}</div>
+                  </Tooltip>
+                  <select
+                    value={sourceType}
+                    onChange={(e) => {
+                      const next = e.target.value as SourceType;
+                      setSourceType(next);
+                      // Entering a float is the obvious moment to look at its fields
+                      if (next === 'float32' || next === 'float64') {
+                        setFloatFormat(next === 'float32' ? FLOAT32 : FLOAT64);
+                        setHighlightFloatFields(true);
+                      }
+                    }}
+                    className="flex-1 bg-gray-900 border border-gray-700 text-white text-sm font-mono rounded-md px-2 py-1.5 focus:ring-2 focus:ring-cyan-500 outline-none"
+                  >
+                    {SOURCE_TYPES.map(type => (
+                      <option key={type.id} value={type.id}>
+                        {type.label}{type.size ? ` (${type.size} Byte${type.size > 1 ? 's' : ''})` : ''}
+                      </option>
+                    ))}
+                  </select>
                 </div>
-              </div>
 
-              <div className="p-3 bg-gray-950 rounded border border-gray-800">
-                <div className="text-xs text-gray-500 uppercase mb-1 flex justify-between">
-                  <span>生のバイナリ値</span>
-                  <span className="text-[10px] text-gray-600">※入力値の2進数表現</span>
+                {sourceInfo.kind === 'int' && (
+                  <div className="flex gap-1 bg-gray-950 p-1 rounded-lg border border-gray-800">
+                    {INPUT_FORMATS.map(f => (
+                      <button
+                        key={f.id}
+                        onClick={() => setInputType(f.id)}
+                        title={f.help}
+                        className={clsx("flex-1 py-2 text-xs sm:text-sm font-medium rounded-md transition-all", inputType === f.id ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300")}
+                      >
+                        {f.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div>
+                  <div className="relative">
+                    <input
+                      type="text"
+                      value={inputStr}
+                      onChange={(e) => setInputStr(e.target.value)}
+                      className={clsx(
+                        "w-full bg-gray-950 border text-white px-4 py-3 rounded-lg font-mono text-lg focus:ring-2 focus:border-transparent outline-none",
+                        parseResult.error ? "border-red-500/70 focus:ring-red-500" : "border-gray-700 focus:ring-cyan-500"
+                      )}
+                      placeholder={
+                        sourceInfo.kind === 'float' ? "3.14, -1e-3, Infinity..." :
+                        sourceInfo.kind === 'string' ? t('input.stringPlaceholder') :
+                        inputFormat.placeholder
+                      }
+                    />
+                    <div className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500 font-mono">
+                      {sourceInfo.kind === 'float' ? 'FLOAT' : sourceInfo.kind === 'string' ? 'UTF-8' : inputFormat.tag}
+                    </div>
+                  </div>
+
+                  {/* Parse Error: point at the offending character */}
+                  {parseResult.error && parseResult.errorPos !== null && (
+                    <ParseError source={inputStr} error={parseResult.error} errorPos={parseResult.errorPos} />
+                  )}
+
+                  {/* Literal Suffix: offer the storage type it names */}
+                  {!parseResult.error && parseResult.suffix && (
+                    <div className="mt-2 flex items-center justify-between gap-2 p-2 bg-gray-950 border border-gray-800 rounded text-xs text-gray-400">
+                      <span>
+                        {t('input.suffix')} <code className="text-cyan-400">{parseResult.suffix}</code>
+                        {parseResult.typeHint ? <> → <span className="font-mono text-white">{getSourceTypeInfo(parseResult.typeHint).label}</span></> : t('input.noSuffixType')}
+                      </span>
+                      {parseResult.typeHint && parseResult.typeHint !== sourceType && (
+                        <button
+                          onClick={() => setSourceType(parseResult.typeHint!)}
+                          className="px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-cyan-400 font-bold transition-colors"
+                        >
+                          {t('input.useSuffixType')}
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
-                <div className="font-mono text-xs text-cyan-400 break-all leading-relaxed">
-                  {rawValue.toString(2)}
+
+                <div className="p-3 bg-gray-950 rounded border border-gray-800">
+                  <div className="text-xs text-gray-500 uppercase mb-1 flex justify-between">
+                    <span>{t('input.rawBinary')}</span>
+                    <span className="text-[10px] text-gray-600">{t('input.rawBinaryNote')}</span>
+                  </div>
+                  <div className="font-mono text-xs text-cyan-400 break-all leading-relaxed">
+                    {rawBinary}
+                  </div>
                 </div>
+                </>
+              )}
+
+              {/* Compare Mode: a second input B, checked bit by bit against A */}
+              <div className="pt-4 border-t border-gray-800 space-y-3">
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isComparing}
+                    onChange={(e) => setIsComparing(e.target.checked)}
+                    className="accent-cyan-500"
+                  />
+                  {t('compare.toggle')}
+                  <Tooltip text={t('compare.help')}>
+                    <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+                  </Tooltip>
+                </label>
+                {isComparing && (isBufferMode ? (
+                  <BufferInput text={compareDumpText} onTextChange={setCompareDumpText} buffer={compareBuffer} onLoad={setCompareBuffer} />
+                ) : (
+                  <div>
+                    <div className="relative">
+                      <input
+                        type="text"
+                        value={compareStr}
+                        onChange={(e) => setCompareStr(e.target.value)}
+                        aria-label={t('compare.label')}
+                        className={clsx(
+                          "w-full bg-gray-950 border text-white pl-10 pr-4 py-3 rounded-lg font-mono text-lg focus:ring-2 focus:border-transparent outline-none",
+                          compareStr && compareResult?.error ? "border-red-500/70 focus:ring-red-500" : "border-gray-700 focus:ring-cyan-500"
+                        )}
+                        placeholder={t('compare.placeholder')}
+                      />
+                      <div className="absolute left-3 top-1/2 -translate-y-1/2 text-sm font-bold text-gray-500 font-mono">B</div>
+                    </div>
+                    {compareStr && compareResult?.error && compareResult.errorPos !== null && (
+                      <ParseError source={compareStr} error={compareResult.error} errorPos={compareResult.errorPos} />
+                    )}
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -469,9 +1102,9 @@ const MainContent = () => {
           <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-lg font-semibold text-white flex items-center gap-2">
-                <Cpu size={18} /> アーキテクチャ
+                <Cpu size={18} /> {t('arch.title')}
               </h2>
-              <Tooltip text="CPUの種類によって、メモリへのデータの並べ方（エンディアン）が異なります。">
+              <Tooltip text={t('arch.help')}>
                 <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
               </Tooltip>
             </div>
@@ -487,8 +1120,8 @@ const MainContent = () => {
                     className="text-cyan-500 focus:ring-cyan-500 bg-gray-900 border-gray-700"
                   />
                   <div>
-                    <div className="font-medium text-white text-sm">リトルエンディアン (Little Endian)</div>
-                    <div className="text-xs text-gray-400 mt-0.5">最下位バイトが先頭 (Intel/AMD x86など)</div>
+                    <div className="font-medium text-white text-sm">{t('help.endian.little.term')}</div>
+                    <div className="text-xs text-gray-400 mt-0.5">{t('arch.le')}</div>
                   </div>
                 </div>
               </label>
@@ -503,8 +1136,8 @@ const MainContent = () => {
                     className="text-cyan-500 focus:ring-cyan-500 bg-gray-900 border-gray-700"
                   />
                   <div>
-                    <div className="font-medium text-white text-sm">ビッグエンディアン (Big Endian)</div>
-                    <div className="text-xs text-gray-400 mt-0.5">最上位バイトが先頭 (ネットワーク/Motorolaなど)</div>
+                    <div className="font-medium text-white text-sm">{t('help.endian.big.term')}</div>
+                    <div className="text-xs text-gray-400 mt-0.5">{t('arch.be')}</div>
                   </div>
                 </div>
               </label>
@@ -517,7 +1150,7 @@ const MainContent = () => {
           <div className="flex flex-col xl:flex-row xl:items-center justify-between mb-6 gap-6">
             <div className="flex flex-col sm:flex-row sm:items-center gap-6">
               <h2 className="text-lg font-semibold text-white flex items-center gap-2 shrink-0">
-                <Database size={18} /> メモリ配置イメージ
+                <Database size={18} /> {t('memory.title')}
               </h2>
               
               <div className="flex flex-wrap items-center gap-4">
@@ -530,7 +1163,7 @@ const MainContent = () => {
                       viewUnit === 'byte' ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300"
                     )}
                   >
-                    <Box size={14} /> バイト単位
+                    <Box size={14} /> {t('memory.byteView')}
                   </button>
                   <button
                     onClick={() => setViewUnit('word')}
@@ -539,205 +1172,537 @@ const MainContent = () => {
                       viewUnit === 'word' ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300"
                     )}
                   >
-                    <Square size={14} /> ワード単位
+                    <Square size={14} /> {t('memory.wordView')}
                   </button>
                 </div>
 
+                {/* Header Dissector Toggle */}
+                <button
+                  onClick={() => setShowDissector(!showDissector)}
+                  aria-pressed={showDissector}
+                  className={clsx(
+                    "flex items-center gap-1.5 px-3 py-2 rounded-lg border text-xs font-bold transition-all",
+                    showDissector ? "bg-gray-800 text-white border-gray-700 shadow" : "bg-gray-950 text-gray-500 border-gray-800 hover:text-gray-300"
+                  )}
+                >
+                  <ListTree size={14} /> {t('dissect.title')}
+                </button>
+
                 {/* Word Width Selector */}
-                <div className="flex items-center gap-2 bg-gray-950 p-1.5 rounded-lg border border-gray-800">
-                  <div className="text-xs font-medium text-gray-400 px-2">ワード幅:</div>
-                  <button 
-                      onClick={() => setByteWidth(2)}
-                      className={clsx("px-3 py-1.5 rounded text-xs font-bold transition-colors", byteWidth === 2 ? "bg-cyan-600 text-white" : "hover:bg-gray-800 text-gray-400")}
-                  >
-                    16-bit
-                  </button>
-                  <button 
-                      onClick={() => setByteWidth(4)}
-                      className={clsx("px-3 py-1.5 rounded text-xs font-bold transition-colors", byteWidth === 4 ? "bg-cyan-600 text-white" : "hover:bg-gray-800 text-gray-400")}
+                <div className="flex flex-wrap items-center gap-1 bg-gray-950 p-1.5 rounded-lg border border-gray-800">
+                  <Tooltip text={t('width.help', { max: MAX_WORD_BITS })}>
+                    <div className="text-xs font-medium text-gray-400 px-2">{t('memory.wordWidth')}</div>
+                  </Tooltip>
+                  {WORD_WIDTH_PRESETS.map(bits => (
+                    <button
+                        key={bits}
+                        onClick={() => setWordBits(bits)}
+                        className={clsx("px-2 py-1.5 rounded text-xs font-bold transition-colors", wordBits === bits ? "bg-cyan-600 text-white" : "hover:bg-gray-800 text-gray-400")}
+                    >
+                      {bits}
+                    </button>
+                  ))}
+                  <label className="flex items-center gap-1 px-1 text-xs text-gray-400">
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_WORD_BITS}
+                      value={wordBits}
+                      onChange={(e) => setWordBits(clampInt(e.target.value, 1, MAX_WORD_BITS))}
+                      aria-label={t('width.custom')}
+                      className={clsx(
+                        "w-14 bg-gray-900 border border-gray-700 text-white font-mono rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-cyan-500",
+                        !WORD_WIDTH_PRESETS.includes(wordBits) && "border-cyan-500"
+                      )}
+                    />
+                    -bit
+                  </label>
+                </div>
+
+                {/* Bit Numbering Toggle */}
+                <div className="flex items-center gap-1 bg-gray-950 p-1.5 rounded-lg border border-gray-800">
+                  <Tooltip text={t('numbering.help')}>
+                    <div className="text-xs font-medium text-gray-400 px-2">{t('numbering.label')}</div>
+                  </Tooltip>
+                  {(['lsb0', 'msb0'] as const).map(numbering => (
+                    <button
+                        key={numbering}
+                        onClick={() => setBitNumbering(numbering)}
+                        className={clsx("px-3 py-1.5 rounded text-xs font-bold transition-colors", bitNumbering === numbering ? "bg-cyan-600 text-white" : "hover:bg-gray-800 text-gray-400")}
+                    >
+                      {numbering.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Signedness Toggle */}
+                <div className="flex items-center gap-1 bg-gray-950 p-1.5 rounded-lg border border-gray-800">
+                  <Tooltip text={t('memory.signHelp')}>
+                    <div className="text-xs font-medium text-gray-400 px-2">{t('memory.sign')}</div>
+                  </Tooltip>
+                  <button
+                      onClick={() => setIsSigned(false)}
+                      className={clsx("px-3 py-1.5 rounded text-xs font-bold transition-colors", !isSigned ? "bg-cyan-600 text-white" : "hover:bg-gray-800 text-gray-400")}
                   >
-                    32-bit
+                    unsigned
                   </button>
-                  <button 
-                      onClick={() => setByteWidth(8)}
-                      className={clsx("px-3 py-1.5 rounded text-xs font-bold transition-colors", byteWidth === 8 ? "bg-cyan-600 text-white" : "hover:bg-gray-800 text-gray-400")}
+                  <button
+                      onClick={() => setIsSigned(true)}
+                      className={clsx("px-3 py-1.5 rounded text-xs font-bold transition-colors", isSigned ? "bg-cyan-600 text-white" : "hover:bg-gray-800 text-gray-400")}
                   >
-                    64-bit
+                    signed
                   </button>
                 </div>
+
+                {/* Overflow Handling (variable-length integer only) */}
+                {sourceType === 'int' && !isBufferMode && (
+                  <div className="flex items-center gap-1 bg-gray-950 p-1.5 rounded-lg border border-gray-800">
+                    <Tooltip text={t('memory.overflowHelp')}>
+                      <div className="text-xs font-medium text-gray-400 px-2">{t('memory.overflow')}</div>
+                    </Tooltip>
+                    <button
+                        onClick={() => setOverflowMode('extend')}
+                        disabled={wordBits % 8 !== 0}
+                        title={wordBits % 8 ? t('width.extendNeedsBytes') : undefined}
+                        className={clsx("px-3 py-1.5 rounded text-xs font-bold transition-colors disabled:opacity-40 disabled:cursor-not-allowed", !wrapsToWord ? "bg-cyan-600 text-white" : "hover:bg-gray-800 text-gray-400")}
+                    >
+                      {t('memory.extend')}
+                    </button>
+                    <button
+                        onClick={() => setOverflowMode('wrap')}
+                        className={clsx("px-3 py-1.5 rounded text-xs font-bold transition-colors", wrapsToWord ? "bg-cyan-600 text-white" : "hover:bg-gray-800 text-gray-400")}
+                    >
+                      {t('memory.wrap')}
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
 
             <div className="flex items-center gap-2 text-xs text-gray-400 bg-gray-950 px-3 py-1 rounded-full border border-gray-800 w-fit">
-              <Tooltip text="Least Significant Byte: 最も位の低いバイト（値への影響が小さい）">
-                <span className="flex items-center gap-1 cursor-help"><span className="w-2 h-2 rounded-full bg-red-500"></span> LSB (最下位)</span>
+              <Tooltip text={t('memory.lsbHelp')}>
+                <span className="flex items-center gap-1 cursor-help"><span className="w-2 h-2 rounded-full bg-red-500"></span> {t('memory.lsb')}</span>
               </Tooltip>
               <ArrowRight size={12} />
-              <Tooltip text="Most Significant Byte: 最も位の高いバイト（値への影響が大きい）">
-                <span className="flex items-center gap-1 cursor-help"><span className="w-2 h-2 rounded-full bg-teal-500"></span> MSB (最上位)</span>
+              <Tooltip text={t('memory.msbHelp')}>
+                <span className="flex items-center gap-1 cursor-help"><span className="w-2 h-2 rounded-full bg-teal-500"></span> {t('memory.msb')}</span>
               </Tooltip>
             </div>
           </div>
 
-          {/* Dynamic Grid Layout */}
-          <div className="relative overflow-x-auto pt-8 pb-8 px-2">
-            {viewUnit === 'byte' ? (
-              <div 
-                className="grid gap-2 sm:gap-4 min-w-max"
-                style={{
-                  gridTemplateColumns: `repeat(${byteWidth}, min-content)`
-                }}
-              >
-                {memoryBytes.map((byte, idx) => (
-                  <ByteCard 
-                    key={idx} 
-                    index={idx} 
-                    value={byte} 
-                    totalBytes={dynamicByteLength} 
-                    isLittleEndian={isLittleEndian}
-                    addressOffset={idx}
-                  />
-                ))}
+          {/* Range, Shift and Rotate Edits */}
+          {/* A single word is shifted at its own width, so a partial word carries and rotates at its top bit */}
+          {canEditWholeValue && (editLength === byteWidth
+            ? <BitOperations value={firstWord} width={wordBits} onChange={(value) => writeWord(0, value)} />
+            : <BitOperations value={editValue} width={editLength * 8} onChange={applyEditValue} />)}
+
+          {/* Overflow Warning */}
+          {rangeCheck && !rangeCheck.fits && (
+            <div className="flex items-start gap-2 mb-2 p-3 rounded-lg border border-amber-700/60 bg-amber-950/30 text-sm text-amber-300">
+              <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+              <div className="space-y-1">
+                <div>
+                  {t('range.outOfRange', {
+                    value: rawValue.toString(),
+                    type: sourceType === 'int'
+                      ? t('range.intType', { bits: wordBits, sign: t(isSigned ? 'sign.signed' : 'sign.unsigned') })
+                      : sourceInfo.label,
+                    min: rangeCheck.min.toString(),
+                    max: rangeCheck.max.toString(),
+                  })}
+                  {rawValue < 0n && rangeCheck.min === 0n && t('range.negativeUnsigned')}
+                </div>
+                <div className="text-xs text-amber-400/80">
+                  {sourceType === 'int' && !wrapsToWord && dynamicByteLength > byteWidth
+                    ? t('range.extended', { words: dynamicByteLength / byteWidth, wrapped: rangeCheck.wrapped.toString() })
+                    : t('range.wrapped', { wrapped: rangeCheck.wrapped.toString() })}
+                </div>
               </div>
-            ) : (
-              <div className="flex flex-col gap-4 min-w-max">
-                {wordChunks.map((chunk, idx) => (
-                  <WordCard
-                    key={idx}
-                    bytes={chunk}
-                    addressOffset={idx * byteWidth}
+            </div>
+          )}
+
+          {/* Compare Summary */}
+          {diff && (
+            <div className="mb-2 p-3 bg-gray-950 rounded-lg border border-gray-800 text-xs font-mono space-y-1">
+              <div className="flex flex-wrap gap-x-6 gap-y-1 text-gray-400 font-sans">
+                <span>
+                  {t('compare.hamming')}: <span className={clsx("font-mono font-bold", diff.hammingDistance ? "text-red-400" : "text-green-400")}>{diff.hammingDistance}</span>
+                </span>
+                <span>{t('compare.changedBytes', { count: diff.changedBytes, total: memoryBytes.length })}</span>
+              </div>
+              {changedWords.length === 0 ? (
+                <div className="text-green-400 font-sans">{t('compare.identical')}</div>
+              ) : (
+                <>
+                  {changedWords.slice(0, COMPARE_WORD_LIMIT).map(({ address, bits }) => (
+                    <div key={address} className="text-gray-300 break-all">
+                      <span className="text-gray-500">{formatAddress(baseAddress + address)}</span> {t('compare.bits')} {bits.map(bit => bitLabel(bit, wordBits, bitNumbering)).join(', ')}
+                    </div>
+                  ))}
+                  {changedWords.length > COMPARE_WORD_LIMIT && (
+                    <div className="text-gray-500 font-sans">{t('compare.moreWords', { count: changedWords.length - COMPARE_WORD_LIMIT })}</div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          <div className={clsx(showDissector && "flex flex-col 2xl:flex-row gap-6")}>
+            {/* Dynamic Grid Layout */}
+            <div className="relative flex-1 min-w-0 overflow-x-auto pt-8 pb-8 px-2">
+              {isLargeBuffer ? (
+                <div className="space-y-6">
+                  <div className="-mt-4 text-xs text-gray-500">
+                    {t('memory.largeBuffer', { count: memoryBytes.length.toLocaleString() })}
+                  </div>
+                  <HexView
+                    bytes={memoryBytes}
+                    baseAddress={baseAddress}
+                    byteWidth={byteWidth}
                     isLittleEndian={isLittleEndian}
-                    wordWidth={byteWidth}
+                    cursor={cursor}
+                    onSelect={setCursorOffset}
+                    formatAddress={formatAddress}
+                    diff={diff?.xor}
+                    highlight={fieldMasks ?? undefined}
                   />
-                ))}
-              </div>
-            )}
+                  {/* The word under the cursor, in full */}
+                  {viewUnit === 'byte' ? (
+                    <MemoryGrid label={t('a11y.grid')} className="flex gap-2 sm:gap-4 min-w-max">
+                      <div role="row" className="contents">
+                        {focusedWordBytes.map((byte, col) => {
+                          const idx = focusedWordAddress + col;
+                          return (
+                            <ByteCard
+                              key={idx}
+                              index={col}
+                              value={byte}
+                              totalBytes={byteWidth}
+                              isLittleEndian={isLittleEndian}
+                              addressOffset={idx}
+                              isCursor={idx === cursor}
+                              onSelect={() => setCursorOffset(idx)}
+                              editor={bitEditor}
+                              annotation={structAnnotation?.(idx)}
+                              gridRow={0}
+                              gridCol={col}
+                              compareValue={compareBytes?.[idx]}
+                              highlightMask={fieldMasks?.get(idx)}
+                              usedBits={usedBitsAt(idx)}
+                            />
+                          );
+                        })}
+                      </div>
+                    </MemoryGrid>
+                  ) : (
+                    <MemoryGrid label={t('a11y.grid')}>
+                      <WordCard
+                        bytes={focusedWordBytes}
+                        addressOffset={focusedWordAddress}
+                        isLittleEndian={isLittleEndian}
+                        wordWidth={byteWidth}
+                        wordBits={wordBits}
+                        isSigned={isSigned}
+                        getBitClassName={wordBitClassName}
+                        editor={bitEditor}
+                        getBitAnnotation={showRegisterOverlay ? registerAnnotation : undefined}
+                        gridRow={0}
+                        compareBytes={compareBytes?.slice(focusedWordAddress, focusedWordAddress + byteWidth)}
+                      />
+                    </MemoryGrid>
+                  )}
+                </div>
+              ) : viewUnit === 'byte' ? (
+                <MemoryGrid
+                  label={t('a11y.grid')}
+                  className="grid gap-2 sm:gap-4 min-w-max"
+                  style={{
+                    gridTemplateColumns: `auto repeat(${byteWidth}, min-content)`
+                  }}
+                >
+                  {wordChunks.map((chunk, row) => (
+                    <div key={row} role="row" className="contents">
+                      {/* Address Column */}
+                      <div role="rowheader" className="self-center pr-1 sm:pr-2 text-right font-mono text-[10px] sm:text-xs text-gray-500">
+                        {formatAddress(baseAddress + row * byteWidth)}
+                      </div>
+                      {chunk.map((byte, col) => {
+                        const idx = row * byteWidth + col;
+                        return (
+                          <ByteCard 
+                            key={idx} 
+                            index={idx} 
+                            value={byte} 
+                            totalBytes={dynamicByteLength} 
+                            isLittleEndian={isLittleEndian}
+                            addressOffset={idx}
+                            isCursor={idx === cursor}
+                            onSelect={() => setCursorOffset(idx)}
+                            editor={bitEditor}
+                            annotation={structAnnotation?.(idx)}
+                            gridRow={row}
+                            gridCol={col}
+                            compareValue={compareBytes?.[idx]}
+                            highlightMask={fieldMasks?.get(idx)}
+                            usedBits={usedBitsAt(idx)}
+                          />
+                        );
+                      })}
+                    </div>
+                  ))}
+                </MemoryGrid>
+              ) : (
+                <MemoryGrid label={t('a11y.grid')} className="flex flex-col gap-4 min-w-max">
+                  {wordChunks.map((chunk, idx) => (
+                    <WordCard
+                      key={idx}
+                      bytes={chunk}
+                      addressOffset={idx * byteWidth}
+                      isLittleEndian={isLittleEndian}
+                      wordWidth={byteWidth}
+                      wordBits={wordBits}
+                      isSigned={isSigned}
+                      getBitClassName={wordBitClassName}
+                      editor={bitEditor}
+                      getBitAnnotation={showRegisterOverlay && idx * byteWidth === focusedWordAddress ? registerAnnotation : undefined}
+                      gridRow={idx}
+                      compareBytes={compareBytes?.slice(idx * byteWidth, (idx + 1) * byteWidth)}
+                    />
+                  ))}
+                </MemoryGrid>
+              )}
             
-            {/* Visual Guide for Endianness */}
-            <div className="mt-8 border-t border-gray-800 pt-4">
-              <div className="flex items-start gap-2 text-sm text-gray-400 mb-2 bg-gray-950/50 p-3 rounded border border-gray-800/50">
-                <Info size={16} className="mt-0.5 text-cyan-500 shrink-0" />
-                <span>
-                  {isLittleEndian 
-                    ? "リトルエンディアンでは、最も位の低いバイト(赤色/LSB)が、最も小さいメモリアドレス(左側)に保存されます。人間が読む数字の並びとは逆に見えることがあります。" 
-                    : "ビッグエンディアンでは、最も位の高いバイト(青緑色/MSB)が、最も小さいメモリアドレス(左側)に保存されます。人間が読む数字の並びと同じ順序でメモリに入ります。"}
-                </span>
+              {/* Visual Guide for Endianness */}
+              <div className="mt-8 border-t border-gray-800 pt-4">
+                <div className="flex items-start gap-2 text-sm text-gray-400 mb-2 bg-gray-950/50 p-3 rounded border border-gray-800/50">
+                  <Info size={16} className="mt-0.5 text-cyan-500 shrink-0" />
+                  <span>
+                    {t(isLittleEndian ? 'memory.guideLe' : 'memory.guideBe')}
+                  </span>
+                </div>
               </div>
             </div>
+            {showDissector && (
+              <DissectorPanel
+                bytes={memoryBytes}
+                revision={bytesRevision}
+                cursor={cursor}
+                selected={dissectedField}
+                onSelect={(field) => {
+                  setDissectedField(field);
+                  // The interpretation table follows the field
+                  if (field) setCursorOffset(field.offset);
+                }}
+              />
+            )}
           </div>
         </div>
 
+        {/* Text Interpretation - Full Width */}
+        <TextStrip bytes={memoryBytes} revision={bytesRevision} cursor={cursor} onSelect={setCursorOffset} />
+
         {/* Data Interpretation Table - Full Width */}
         <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-lg font-semibold text-white flex items-center gap-2">
-              <Layers size={18} /> データの解釈 (先頭8バイト)
+              <Layers size={18} /> {t('interpret.title', { address: cursor })}
             </h2>
-            <Tooltip text="メモリ内の同じビット列でも、それを「どう解釈するか（型）」によって値が変わります。">
-              <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
-            </Tooltip>
+            <div className="flex flex-wrap items-center gap-3">
+              {/* Cursor Offset */}
+              <div className="flex items-center gap-1.5 bg-gray-950 p-1.5 rounded-lg border border-gray-800 text-xs font-mono text-gray-400">
+                <Tooltip text={t('interpret.offsetHelp')}>
+                  <span className="px-1 font-sans">{t('interpret.offset')}</span>
+                </Tooltip>
+                +
+                <input
+                  type="number"
+                  min={0}
+                  max={memoryBytes.length - 1}
+                  value={cursor}
+                  onChange={(e) => setCursorOffset(clampInt(e.target.value, 0, memoryBytes.length - 1))}
+                  className="w-16 bg-gray-900 border border-gray-700 text-white rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-cyan-500"
+                />
+              </div>
+              {/* Q-format Settings */}
+              <div className="flex items-center gap-1.5 bg-gray-950 p-1.5 rounded-lg border border-gray-800 text-xs font-mono text-gray-400">
+                <Tooltip text={t('interpret.qHelp')}>
+                  <span className="px-1 font-sans">{t('interpret.q')}</span>
+                </Tooltip>
+                Q
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_Q_BITS}
+                  value={qFormat.m}
+                  onChange={(e) => setQFormat({ ...qFormat, m: clampInt(e.target.value, 0, MAX_Q_BITS) })}
+                  className="w-12 bg-gray-900 border border-gray-700 text-white rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-cyan-500"
+                />
+                .
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_Q_BITS}
+                  value={qFormat.n}
+                  onChange={(e) => setQFormat({ ...qFormat, n: clampInt(e.target.value, 0, MAX_Q_BITS) })}
+                  className="w-12 bg-gray-900 border border-gray-700 text-white rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-cyan-500"
+                />
+                <label className="flex items-center gap-1 ml-1 font-sans cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={qFormat.signed}
+                    onChange={(e) => setQFormat({ ...qFormat, signed: e.target.checked })}
+                    className="accent-cyan-500"
+                  />
+                  {t('sign.signed')}
+                </label>
+              </div>
+              <Tooltip text={t('interpret.help')}>
+                <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+              </Tooltip>
+            </div>
           </div>
           <div className="overflow-x-auto">
             <table className="w-full text-left border-collapse">
               <thead>
                 <tr className="border-b border-gray-800 text-xs uppercase text-gray-500">
-                  <th className="py-3 px-4 font-medium">型 (Type)</th>
-                  <th className="py-3 px-4 font-medium">サイズ</th>
-                  <th className="py-3 px-4 font-medium">値 (10進数)</th>
-                  <th className="py-3 px-4 font-medium">範囲・備考</th>
+                  <th className="py-3 px-4 font-medium">{t('interpret.column.type')}</th>
+                  <th className="py-3 px-4 font-medium">{t('interpret.column.size')}</th>
+                  <th className="py-3 px-4 font-medium">{t('interpret.column.value')}</th>
+                  <th className="py-3 px-4 font-medium">{t('interpret.column.alignment')}</th>
+                  <th className="py-3 px-4 font-medium">{t('interpret.column.note')}</th>
                 </tr>
               </thead>
               <tbody className="text-sm font-mono">
-                <tr className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors group">
-                  <td className="py-3 px-4 text-cyan-400 font-bold">
-                    <Tooltip text="8ビットの符号付き整数。-128から127まで扱えます。">Int8</Tooltip>
-                  </td>
-                  <td className="py-3 px-4 text-gray-400">1 Byte</td>
-                  <td className="py-3 px-4 text-white">{interpretations.int8 ?? '-'}</td>
-                  <td className="py-3 px-4 text-gray-500 text-xs">-128 〜 127</td>
-                </tr>
-                <tr className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors group">
-                  <td className="py-3 px-4 text-cyan-400 font-bold">
-                    <Tooltip text="8ビットの符号なし整数。0から255まで扱えます。">Uint8</Tooltip>
-                  </td>
-                  <td className="py-3 px-4 text-gray-400">1 Byte</td>
-                  <td className="py-3 px-4 text-white">{interpretations.uint8 ?? '-'}</td>
-                  <td className="py-3 px-4 text-gray-500 text-xs">0 〜 255</td>
-                </tr>
-                <tr className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors group">
-                  <td className="py-3 px-4 text-purple-400 font-bold">
-                    <Tooltip text="16ビットの符号付き整数。">Int16</Tooltip>
-                  </td>
-                  <td className="py-3 px-4 text-gray-400">2 Bytes</td>
-                  <td className="py-3 px-4 text-white">{interpretations.int16 ?? '-'}</td>
-                  <td className="py-3 px-4 text-gray-500 text-xs">±32,767</td>
-                </tr>
-                <tr className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors group">
-                  <td className="py-3 px-4 text-purple-400 font-bold">
-                    <Tooltip text="16ビットの符号なし整数。">Uint16</Tooltip>
-                  </td>
-                  <td className="py-3 px-4 text-gray-400">2 Bytes</td>
-                  <td className="py-3 px-4 text-white">{interpretations.uint16 ?? '-'}</td>
-                  <td className="py-3 px-4 text-gray-500 text-xs">0 〜 65,535</td>
-                </tr>
-                <tr className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors group">
-                  <td className="py-3 px-4 text-green-400 font-bold">
-                    <Tooltip text="32ビットの符号付き整数。一般的な「整数(int)」はこれです。">Int32</Tooltip>
-                  </td>
-                  <td className="py-3 px-4 text-gray-400">4 Bytes</td>
-                  <td className="py-3 px-4 text-white">{interpretations.int32 ?? '-'}</td>
-                  <td className="py-3 px-4 text-gray-500 text-xs">±約21億</td>
-                </tr>
-                <tr className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors group">
-                  <td className="py-3 px-4 text-green-400 font-bold">
-                    <Tooltip text="32ビットの符号なし整数。">Uint32</Tooltip>
-                  </td>
-                  <td className="py-3 px-4 text-gray-400">4 Bytes</td>
-                  <td className="py-3 px-4 text-white">{interpretations.uint32 ?? '-'}</td>
-                  <td className="py-3 px-4 text-gray-500 text-xs">0 〜 約42億</td>
-                </tr>
-                <tr className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors group">
-                  <td className="py-3 px-4 text-yellow-400 font-bold">
-                    <Tooltip text="32ビット浮動小数点数。小数を扱います。">Float32</Tooltip>
-                  </td>
-                  <td className="py-3 px-4 text-gray-400">4 Bytes</td>
-                  <td className="py-3 px-4 text-white">{interpretations.float32?.toExponential(4) ?? '-'}</td>
-                  <td className="py-3 px-4 text-gray-500 text-xs">IEEE 754 単精度</td>
-                </tr>
-                {byteWidth === 8 && (
-                  <>
-                    <tr className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors group">
-                      <td className="py-3 px-4 text-pink-400 font-bold">
-                        <Tooltip text="64ビットの符号付き整数。非常に大きな数を扱えます。">Int64</Tooltip>
+                {interpretations.map(({ type, size, note, alignment, value }, i) => {
+                  const compareValue = compareInterpretations?.[i];
+                  const isChanged = !!compareInterpretations && compareValue !== value;
+                  return (
+                    <tr key={type.id} className={clsx("border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors group", isChanged && "bg-red-950/30")}>
+                      <td className={clsx("py-3 px-4 font-bold", type.color)}>
+                        <Tooltip text={type.description}>{type.label}</Tooltip>
                       </td>
-                      <td className="py-3 px-4 text-gray-400">8 Bytes</td>
-                      <td className="py-3 px-4 text-white">{interpretations.int64?.toString() ?? '-'}</td>
-                      <td className="py-3 px-4 text-gray-500 text-xs">BigInt</td>
-                    </tr>
-                    <tr className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors group">
-                      <td className="py-3 px-4 text-pink-400 font-bold">
-                        <Tooltip text="64ビットの符号なし整数。">Uint64</Tooltip>
+                      <td className="py-3 px-4 text-gray-400">
+                        {size} {size > 1 ? 'Bytes' : 'Byte'}
+                        {type.sizeNote && <span className="text-gray-600"> ({type.sizeNote})</span>}
                       </td>
-                      <td className="py-3 px-4 text-gray-400">8 Bytes</td>
-                      <td className="py-3 px-4 text-white">{interpretations.uint64?.toString() ?? '-'}</td>
-                      <td className="py-3 px-4 text-gray-500 text-xs">BigInt</td>
-                    </tr>
-                    <tr className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors group">
-                      <td className="py-3 px-4 text-yellow-400 font-bold">
-                        <Tooltip text="64ビット浮動小数点数。より高精度な小数を扱います。">Float64</Tooltip>
+                      <td className="py-3 px-4 text-white break-all">
+                        {value ?? '-'}
+                        {compareInterpretations && (
+                          <div className={clsx("text-xs mt-0.5", isChanged ? "text-red-400" : "text-gray-600")}>
+                            B: {compareValue ?? '-'}
+                            {isChanged && <span className="ml-2 px-1 rounded bg-red-900/60 text-red-300 font-sans font-bold">{t('compare.changed')}</span>}
+                          </div>
+                        )}
                       </td>
-                      <td className="py-3 px-4 text-gray-400">8 Bytes</td>
-                      <td className="py-3 px-4 text-white">{interpretations.float64?.toExponential(4) ?? '-'}</td>
-                      <td className="py-3 px-4 text-gray-500 text-xs">IEEE 754 倍精度</td>
+                      <td className="py-3 px-4 text-xs whitespace-nowrap">
+                        {cursor % alignment === 0 ? (
+                          <Tooltip text={t('interpret.alignedHelp', { address: cursor, alignment })}>
+                            <span className="text-green-400">{t('interpret.aligned')}</span>
+                          </Tooltip>
+                        ) : (
+                          <Tooltip text={t('interpret.misalignedHelp', {
+                            type: type.label,
+                            alignment,
+                            before: cursor - cursor % alignment,
+                            after: cursor - cursor % alignment + alignment,
+                          })}>
+                            <span className="text-amber-400">{t('interpret.misaligned', { alignment })}</span>
+                          </Tooltip>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-gray-500 text-xs">{note}</td>
                     </tr>
-                  </>
-                )}
+                  );
+                })}
               </tbody>
             </table>
           </div>
         </div>
+
+        {/* IEEE 754 Field Breakdown - Full Width */}
+        <FloatBreakdown
+          bytes={memoryBytes}
+          revision={bytesRevision}
+          offset={cursor}
+          isLittleEndian={isLittleEndian}
+          format={floatFormat}
+          onFormatChange={setFloatFormat}
+          highlightFields={highlightFloatFields}
+          onHighlightFieldsChange={setHighlightFloatFields}
+        />
+
+        {/* Byte Order Comparison - Full Width */}
+        <EndianComparison
+          value={registerWord}
+          byteWidth={byteWidth}
+          wordAddress={focusedWordAddress}
+          isLittleEndian={isLittleEndian}
+          onApply={(value) => writeWord(focusedWordAddress, value)}
+        />
+
+        {/* Bit Analysis - Full Width */}
+        <BitAnalysisPanel
+          value={registerWord}
+          byteWidth={byteWidth}
+          wordBits={wordBits}
+          wordAddress={focusedWordAddress}
+          isLittleEndian={isLittleEndian}
+          isSigned={isSigned}
+          onApply={(value) => writeWord(focusedWordAddress, value)}
+        />
+
+        {/* Expression Calculator - Full Width */}
+        <ExpressionCalculator
+          x={firstWord}
+          byteWidth={byteWidth}
+          wordBits={wordBits}
+          isSigned={isSigned}
+          isLittleEndian={isLittleEndian}
+          onApply={(value) => writeWord(0, value)}
+        />
+
+        {/* Register Field Definitions - Full Width */}
+        <RegisterPanel
+          definition={registerDef}
+          onDefinitionChange={setRegisterDef}
+          word={registerWord}
+          wordAddress={focusedWordAddress}
+          wordBits={wordBits}
+          showOverlay={showRegisterOverlay}
+          onShowOverlayChange={(on) => {
+            setShowRegisterOverlay(on);
+            if (on) setViewUnit('word');
+          }}
+          onWrite={(value) => writeWord(focusedWordAddress, value)}
+        />
+
+        {/* C Struct Layout - Full Width */}
+        <StructPanel
+          source={structSource}
+          onSourceChange={setStructSource}
+          abi={structAbi}
+          onAbiChange={setStructAbi}
+          result={structResult}
+          memoryBytes={memoryBytes}
+          isLittleEndian={isLittleEndian}
+          showOverlay={showStructOverlay}
+          onShowOverlayChange={(on) => {
+            setShowStructOverlay(on);
+            if (on) setViewUnit('byte');
+          }}
+          onSelectAddress={setCursorOffset}
+        />
+
+        {/* Variable-Length Integers - Full Width */}
+        <VarintPanel value={varintValue} onUseValue={applyVarintValue} />
+
+        {/* Checksums and CRCs - Full Width */}
+        <ChecksumPanel bytes={memoryBytes} revision={bytesRevision} dataLength={editLength} isLittleEndian={isLittleEndian} onAppend={appendBytes} />
+
+        {/* Copy as Code - Full Width */}
+        <CodeExport bytes={memoryBytes} revision={bytesRevision} byteWidth={byteWidth} isLittleEndian={isLittleEndian} />
       </div>
-    </div>
+    </PageShell>
   );
 };
 
@@ -0,0 +1,129 @@
+// Bit manipulation on unsigned values of a fixed bit width
+
+export const maskOf = (width: number) => (1n << BigInt(width)) - 1n;
+
+// LSB0 counts from the least significant bit; MSB0 from the most significant one, as PowerPC manuals and RFC diagrams do
+export type BitNumbering = 'lsb0' | 'msb0';
+
+// The label of a bit, given its LSB0 index within a field of `width` bits
+export const bitLabel = (bit: number, width: number, numbering: BitNumbering) =>
+  numbering === 'msb0' ? width - 1 - bit : bit;
+
+export const getBit = (value: bigint, bit: number) => Number((value >> BigInt(bit)) & 1n) as 0 | 1;
+
+export type RangeOp = 'set' | 'clear' | 'invert';
+
+// Apply an operation to bits lo..hi inclusive (0 = LSB)
+export const applyRangeOp = (value: bigint, width: number, lo: number, hi: number, op: RangeOp): bigint => {
+  const from = Math.max(0, Math.min(lo, hi));
+  const to = Math.min(width - 1, Math.max(lo, hi));
+  if (from > to) return value;
+  const mask = maskOf(to - from + 1) << BigInt(from);
+  switch (op) {
+    case 'set': return value | mask;
+    case 'clear': return value & ~mask;
+    case 'invert': return value ^ mask;
+  }
+};
+
+export type ShiftOp = 'shl' | 'shr' | 'sar' | 'rol' | 'ror';
+
+export interface ShiftResult {
+  value: bigint;
+  // Last bit shifted out (or rotated through), as an x86 CPU would leave it in CF
+  carry: 0 | 1 | null;
+  // Bits that fell off the end, MSB first; empty for rotates
+  shiftedOut: string;
+}
+
+export const applyShift = (value: bigint, width: number, n: number, op: ShiftOp): ShiftResult => {
+  const mask = maskOf(width);
+  const v = value & mask;
+  if (n <= 0 || width === 0) return { value: v, carry: null, shiftedOut: '' };
+
+  switch (op) {
+    case 'shl': {
+      const result = (v << BigInt(n)) & mask;
+      const lost = n >= width ? v : v >> BigInt(width - n);
+      return {
+        value: result,
+        carry: n > width ? 0 : getBit(v, width - n),
+        shiftedOut: lost.toString(2).padStart(n, '0'),
+      };
+    }
+    case 'shr':
+    case 'sar': {
+      const signed = op === 'sar';
+      const fill = signed && getBit(v, width - 1) === 1;
+      const result = signed
+        ? BigInt.asUintN(width, BigInt.asIntN(width, v) >> BigInt(Math.min(n, width)))
+        : v >> BigInt(n);
+      const lost = v & maskOf(Math.min(n, width));
+      return {
+        value: result,
+        carry: n > width ? (fill ? 1 : 0) : getBit(v, n - 1),
+        shiftedOut: lost.toString(2).padStart(Math.min(n, width), '0'),
+      };
+    }
+    case 'rol':
+    case 'ror': {
+      const k = BigInt(n % width);
+      const result = op === 'rol'
+        ? ((v << k) | (v >> (BigInt(width) - k))) & mask
+        : ((v >> k) | (v << (BigInt(width) - k))) & mask;
+      // ROL leaves the bit that wrapped into the LSB in CF, ROR the one that wrapped into the MSB
+      return { value: result, carry: getBit(result, op === 'rol' ? 0 : width - 1), shiftedOut: '' };
+    }
+  }
+};
+
+// --- Bit analysis ---
+// Counts and searches treat the value as `width` bits; zero has no set bit, so its search results are -1
+
+export const popcount = (value: bigint): number => {
+  let count = 0;
+  for (let v = value; v; v &= v - 1n) count++;
+  return count;
+};
+
+// Index of the highest set bit (0 = LSB), or -1 for zero
+export const highestSetBit = (value: bigint): number => (value > 0n ? value.toString(2).length - 1 : -1);
+
+export const lowestSetBit = (value: bigint): number => highestSetBit(value & -value);
+
+export const countLeadingZeros = (value: bigint, width: number): number => width - 1 - highestSetBit(value);
+
+export const countTrailingZeros = (value: bigint, width: number): number => (value ? lowestSetBit(value) : width);
+
+export const isPowerOfTwo = (value: bigint): boolean => value > 0n && (value & (value - 1n)) === 0n;
+
+// Smallest power of two not below the value; null when it needs more than `width` bits
+export const nextPowerOfTwo = (value: bigint, width: number): bigint | null => {
+  const next = value <= 1n ? 1n : 1n << BigInt(highestSetBit(value - 1n) + 1);
+  return next > maskOf(width) ? null : next;
+};
+
+export const reverseBits = (value: bigint, width: number): bigint => {
+  let result = 0n;
+  for (let i = 0; i < width; i++) result = (result << 1n) | ((value >> BigInt(i)) & 1n);
+  return result;
+};
+
+export const reverseBytes = (value: bigint, byteCount: number): bigint => {
+  let result = 0n;
+  for (let i = 0; i < byteCount; i++) result = (result << 8n) | ((value >> BigInt(i * 8)) & 0xFFn);
+  return result;
+};
+
+export const toGray = (value: bigint): bigint => value ^ (value >> 1n);
+
+// Each binary bit is the XOR of all Gray bits at and above it
+export const fromGray = (gray: bigint): bigint => {
+  let value = gray;
+  for (let shift = gray >> 1n; shift; shift >>= 1n) value ^= shift;
+  return value;
+};
+
+// Treat bit `fromBit` as the sign and copy it into every bit above, up to `width`
+export const signExtend = (value: bigint, fromBit: number, width: number): bigint =>
+  BigInt.asUintN(width, BigInt.asIntN(fromBit + 1, value));
@@ -0,0 +1,132 @@
+import { InputFormat, SourceType, SOURCE_TYPES, isValidWordBits } from './utils';
+import { ViewState } from './permalink';
+import { t } from './i18n';
+
+// --- Bookmarks ---
+// Named values kept in localStorage. A bookmark restores what was typed (or the loaded bytes) together with
+// the settings that decide how it is stored and shown; panels such as the struct editor are left alone.
+
+export interface Bookmark {
+  name: string;
+  inputMode: 'value' | 'buffer';
+  inputStr: string;
+  inputType: InputFormat;
+  sourceType: SourceType;
+  // Buffer mode only: the bytes as one hex string
+  buffer?: { hex: string; baseAddress: number; fileName: string | null };
+  wordBits: number;
+  isLittleEndian: boolean;
+  isSigned: boolean;
+  viewUnit: 'byte' | 'word';
+}
+
+// localStorage holds a few megabytes at most; larger buffers belong in a file or a link
+export const MAX_BOOKMARK_BUFFER = 16 * 1024;
+
+const STORAGE_KEY = 'bitwise-visualizer.bookmarks';
+
+const INPUT_FORMATS: InputFormat[] = ['auto', 'dec', 'hex', 'bin', 'oct'];
+
+export const createBookmark = (name: string, state: ViewState): Bookmark => {
+  const { inputMode, inputStr, inputType, sourceType, wordBits, isLittleEndian, isSigned, viewUnit } = state;
+  const bookmark: Bookmark = { name, inputMode, inputStr, inputType, sourceType, wordBits, isLittleEndian, isSigned, viewUnit };
+  if (inputMode === 'buffer') {
+    bookmark.buffer = {
+      hex: state.buffer.bytes.map(b => b.toString(16).padStart(2, '0')).join(''),
+      baseAddress: state.buffer.baseAddress,
+      fileName: state.buffer.fileName,
+    };
+  }
+  return bookmark;
+};
+
+// The part of the view state a bookmark sets
+export const bookmarkToState = (bookmark: Bookmark): Partial<ViewState> => {
+  const { inputMode, inputStr, inputType, sourceType, wordBits, isLittleEndian, isSigned, viewUnit, buffer } = bookmark;
+  const state: Partial<ViewState> = { inputMode, inputStr, inputType, sourceType, wordBits, isLittleEndian, isSigned, viewUnit };
+  if (buffer) {
+    state.buffer = {
+      bytes: (buffer.hex.match(/../g) ?? []).map(h => parseInt(h, 16)),
+      format: null,
+      baseAddress: buffer.baseAddress,
+      fileName: buffer.fileName,
+    };
+  }
+  return state;
+};
+
+// Anything that does not look like a bookmark is rejected as a whole, so a stray file cannot half-apply
+const readBookmark = (raw: unknown): Bookmark | null => {
+  // Bookmarks saved before arbitrary widths stored the width in bytes
+  const b = raw as Partial<Bookmark> & { byteWidth?: number };
+  if (!b || typeof b !== 'object') return null;
+  if (typeof b.name !== 'string' || typeof b.inputStr !== 'string') return null;
+  if (b.inputMode !== 'value' && b.inputMode !== 'buffer') return null;
+  if (!INPUT_FORMATS.includes(b.inputType!) || !SOURCE_TYPES.some(s => s.id === b.sourceType)) return null;
+  const wordBits = b.wordBits ?? (b.byteWidth === undefined ? undefined : b.byteWidth * 8);
+  if (!isValidWordBits(wordBits)) return null;
+  if (typeof b.isLittleEndian !== 'boolean' || typeof b.isSigned !== 'boolean') return null;
+  if (b.viewUnit !== 'byte' && b.viewUnit !== 'word') return null;
+  const bookmark: Bookmark = {
+    name: b.name,
+    inputMode: b.inputMode,
+    inputStr: b.inputStr,
+    inputType: b.inputType!,
+    sourceType: b.sourceType!,
+    wordBits,
+    isLittleEndian: b.isLittleEndian,
+    isSigned: b.isSigned,
+    viewUnit: b.viewUnit,
+  };
+  if (b.inputMode === 'buffer') {
+    const buffer = b.buffer;
+    if (!buffer || typeof buffer.hex !== 'string' || !/^([0-9a-f]{2})*$/.test(buffer.hex)) return null;
+    bookmark.buffer = {
+      hex: buffer.hex,
+      baseAddress: Number.isSafeInteger(buffer.baseAddress) ? buffer.baseAddress : 0,
+      fileName: typeof buffer.fileName === 'string' ? buffer.fileName : null,
+    };
+  }
+  return bookmark;
+};
+
+export const serializeBookmarks = (bookmarks: Bookmark[]) => JSON.stringify({ bookmarks }, null, 2);
+
+export const parseBookmarksJson = (text: string): { bookmarks: Bookmark[] | null; error: string | null } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { bookmarks: null, error: t('bookmark.error.badJson', { message: (e as Error).message }) };
+  }
+
+  const list = (data as { bookmarks?: unknown })?.bookmarks;
+  if (!Array.isArray(list)) return { bookmarks: null, error: t('bookmark.error.noBookmarks') };
+
+  const bookmarks: Bookmark[] = [];
+  for (const [i, raw] of list.entries()) {
+    const bookmark = readBookmark(raw);
+    if (!bookmark) return { bookmarks: null, error: t('bookmark.error.badBookmark', { index: i }) };
+    bookmarks.push(bookmark);
+  }
+  return { bookmarks, error: null };
+};
+
+export const loadBookmarks = (): Bookmark[] => {
+  try {
+    return parseBookmarksJson(localStorage.getItem(STORAGE_KEY) ?? '{"bookmarks":[]}').bookmarks ?? [];
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed iframes)
+    return [];
+  }
+};
+
+// Returns false when the browser refused, e.g. because storage is full
+export const saveBookmarks = (bookmarks: Bookmark[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeBookmarks(bookmarks));
+    return true;
+  } catch {
+    return false;
+  }
+};
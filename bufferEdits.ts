@@ -0,0 +1,114 @@
+import { ByteBuffer } from './hexDump';
+
+// --- In-place buffer edits ---
+// Flipping a bit in a multi-megabyte buffer must not copy it, so edits write into the byte array itself.
+// Each edit still returns a new ByteBuffer with its own revision, and the bytes it overwrote are kept per
+// array. Showing an older or newer revision again (undo, redo) replays those patches first, so a ByteBuffer
+// always stands for the bytes it had when it was made.
+// Patches older than anything undo can still reach are dropped by prunePatches.
+
+interface Patch {
+  // Revision the patch was made on; 0 is the array as loaded
+  parent: number;
+  address: number;
+  before: number[];
+  after: number[];
+}
+
+interface PatchLog {
+  // Revision the array holds right now
+  head: number;
+  patches: Map<number, Patch>;
+  // Zero-padded copy of the array that every write also goes to (see paddedBytes)
+  padded: number[] | null;
+}
+
+const logs = new WeakMap<number[], PatchLog>();
+let lastRevision = 0;
+
+const revisionOf = (buffer: ByteBuffer) => buffer.revision ?? 0;
+
+const logOf = (bytes: number[]) => {
+  let log = logs.get(bytes);
+  if (!log) {
+    log = { head: 0, patches: new Map(), padded: null };
+    logs.set(bytes, log);
+  }
+  return log;
+};
+
+const write = (log: PatchLog, bytes: number[], address: number, values: number[]) => {
+  for (let i = 0; i < values.length; i++) {
+    bytes[address + i] = values[i];
+    if (log.padded) log.padded[address + i] = values[i];
+  }
+};
+
+// Revisions from `revision` back to the loaded bytes, newest first
+const lineage = (log: PatchLog, revision: number) => {
+  const chain = [revision];
+  for (let patch = log.patches.get(revision); patch; patch = log.patches.get(patch.parent)) chain.push(patch.parent);
+  return chain;
+};
+
+// Makes `buffer.bytes` hold what they held at `buffer`'s revision
+export const checkoutBuffer = (buffer: ByteBuffer) => {
+  const log = logs.get(buffer.bytes);
+  const target = revisionOf(buffer);
+  if (!log || log.head === target) return;
+  const from = lineage(log, log.head);
+  const to = lineage(log, target);
+  const fork = from.find(revision => to.includes(revision)) ?? 0;
+  // Back to where the two revisions part, then forward to the target
+  for (const revision of from.slice(0, from.indexOf(fork))) {
+    const patch = log.patches.get(revision)!;
+    write(log, buffer.bytes, patch.address, patch.before);
+  }
+  for (const revision of to.slice(0, to.indexOf(fork)).reverse()) {
+    const patch = log.patches.get(revision)!;
+    write(log, buffer.bytes, patch.address, patch.after);
+  }
+  log.head = target;
+};
+
+// Writes `values` at `address` (clipped to the buffer) and returns the new revision
+export const patchBuffer = (buffer: ByteBuffer, address: number, values: number[]): ByteBuffer => {
+  checkoutBuffer(buffer);
+  const { bytes } = buffer;
+  const after = values.slice(0, Math.max(0, bytes.length - address));
+  const log = logOf(bytes);
+  const revision = ++lastRevision;
+  log.patches.set(revision, { parent: revisionOf(buffer), address, before: bytes.slice(address, address + after.length), after });
+  log.head = revision;
+  write(log, bytes, address, after);
+  return { ...buffer, revision };
+};
+
+// `buffer`'s bytes zero-filled to `length`. The copy is made once per array and then kept up to date by
+// the edits, so a buffer that does not fill its last word is not copied again on every edit.
+export const paddedBytes = (buffer: ByteBuffer, length: number) => {
+  if (buffer.bytes.length >= length) return buffer.bytes;
+  checkoutBuffer(buffer);
+  const log = logOf(buffer.bytes);
+  if (log.padded?.length !== length) log.padded = [...buffer.bytes, ...Array(length - buffer.bytes.length).fill(0)];
+  return log.padded;
+};
+
+// Forgets what no buffer in `live` can go back to: the branches none of them is on, and everything before
+// the newest revision they all descend from. Pass every buffer the undo history still holds.
+export const prunePatches = (live: ByteBuffer[]) => {
+  const revisions = new Map<number[], number[]>();
+  for (const buffer of live) revisions.set(buffer.bytes, [...revisions.get(buffer.bytes) ?? [], revisionOf(buffer)]);
+  for (const [bytes, kept] of revisions) {
+    const log = logs.get(bytes);
+    if (!log) continue;
+    const chains = [log.head, ...kept].map(revision => lineage(log, revision));
+    const chainSets = chains.map(chain => new Set(chain));
+    const base = chains[0].find(revision => chainSets.every(chain => chain.has(revision)));
+    if (base === undefined) continue;
+    // The patch that made `base` goes too, so its lineage now ends there
+    for (const revision of chains[0].slice(chains[0].indexOf(base))) log.patches.delete(revision);
+    const reachable = new Set(chains.flat());
+    for (const revision of log.patches.keys()) if (!reachable.has(revision)) log.patches.delete(revision);
+  }
+};
@@ -0,0 +1,82 @@
+import { maskOf } from './bitOps';
+import { t } from './i18n';
+
+// --- Byte orders and byte swaps ---
+
+export type ByteOrder = 'le' | 'be' | 'pdp';
+
+export const BYTE_ORDERS: { id: ByteOrder; short: string; label: string; description: string }[] = [
+  { id: 'le', short: 'LE', get label() { return t('endian.le'); }, get description() { return t('byteOrder.le.description'); } },
+  { id: 'be', short: 'BE', get label() { return t('endian.be'); }, get description() { return t('byteOrder.be.description'); } },
+  {
+    id: 'pdp',
+    short: 'PDP-11',
+    get label() { return t('byteOrder.pdp.label'); },
+    get description() { return t('byteOrder.pdp.description'); },
+  },
+];
+
+// Significance (0 = LSB) of the byte stored at each address, for a value of `size` bytes
+export const significanceOrder = (order: ByteOrder, size: number): number[] => {
+  const addresses = Array.from({ length: size }, (_, i) => i);
+  switch (order) {
+    case 'le': return addresses;
+    case 'be': return addresses.map(i => size - 1 - i);
+    // High 16-bit word first, each word LSB first; an odd trailing byte stays where LE puts it
+    case 'pdp': return addresses.map(i => {
+      if (size % 2 && i === size - 1) return i;
+      const words = Math.floor(size / 2);
+      const word = words - 1 - Math.floor(i / 2);
+      return word * 2 + (i % 2);
+    });
+  }
+};
+
+// The value's bytes in memory order
+export const layoutBytes = (value: bigint, size: number, order: ByteOrder): number[] => {
+  return significanceOrder(order, size).map(s => Number((value >> BigInt(s * 8)) & 0xFFn));
+};
+
+// Reverse the order of the low `bits / 8` bytes; higher bits are dropped, as casting to the operand type would
+export const bswap = (value: bigint, bits: number): bigint => {
+  let v = value & maskOf(bits);
+  let result = 0n;
+  for (let i = 0; i < bits / 8; i++) {
+    result = (result << 8n) | (v & 0xFFn);
+    v >>= 8n;
+  }
+  return result;
+};
+
+// Swap the 16-bit halves of a 32-bit value: converts between PDP-11 and little-endian 32-bit order
+export const pdpSwap32 = (value: bigint): bigint => {
+  const v = value & 0xFFFFFFFFn;
+  return ((v & 0xFFFFn) << 16n) | (v >> 16n);
+};
+
+export type SwapOp = 'bswap16' | 'bswap32' | 'bswap64' | 'htons' | 'htonl' | 'ntohs' | 'ntohl' | 'pdp32';
+
+export const SWAP_OPS: { op: SwapOp; label: string; bits: number; help: string }[] = [
+  { op: 'bswap16', label: 'bswap16', bits: 16, get help() { return t('swap.bswap16'); } },
+  { op: 'bswap32', label: 'bswap32', bits: 32, get help() { return t('swap.bswap32'); } },
+  { op: 'bswap64', label: 'bswap64', bits: 64, get help() { return t('swap.bswap64'); } },
+  { op: 'htons', label: 'htons', bits: 16, get help() { return t('swap.htons'); } },
+  { op: 'ntohs', label: 'ntohs', bits: 16, get help() { return t('swap.ntohs'); } },
+  { op: 'htonl', label: 'htonl', bits: 32, get help() { return t('swap.htonl'); } },
+  { op: 'ntohl', label: 'ntohl', bits: 32, get help() { return t('swap.ntohl'); } },
+  { op: 'pdp32', label: 'PDP-11 ⇄ LE', bits: 32, get help() { return t('swap.pdp32'); } },
+];
+
+// hton/ntoh are a byte swap on little-endian hosts and do nothing on big-endian ones
+export const applySwap = (value: bigint, op: SwapOp, hostLittleEndian: boolean): bigint => {
+  switch (op) {
+    case 'bswap16': return bswap(value, 16);
+    case 'bswap32': return bswap(value, 32);
+    case 'bswap64': return bswap(value, 64);
+    case 'htons':
+    case 'ntohs': return hostLittleEndian ? bswap(value, 16) : value & 0xFFFFn;
+    case 'htonl':
+    case 'ntohl': return hostLittleEndian ? bswap(value, 32) : value & 0xFFFFFFFFn;
+    case 'pdp32': return pdpSwap32(value);
+  }
+};
@@ -0,0 +1,198 @@
+// --- Checksums and CRCs ---
+// The CRC follows the Rocksoft parameter model used by the CRC catalogues (width, poly, init, refin,
+// refout, xorout), so any catalogued CRC up to 64 bits can be entered as-is. Widths up to 32 run on plain
+// numbers, wider ones on BigInt.
+
+export interface CrcParams {
+  width: number;
+  poly: bigint;
+  init: bigint;
+  refIn: boolean;
+  refOut: boolean;
+  xorOut: bigint;
+}
+
+export interface CrcPreset {
+  id: string;
+  label: string;
+  params: CrcParams;
+  // CRC of the ASCII string "123456789", as listed in the catalogues
+  check: bigint;
+}
+
+export const CRC_PRESETS: CrcPreset[] = [
+  { id: 'crc8-smbus', label: 'CRC-8/SMBUS', params: { width: 8, poly: 0x07n, init: 0n, refIn: false, refOut: false, xorOut: 0n }, check: 0xF4n },
+  { id: 'crc16-modbus', label: 'CRC-16/MODBUS', params: { width: 16, poly: 0x8005n, init: 0xFFFFn, refIn: true, refOut: true, xorOut: 0n }, check: 0x4B37n },
+  // "CRC-16/CCITT" names two different CRCs in the wild; the catalogue's is KERMIT, the other is CCITT-FALSE
+  { id: 'crc16-ccitt', label: 'CRC-16/CCITT (KERMIT)', params: { width: 16, poly: 0x1021n, init: 0n, refIn: true, refOut: true, xorOut: 0n }, check: 0x2189n },
+  { id: 'crc16-ccitt-false', label: 'CRC-16/CCITT-FALSE', params: { width: 16, poly: 0x1021n, init: 0xFFFFn, refIn: false, refOut: false, xorOut: 0n }, check: 0x29B1n },
+  { id: 'crc16-xmodem', label: 'CRC-16/XMODEM', params: { width: 16, poly: 0x1021n, init: 0n, refIn: false, refOut: false, xorOut: 0n }, check: 0x31C3n },
+  { id: 'crc32', label: 'CRC-32', params: { width: 32, poly: 0x04C11DB7n, init: 0xFFFFFFFFn, refIn: true, refOut: true, xorOut: 0xFFFFFFFFn }, check: 0xCBF43926n },
+  { id: 'crc32c', label: 'CRC-32C', params: { width: 32, poly: 0x1EDC6F41n, init: 0xFFFFFFFFn, refIn: true, refOut: true, xorOut: 0xFFFFFFFFn }, check: 0xE3069283n },
+  { id: 'crc64-xz', label: 'CRC-64/XZ', params: { width: 64, poly: 0x42F0E1EBA9EA3693n, init: 0xFFFFFFFFFFFFFFFFn, refIn: true, refOut: true, xorOut: 0xFFFFFFFFFFFFFFFFn }, check: 0x995DC9BBDF1939FAn },
+];
+
+export const CRC_MAX_WIDTH = 64;
+
+const REFLECT8 = Array.from({ length: 256 }, (_, b) => {
+  let r = 0;
+  for (let i = 0; i < 8; i++) r |= ((b >> i) & 1) << (7 - i);
+  return r;
+});
+
+const reflect = (value: bigint, width: number) => {
+  let r = 0n;
+  for (let i = 0; i < width; i++) r |= ((value >> BigInt(i)) & 1n) << BigInt(width - 1 - i);
+  return r;
+};
+
+// MSB-first shift register; reflected input is handled by reflecting each byte on the way in
+const crcNumber = (bytes: number[], { width, poly, init, refIn }: CrcParams) => {
+  const mask = width === 32 ? 0xFFFFFFFF : 2 ** width - 1;
+  const top = 2 ** (width - 1);
+  const p = Number(poly);
+  let reg = Number(init);
+  const step = (r: number) => (r >= top ? ((r * 2) ^ p) & mask : (r * 2) & mask) >>> 0;
+  if (width < 8) {
+    for (const byte of bytes) {
+      const b = refIn ? REFLECT8[byte] : byte;
+      for (let i = 7; i >= 0; i--) reg = step(((b >> i) & 1) ? reg ^ top : reg);
+    }
+    return BigInt(reg);
+  }
+  const shift = width - 8;
+  const table = Array.from({ length: 256 }, (_, i) => {
+    let r = i * 2 ** shift;
+    for (let k = 0; k < 8; k++) r = step(r);
+    return r;
+  });
+  for (const byte of bytes) {
+    const b = refIn ? REFLECT8[byte] : byte;
+    const index = (Math.floor(reg / 2 ** shift) ^ b) & 0xFF;
+    reg = (((reg * 256) % (mask + 1)) ^ table[index]) >>> 0;
+  }
+  return BigInt(reg);
+};
+
+const crcBigInt = (bytes: number[], { width, poly, init, refIn }: CrcParams) => {
+  const w = BigInt(width);
+  const mask = (1n << w) - 1n;
+  const top = 1n << (w - 1n);
+  const shift = w - 8n;
+  const step = (r: bigint) => (r & top ? (r << 1n) ^ poly : r << 1n) & mask;
+  const table = Array.from({ length: 256 }, (_, i) => {
+    let r = BigInt(i) << shift;
+    for (let k = 0; k < 8; k++) r = step(r);
+    return r;
+  });
+  let reg = init & mask;
+  for (const byte of bytes) {
+    const b = refIn ? REFLECT8[byte] : byte;
+    reg = ((reg << 8n) & mask) ^ table[Number((reg >> shift) & 0xFFn) ^ b];
+  }
+  return reg;
+};
+
+export const crc = (bytes: number[], params: CrcParams): bigint => {
+  const mask = (1n << BigInt(params.width)) - 1n;
+  const normalized = { ...params, poly: params.poly & mask, init: params.init & mask };
+  const reg = params.width <= 32 ? crcNumber(bytes, normalized) : crcBigInt(bytes, normalized);
+  return ((params.refOut ? reflect(reg, params.width) : reg) ^ params.xorOut) & mask;
+};
+
+// --- Other checksums ---
+
+export type ChecksumId = 'adler32' | 'fletcher16' | 'fletcher32' | 'internet' | 'xor8' | 'sum8' | 'sum8-twos';
+
+export interface ChecksumAlgorithm {
+  id: ChecksumId;
+  label: string;
+  width: number;
+  // Fletcher-32 reads 16-bit words, so it needs the byte order
+  compute: (bytes: number[], isLittleEndian: boolean) => bigint;
+}
+
+const word16 = (bytes: number[], i: number, isLittleEndian: boolean) => {
+  const a = bytes[i];
+  const b = bytes[i + 1] ?? 0;
+  return isLittleEndian ? a | (b << 8) : (a << 8) | b;
+};
+
+export const CHECKSUMS: ChecksumAlgorithm[] = [
+  {
+    id: 'adler32',
+    label: 'Adler-32',
+    width: 32,
+    compute: (bytes) => {
+      let a = 1;
+      let b = 0;
+      for (const byte of bytes) {
+        a = (a + byte) % 65521;
+        b = (b + a) % 65521;
+      }
+      return BigInt(b) << 16n | BigInt(a);
+    },
+  },
+  {
+    id: 'fletcher16',
+    label: 'Fletcher-16',
+    width: 16,
+    compute: (bytes) => {
+      let sum1 = 0;
+      let sum2 = 0;
+      for (const byte of bytes) {
+        sum1 = (sum1 + byte) % 255;
+        sum2 = (sum2 + sum1) % 255;
+      }
+      return BigInt(sum2 << 8 | sum1);
+    },
+  },
+  {
+    id: 'fletcher32',
+    label: 'Fletcher-32',
+    width: 32,
+    compute: (bytes, isLittleEndian) => {
+      let sum1 = 0;
+      let sum2 = 0;
+      // An odd trailing byte is padded with zero
+      for (let i = 0; i < bytes.length; i += 2) {
+        sum1 = (sum1 + word16(bytes, i, isLittleEndian)) % 65535;
+        sum2 = (sum2 + sum1) % 65535;
+      }
+      return BigInt(sum2) << 16n | BigInt(sum1);
+    },
+  },
+  {
+    // RFC 1071: one's complement of the one's complement sum of big-endian 16-bit words
+    id: 'internet',
+    label: 'Internet (RFC 1071)',
+    width: 16,
+    compute: (bytes) => {
+      let sum = 0;
+      for (let i = 0; i < bytes.length; i += 2) {
+        sum += word16(bytes, i, false);
+        if (sum > 0xFFFF) sum = (sum & 0xFFFF) + 1;
+      }
+      return BigInt(~sum & 0xFFFF);
+    },
+  },
+  {
+    id: 'xor8',
+    label: 'XOR-8',
+    width: 8,
+    compute: (bytes) => BigInt(bytes.reduce((acc, b) => acc ^ b, 0)),
+  },
+  {
+    id: 'sum8',
+    label: 'SUM-8',
+    width: 8,
+    compute: (bytes) => BigInt(bytes.reduce((acc, b) => (acc + b) & 0xFF, 0)),
+  },
+  {
+    // The byte that makes the whole sum zero, as in Intel HEX records
+    id: 'sum8-twos',
+    label: "SUM-8 (2's complement)",
+    width: 8,
+    compute: (bytes) => BigInt(-bytes.reduce((acc, b) => acc + b, 0) & 0xFF),
+  },
+];
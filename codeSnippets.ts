@@ -0,0 +1,128 @@
+import { bytesToBigInt } from './utils';
+import { t } from './i18n';
+
+// --- Copy-as code snippets ---
+// Byte arrays reproduce memory exactly; the word forms write each whole word through the
+// language's own endian-aware API, with any bytes past the last whole word written one by one.
+// Word forms exist only for 16/32/64-bit words, the widths every language here has a type for.
+
+export type SnippetLanguage = 'c' | 'rust' | 'python' | 'js' | 'go';
+
+export const SNIPPET_LANGUAGES: { id: SnippetLanguage; label: string }[] = [
+  { id: 'c', label: 'C' },
+  { id: 'rust', label: 'Rust' },
+  { id: 'python', label: 'Python' },
+  { id: 'js', label: 'JavaScript' },
+  { id: 'go', label: 'Go' },
+];
+
+export interface Snippet {
+  label: string;
+  code: string;
+}
+
+// Past this the snippets would be unreadable; only the head of the buffer is exported
+export const SNIPPET_BYTE_LIMIT = 4096;
+
+const BYTES_PER_LINE = 16;
+
+const hexByte = (b: number) => '0x' + b.toString(16).toUpperCase().padStart(2, '0');
+
+const hexWord = (value: bigint, byteWidth: number) => '0x' + value.toString(16).toUpperCase().padStart(byteWidth * 2, '0');
+
+// `0x12, 0x34, ...` wrapped at BYTES_PER_LINE, each line prefixed with `indent`
+const byteList = (bytes: number[], indent: string) => {
+  const lines: string[] = [];
+  for (let i = 0; i < bytes.length; i += BYTES_PER_LINE) {
+    lines.push(indent + bytes.slice(i, i + BYTES_PER_LINE).map(hexByte).join(', ') + ',');
+  }
+  return lines.join('\n');
+};
+
+interface Words {
+  values: bigint[];
+  // Bytes after the last whole word
+  tail: number[];
+  tailOffset: number;
+}
+
+const splitWords = (bytes: number[], byteWidth: number, isLittleEndian: boolean): Words => {
+  const count = Math.floor(bytes.length / byteWidth);
+  const values = Array.from({ length: count }, (_, i) => {
+    return bytesToBigInt(bytes.slice(i * byteWidth, (i + 1) * byteWidth), isLittleEndian);
+  });
+  return { values, tail: bytes.slice(count * byteWidth), tailOffset: count * byteWidth };
+};
+
+const UINT_BITS: Record<number, string> = { 2: '16', 4: '32', 8: '64' };
+
+export const generateSnippets = (
+  language: SnippetLanguage,
+  bytes: number[],
+  byteWidth: number,
+  isLittleEndian: boolean
+): Snippet[] => {
+  const n = bytes.length;
+  const bits = UINT_BITS[byteWidth];
+  const hasWords = bits !== undefined;
+  const words = splitWords(bytes, byteWidth, isLittleEndian);
+  const le = isLittleEndian;
+
+  switch (language) {
+    case 'c':
+      return [{
+        label: t('snippet.cInitializer'),
+        code: `#include <stdint.h>\n\nuint8_t data[${n}] = {\n${byteList(bytes, '    ')}\n};`,
+      }];
+
+    case 'rust': {
+      const method = le ? 'from_le_bytes' : 'from_be_bytes';
+      const wordLines = words.values.map((v, i) => {
+        const chunk = bytes.slice(i * byteWidth, (i + 1) * byteWidth).map(hexByte).join(', ');
+        return `let w${i} = u${bits}::${method}([${chunk}]); // ${hexWord(v, byteWidth)}`;
+      });
+      if (words.tail.length) {
+        wordLines.push(`let tail: [u8; ${words.tail.length}] = [${words.tail.map(hexByte).join(', ')}];`);
+      }
+      const byteForm = { label: '[u8; N]', code: `let data: [u8; ${n}] = [\n${byteList(bytes, '    ')}\n];` };
+      return hasWords ? [byteForm, { label: `u${bits}::${method}`, code: wordLines.join('\n') }] : [byteForm];
+    }
+
+    case 'python': {
+      const hex = bytes.map(b => b.toString(16).padStart(2, '0')).join('');
+      const fmtChar = ({ 2: 'H', 4: 'I', 8: 'Q' } as Record<number, string>)[byteWidth];
+      const count = words.values.length;
+      const parts: string[] = [];
+      if (count) {
+        const fmt = `${le ? '<' : '>'}${count > 1 ? count : ''}${fmtChar}`;
+        parts.push(`struct.pack('${fmt}', ${words.values.map(v => hexWord(v, byteWidth)).join(', ')})`);
+      }
+      if (words.tail.length) parts.push(`bytes.fromhex('${words.tail.map(b => b.toString(16).padStart(2, '0')).join('')}')`);
+      const byteForm = { label: 'bytes.fromhex', code: `data = bytes.fromhex('${hex}')` };
+      return hasWords ? [byteForm, { label: 'struct.pack', code: `import struct\n\ndata = ${parts.join(' + ') || "b''"}` }] : [byteForm];
+    }
+
+    case 'js': {
+      const setter = byteWidth === 8 ? 'setBigUint64' : `setUint${bits}`;
+      const suffix = byteWidth === 8 ? 'n' : '';
+      const lines = [`const view = new DataView(new ArrayBuffer(${n}));`];
+      words.values.forEach((v, i) => {
+        lines.push(`view.${setter}(${i * byteWidth}, ${hexWord(v, byteWidth)}${suffix}, ${le});`);
+      });
+      words.tail.forEach((b, i) => lines.push(`view.setUint8(${words.tailOffset + i}, ${hexByte(b)});`));
+      const byteForm = { label: 'Uint8Array', code: `const data = new Uint8Array([\n${byteList(bytes, '  ')}\n]);` };
+      return hasWords ? [{ label: 'DataView', code: lines.join('\n') }, byteForm] : [byteForm];
+    }
+
+    case 'go': {
+      const order = le ? 'binary.LittleEndian' : 'binary.BigEndian';
+      const lines = ['import "encoding/binary"', '', `buf := make([]byte, ${n})`];
+      words.values.forEach((v, i) => {
+        lines.push(`${order}.PutUint${bits}(buf[${i * byteWidth}:], ${hexWord(v, byteWidth)})`);
+      });
+      words.tail.forEach((b, i) => lines.push(`buf[${words.tailOffset + i}] = ${hexByte(b)}`));
+      const byteForm = { label: '[]byte', code: `data := []byte{\n${byteList(bytes, '\t')}\n}` };
+      return hasWords ? [{ label: `${order}.PutUint${bits}`, code: lines.join('\n') }, byteForm] : [byteForm];
+    }
+  }
+};
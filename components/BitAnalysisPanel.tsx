@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { Microscope, Info } from 'lucide-react';
+import { Tooltip } from './Tooltip';
+import { WordCard, useBitNumbering } from './WordCard';
+import { bigIntToBytes } from '../utils';
+import {
+  maskOf, bitLabel, popcount, highestSetBit, lowestSetBit, countLeadingZeros, countTrailingZeros, isPowerOfTwo, nextPowerOfTwo,
+  reverseBits, reverseBytes, toGray, fromGray, signExtend,
+} from '../bitOps';
+import { t, useLanguage } from '../i18n';
+
+interface BitFact {
+  id: string;
+  label: string;
+  text: string;
+  // Bits of the word the result is about, outlined in the WordCard while hovered
+  mask: bigint;
+  // Derived values can be written back over the word
+  result?: bigint;
+}
+
+// Derived facts about the word under the cursor; hovering one outlines the bits it looks at
+export const BitAnalysisPanel = ({
+  value,
+  byteWidth,
+  wordBits,
+  wordAddress,
+  isLittleEndian,
+  isSigned,
+  onApply,
+}: {
+  value: bigint;
+  byteWidth: number;
+  wordBits: number;
+  wordAddress: number;
+  isLittleEndian: boolean;
+  isSigned: boolean;
+  onApply: (value: bigint) => void;
+}) => {
+  const [signBit, setSignBit] = useState(7);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const language = useLanguage();
+
+  const numbering = useBitNumbering();
+  const width = wordBits;
+  const fromBit = Math.min(signBit, width - 1);
+  // Bit numbers are shown, and typed, in the chosen numbering
+  const displayBit = (bit: number) => bitLabel(bit, width, numbering);
+
+  const facts = useMemo((): BitFact[] => {
+    const all = maskOf(width);
+    const hex = (v: bigint) => `0x${v.toString(16).toUpperCase().padStart(Math.ceil(width / 4), '0')}`;
+    const bitText = (bit: number) => (bit < 0 ? t('bits.none') : t('common.bit', { bit: displayBit(bit) }));
+    const high = highestSetBit(value);
+    const low = lowestSetBit(value);
+    const clz = countLeadingZeros(value, width);
+    const ctz = countTrailingZeros(value, width);
+    const ones = popcount(value);
+    const next = nextPowerOfTwo(value, width);
+    const extended = signExtend(value, fromBit, width);
+    const singleBit = (bit: number) => (bit < 0 ? 0n : 1n << BigInt(bit));
+
+    return [
+      { id: 'popcount', label: t('bits.popcount'), text: String(ones), mask: value },
+      { id: 'parity', label: t('bits.parity'), text: t(ones % 2 ? 'bits.parity.odd' : 'bits.parity.even'), mask: value },
+      { id: 'clz', label: 'CLZ', text: String(clz), mask: all ^ maskOf(width - clz) },
+      { id: 'ctz', label: 'CTZ', text: String(ctz), mask: maskOf(ctz) },
+      { id: 'highest', label: t('bits.highest'), text: bitText(high), mask: singleBit(high) },
+      { id: 'lowest', label: t('bits.lowest'), text: bitText(low), mask: singleBit(low) },
+      {
+        id: 'pow2',
+        label: t('bits.isPowerOfTwo'),
+        text: isPowerOfTwo(value) ? t('bits.yes', { exponent: high }) : t('bits.no'),
+        mask: value,
+      },
+      {
+        id: 'nextPow2',
+        label: t('bits.nextPowerOfTwo'),
+        text: next === null ? t('bits.overflow', { width }) : hex(next),
+        mask: next === null ? 0n : next,
+        result: next ?? undefined,
+      },
+      { id: 'reverseBits', label: t('bits.reverseBits'), text: hex(reverseBits(value, width)), mask: all, result: reverseBits(value, width) },
+      // Byte order only means something when the word is whole bytes
+      ...(width % 8 ? [] : [
+        { id: 'reverseBytes', label: t('bits.reverseBytes'), text: hex(reverseBytes(value, byteWidth)), mask: all, result: reverseBytes(value, byteWidth) },
+      ]),
+      { id: 'gray', label: t('bits.toGray'), text: hex(toGray(value)), mask: all, result: toGray(value) },
+      { id: 'fromGray', label: t('bits.fromGray'), text: hex(fromGray(value)), mask: all, result: fromGray(value) },
+      {
+        id: 'signExtend',
+        label: t('bits.signExtend', { bit: displayBit(fromBit) }),
+        text: `${hex(extended)} (${BigInt.asIntN(width, extended)})`,
+        // The sign bit and everything it overwrites
+        mask: all ^ maskOf(fromBit),
+        result: extended,
+      },
+    ];
+  }, [value, width, byteWidth, fromBit, numbering, language]);
+
+  const highlight = facts.find(f => f.id === hovered)?.mask ?? 0n;
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Microscope size={18} /> {t('bits.title')}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-1.5 bg-gray-950 p-1.5 rounded-lg border border-gray-800 text-xs text-gray-400">
+            {t('bits.signBit')}
+            <input
+              type="number"
+              min={0}
+              max={width - 1}
+              value={displayBit(fromBit)}
+              onChange={(e) => setSignBit(displayBit(Math.max(0, Math.min(width - 1, Number(e.target.value) || 0))))}
+              className="w-14 bg-gray-900 border border-gray-700 text-white font-mono rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-cyan-500"
+            />
+          </label>
+          <Tooltip text={t('bits.help')}>
+            <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+          </Tooltip>
+        </div>
+      </div>
+
+      <WordCard
+        bytes={bigIntToBytes(value, byteWidth, isLittleEndian)}
+        addressOffset={wordAddress}
+        isLittleEndian={isLittleEndian}
+        wordWidth={byteWidth}
+        wordBits={wordBits}
+        isSigned={isSigned}
+        highlightBits={highlight}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2 mt-4">
+        {facts.map(fact => (
+          <div
+            key={fact.id}
+            tabIndex={0}
+            onMouseEnter={() => setHovered(fact.id)}
+            onMouseLeave={() => setHovered(null)}
+            onFocus={() => setHovered(fact.id)}
+            onBlur={() => setHovered(null)}
+            className="flex items-center gap-2 px-3 py-2 bg-gray-950 rounded-lg border border-gray-800 hover:border-yellow-300/60 focus:border-yellow-300/60 outline-none transition-colors"
+          >
+            <span className="text-xs text-gray-400">{fact.label}</span>
+            <span className="ml-auto font-mono text-sm text-white break-all text-right">{fact.text}</span>
+            {fact.result !== undefined && (
+              <button
+                onClick={() => onApply(fact.result!)}
+                title={t('bits.applyHelp')}
+                className="shrink-0 px-2 py-0.5 rounded bg-gray-800 hover:bg-gray-700 text-cyan-400 text-xs font-bold transition-colors"
+              >
+                {t('bits.apply')}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
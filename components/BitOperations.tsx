@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Wrench, Info } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Tooltip } from './Tooltip';
+import { useBitNumbering } from './WordCard';
+import { applyRangeOp, applyShift, bitLabel, RangeOp, ShiftOp, ShiftResult } from '../bitOps';
+import { t } from '../i18n';
+
+const RANGE_OPS: { op: RangeOp; label: string; help: string }[] = [
+  { op: 'set', get label() { return t('bitops.set.label'); }, get help() { return t('bitops.set.help'); } },
+  { op: 'clear', get label() { return t('bitops.clear.label'); }, get help() { return t('bitops.clear.help'); } },
+  { op: 'invert', get label() { return t('bitops.invert.label'); }, get help() { return t('bitops.invert.help'); } },
+];
+
+const SHIFT_OPS: { op: ShiftOp; label: string; help: string }[] = [
+  { op: 'shl', label: '≪ SHL', get help() { return t('bitops.shl.help'); } },
+  { op: 'shr', label: '≫ SHR', get help() { return t('bitops.shr.help'); } },
+  { op: 'sar', label: '≫ SAR', get help() { return t('bitops.sar.help'); } },
+  { op: 'rol', label: '⟲ ROL', get help() { return t('bitops.rol.help'); } },
+  { op: 'ror', label: '⟳ ROR', get help() { return t('bitops.ror.help'); } },
+];
+
+const numberInputClass = "w-14 bg-gray-900 border border-gray-700 text-white rounded px-1 py-0.5 font-mono outline-none focus:ring-1 focus:ring-cyan-500";
+const opButtonClass = "px-2.5 py-1 rounded text-xs font-bold bg-gray-800 hover:bg-gray-700 text-gray-200 transition-colors";
+
+// Range and shift/rotate edits over the whole value. Single bits are toggled directly in the grid.
+export const BitOperations = ({
+  value,
+  width,
+  onChange,
+}: {
+  value: bigint;
+  width: number;
+  onChange: (value: bigint) => void;
+}) => {
+  const [lo, setLo] = useState(0);
+  const [hi, setHi] = useState(7);
+  const [amount, setAmount] = useState(1);
+  const [lastShift, setLastShift] = useState<(ShiftResult & { op: ShiftOp; n: number }) | null>(null);
+
+  const numbering = useBitNumbering();
+
+  // The range is kept in LSB0 and shown in the selected numbering, so the toggle keeps the same bits selected
+  const clampBit = (raw: string) => bitLabel(Math.min(width - 1, Math.max(0, parseInt(raw, 10) || 0)), width, numbering);
+  const shownBit = (bit: number) => bitLabel(Math.min(width - 1, bit), width, numbering);
+
+  const runShift = (op: ShiftOp) => {
+    const result = applyShift(value, width, amount, op);
+    setLastShift({ ...result, op, n: amount });
+    onChange(result.value);
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row lg:items-center gap-3 mb-2 p-3 bg-gray-950/50 rounded-lg border border-gray-800 text-xs text-gray-400">
+      <div className="flex items-center gap-2 text-gray-300 font-bold shrink-0">
+        <Wrench size={14} /> {t('bitops.title')}
+        <Tooltip text={t('bitops.help', { width })}>
+          <Info size={12} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+        </Tooltip>
+      </div>
+
+      {/* Range edits */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span>{t('bitops.bits')}</span>
+        <input type="number" min={0} max={width - 1} value={shownBit(lo)} onChange={(e) => setLo(clampBit(e.target.value))} className={numberInputClass} />
+        <span>{t('bitops.rangeTo')}</span>
+        <input type="number" min={0} max={width - 1} value={shownBit(hi)} onChange={(e) => setHi(clampBit(e.target.value))} className={numberInputClass} />
+        {RANGE_OPS.map(({ op, label, help }) => (
+          <button key={op} title={help} onClick={() => onChange(applyRangeOp(value, width, lo, hi, op))} className={opButtonClass}>
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="hidden lg:block w-px h-6 bg-gray-800" />
+
+      {/* Shifts and rotates */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        <input type="number" min={1} max={width} value={amount} onChange={(e) => setAmount(Math.min(width, Math.max(1, parseInt(e.target.value, 10) || 1)))} className={numberInputClass} />
+        <span>{t('bitops.bits')}</span>
+        {SHIFT_OPS.map(({ op, label, help }) => (
+          <button key={op} title={help} onClick={() => runShift(op)} className={opButtonClass}>
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Carry indicator for the last shift */}
+      {lastShift && (
+        <Tooltip text={t('bitops.carryHelp')}>
+          <div className="flex items-center gap-2 font-mono">
+            <span className={clsx(
+              "px-2 py-0.5 rounded border font-bold",
+              lastShift.carry === 1 ? "bg-amber-600 border-amber-500 text-white" : "bg-gray-900 border-gray-700 text-gray-400"
+            )}>
+              CF={lastShift.carry ?? '-'}
+            </span>
+            {lastShift.shiftedOut && (
+              <span className="text-gray-500">{t('bitops.shiftedOut')} <span className="text-amber-400">{lastShift.shiftedOut}</span></span>
+            )}
+          </div>
+        </Tooltip>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark as BookmarkIcon, X, Plus, Trash2, Download, Upload } from 'lucide-react';
+import { ViewState } from '../permalink';
+import {
+  Bookmark, MAX_BOOKMARK_BUFFER, createBookmark, loadBookmarks, saveBookmarks, serializeBookmarks, parseBookmarksJson,
+} from '../bookmarks';
+import { t } from '../i18n';
+
+const inputClass = "bg-gray-950 border border-gray-700 text-white rounded px-2 py-1.5 text-sm outline-none focus:ring-1 focus:ring-cyan-500";
+
+const describe = (b: Bookmark) => {
+  const value = b.buffer ? t('common.bytes', { count: b.buffer.hex.length / 2 }) : b.inputStr;
+  const order = t(b.isLittleEndian ? 'endian.le' : 'endian.be');
+  const view = t(b.viewUnit === 'byte' ? 'memory.byteView' : 'memory.wordView');
+  return `${value} · ${b.wordBits}-bit · ${order} · ${view}`;
+};
+
+// Sidebar of named values, kept in localStorage
+export const BookmarkPanel = ({
+  isOpen,
+  onClose,
+  viewState,
+  onRestore,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  viewState: ViewState;
+  onRestore: (bookmark: Bookmark) => void;
+}) => {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>(loadBookmarks);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', closeOnEscape);
+    return () => document.removeEventListener('keydown', closeOnEscape);
+  }, [isOpen, onClose]);
+
+  const update = (next: Bookmark[]) => {
+    setBookmarks(next);
+    setError(saveBookmarks(next) ? null : t('bookmark.error.storage'));
+  };
+
+  const tooLarge = viewState.inputMode === 'buffer' && viewState.buffer.bytes.length > MAX_BOOKMARK_BUFFER;
+
+  const add = () => {
+    const label = name.trim() || (viewState.inputMode === 'buffer' ? viewState.buffer.fileName : null) || viewState.inputStr;
+    update([...bookmarks, createBookmark(label, viewState)]);
+    setName('');
+  };
+
+  const exportJson = () => {
+    const blob = new Blob([serializeBookmarks(bookmarks)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'bookmarks.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Imported bookmarks are added after the existing ones
+  const importJson = async (file: File) => {
+    const { bookmarks: imported, error } = parseBookmarksJson(await file.text());
+    if (imported) update([...bookmarks, ...imported]);
+    else setError(error);
+  };
+
+  if (!isOpen) return null;
+  return (
+    <aside
+      aria-labelledby="bookmark-title"
+      className="fixed inset-y-0 right-0 z-[150] w-full max-w-sm flex flex-col bg-gray-900 border-l border-gray-800 shadow-2xl"
+    >
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <h2 id="bookmark-title" className="text-lg font-semibold text-white flex items-center gap-2">
+          <BookmarkIcon size={18} /> {t('bookmark.title')}
+        </h2>
+        <button onClick={onClose} aria-label={t('help.close')} className="text-gray-400 hover:text-white transition-colors">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-gray-800">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !tooLarge && add()}
+            placeholder={t('bookmark.namePlaceholder')}
+            aria-label={t('bookmark.name')}
+            className={`${inputClass} flex-1 min-w-0`}
+          />
+          <button
+            onClick={add}
+            disabled={tooLarge}
+            className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-bold bg-cyan-600 hover:bg-cyan-500 text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Plus size={12} /> {t('bookmark.add')}
+          </button>
+        </div>
+        {tooLarge && (
+          <div className="text-xs text-amber-400">{t('bookmark.tooLarge', { limit: MAX_BOOKMARK_BUFFER })}</div>
+        )}
+        {error && <div className="text-xs text-amber-400">{error}</div>}
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {bookmarks.length === 0 && (
+          <li className="p-3 text-sm text-gray-500">{t('bookmark.empty')}</li>
+        )}
+        {bookmarks.map((b, i) => (
+          <li key={i} className="group flex items-start gap-1 rounded-lg hover:bg-gray-800/60 transition-colors">
+            <button onClick={() => onRestore(b)} className="flex-1 min-w-0 text-left px-3 py-2">
+              <div className="text-sm font-bold text-white truncate">{b.name}</div>
+              <div className="text-xs font-mono text-gray-500 truncate">{describe(b)}</div>
+            </button>
+            <button
+              onClick={() => update(bookmarks.filter((_, j) => j !== i))}
+              aria-label={t('bookmark.remove', { name: b.name })}
+              title={t('bookmark.remove', { name: b.name })}
+              className="m-2 p-1 rounded text-gray-500 hover:text-red-400 hover:bg-gray-800 transition-colors"
+            >
+              <Trash2 size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="p-4 border-t border-gray-800 flex justify-end">
+        <div className="flex bg-gray-950 p-1 rounded-lg border border-gray-800">
+          <button onClick={exportJson} className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-bold text-gray-400 hover:bg-gray-800 transition-colors">
+            <Download size={12} /> {t('register.export')}
+          </button>
+          <button onClick={() => fileRef.current?.click()} className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-bold text-gray-400 hover:bg-gray-800 transition-colors">
+            <Upload size={12} /> {t('register.import')}
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importJson(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+    </aside>
+  );
+};
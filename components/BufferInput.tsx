@@ -0,0 +1,96 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileUp } from 'lucide-react';
+import { clsx } from 'clsx';
+import { ParseError } from './ParseError';
+import { ByteBuffer, DUMP_FORMAT_LABELS, parseHexDump } from '../hexDump';
+import { t, useLanguage } from '../i18n';
+
+// Paste area and file drop target for the raw byte buffer mode
+export const BufferInput = ({
+  text,
+  onTextChange,
+  buffer,
+  onLoad,
+}: {
+  text: string;
+  onTextChange: (text: string) => void;
+  buffer: ByteBuffer;
+  onLoad: (buffer: ByteBuffer) => void;
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const language = useLanguage();
+  const result = useMemo(() => parseHexDump(text), [text, language]);
+
+  const handleText = (next: string) => {
+    onTextChange(next);
+    const parsed = parseHexDump(next);
+    if (!parsed.error) onLoad({ bytes: parsed.bytes, format: parsed.format, baseAddress: parsed.baseAddress, fileName: null });
+  };
+
+  const loadFile = async (file: File) => {
+    const bytes = Array.from(new Uint8Array(await file.arrayBuffer()));
+    onTextChange('');
+    onLoad({ bytes, format: 'file', baseAddress: 0, fileName: file.name });
+  };
+
+  return (
+    <div>
+      <textarea
+        value={text}
+        onChange={(e) => handleText(e.target.value)}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          const file = e.dataTransfer.files[0];
+          if (file) loadFile(file);
+        }}
+        spellCheck={false}
+        rows={6}
+        className={clsx(
+          "w-full bg-gray-950 border text-white px-4 py-3 rounded-lg font-mono text-sm focus:ring-2 focus:border-transparent outline-none resize-y",
+          isDragging ? "border-cyan-400 ring-2 ring-cyan-500" : result.error ? "border-red-500/70 focus:ring-red-500" : "border-gray-700 focus:ring-cyan-500"
+        )}
+        placeholder={t('buffer.placeholder') + "\n00000000: 4865 6c6c 6f0a                           Hello."}
+      />
+      {result.error && result.errorPos !== null && (
+        <ParseError source={text} error={result.error} errorPos={result.errorPos} />
+      )}
+
+      <div className="mt-2 flex items-center justify-between gap-2 text-xs text-gray-400">
+        <span className="font-mono">
+          {buffer.format ? (
+            <>
+              <span className="text-cyan-400">{buffer.fileName ?? DUMP_FORMAT_LABELS[buffer.format]}</span>
+              {' '}{t('common.bytes', { count: buffer.bytes.length })}
+              {buffer.baseAddress > 0 && <> / {t('buffer.baseAddress', { address: buffer.baseAddress.toString(16).toUpperCase() })}</>}
+            </>
+          ) : (
+            t('buffer.empty')
+          )}
+        </span>
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="flex items-center gap-1 px-2.5 py-1 rounded text-xs font-bold bg-gray-800 hover:bg-gray-700 text-gray-200 transition-colors"
+        >
+          <FileUp size={12} /> {t('buffer.openFile')}
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
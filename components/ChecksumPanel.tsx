@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { ShieldCheck, Info, Plus } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Tooltip } from './Tooltip';
+import { WordCard } from './WordCard';
+import { bigIntToBytes } from '../utils';
+import { CrcParams, CRC_PRESETS, CRC_MAX_WIDTH, CHECKSUMS, crc } from '../checksum';
+import { t } from '../i18n';
+
+const inputClass = "bg-gray-900 border border-gray-700 text-white rounded px-1.5 py-0.5 font-mono outline-none focus:ring-1 focus:ring-cyan-500";
+
+const hexOf = (value: bigint, width: number) => `0x${value.toString(16).toUpperCase().padStart(Math.ceil(width / 4), '0')}`;
+
+const parseHexParam = (text: string) => {
+  const digits = text.trim().replace(/^0x/i, '');
+  return /^[0-9a-f]+$/i.test(digits) ? BigInt(`0x${digits}`) : null;
+};
+
+// CRC, Adler, Fletcher, Internet checksum and XOR/sum over a byte range, each appendable to the buffer
+export const ChecksumPanel = ({
+  bytes,
+  revision,
+  dataLength,
+  isLittleEndian,
+  onAppend,
+}: {
+  bytes: number[];
+  // Changes when `bytes` is edited in place, which keeps the array
+  revision: number;
+  // The input's own bytes; the default range stops here, before any zero padding
+  dataLength: number;
+  isLittleEndian: boolean;
+  onAppend: (bytes: number[]) => void;
+}) => {
+  const [presetId, setPresetId] = useState('crc32');
+  const [width, setWidth] = useState(32);
+  const [polyText, setPolyText] = useState('0x04C11DB7');
+  const [initText, setInitText] = useState('0xFFFFFFFF');
+  const [xorOutText, setXorOutText] = useState('0xFFFFFFFF');
+  const [refIn, setRefIn] = useState(true);
+  const [refOut, setRefOut] = useState(true);
+  const [rangeStart, setRangeStart] = useState(0);
+  // null follows the end of the data as it grows or shrinks
+  const [rangeEnd, setRangeEnd] = useState<number | null>(null);
+  const [appendLittleEndian, setAppendLittleEndian] = useState(isLittleEndian);
+
+  const lastIndex = Math.max(0, bytes.length - 1);
+  const start = Math.min(rangeStart, lastIndex);
+  const end = Math.max(start, Math.min(rangeEnd ?? dataLength - 1, lastIndex));
+  const range = useMemo(() => bytes.slice(start, end + 1), [bytes, revision, start, end]);
+
+  const preset = CRC_PRESETS.find(p => p.id === presetId);
+
+  const applyPreset = (id: string) => {
+    setPresetId(id);
+    const next = CRC_PRESETS.find(p => p.id === id);
+    if (!next) return;
+    const { params } = next;
+    setWidth(params.width);
+    setPolyText(hexOf(params.poly, params.width));
+    setInitText(hexOf(params.init, params.width));
+    setXorOutText(hexOf(params.xorOut, params.width));
+    setRefIn(params.refIn);
+    setRefOut(params.refOut);
+  };
+
+  // Any edit turns the preset into a custom CRC
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPresetId('custom');
+  };
+
+  const crcParams = useMemo((): { params: CrcParams | null; error: string | null } => {
+    const limit = 1n << BigInt(width);
+    const values = { poly: parseHexParam(polyText), init: parseHexParam(initText), xorOut: parseHexParam(xorOutText) };
+    for (const [name, value] of Object.entries(values)) {
+      if (value === null) return { params: null, error: t('checksum.error.hex', { name }) };
+      if (value >= limit) return { params: null, error: t('checksum.error.tooWide', { name, width }) };
+    }
+    return { params: { width, refIn, refOut, poly: values.poly!, init: values.init!, xorOut: values.xorOut! }, error: null };
+  }, [width, polyText, initText, xorOutText, refIn, refOut]);
+
+  const results = useMemo(() => {
+    const list: { id: string; label: string; width: number; value: bigint }[] = [];
+    if (crcParams.params) {
+      list.push({ id: 'crc', label: preset?.label ?? t('checksum.customCrc', { width }), width, value: crc(range, crcParams.params) });
+    }
+    for (const algorithm of CHECKSUMS) {
+      list.push({ id: algorithm.id, label: algorithm.label, width: algorithm.width, value: algorithm.compute(range, appendLittleEndian) });
+    }
+    return list;
+  }, [range, crcParams, preset, width, appendLittleEndian]);
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <ShieldCheck size={18} /> {t('checksum.title')}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3">
+          {/* Byte Range */}
+          <div className="flex items-center gap-1.5 bg-gray-950 p-1.5 rounded-lg border border-gray-800 text-xs font-mono text-gray-400">
+            <span className="px-1 font-sans">{t('checksum.range')}</span>
+            +
+            <input
+              type="number"
+              min={0}
+              max={lastIndex}
+              value={start}
+              onChange={(e) => setRangeStart(Math.max(0, Number(e.target.value) || 0))}
+              className={`${inputClass} w-16`}
+            />
+            〜 +
+            <input
+              type="number"
+              min={start}
+              max={lastIndex}
+              value={end}
+              onChange={(e) => setRangeEnd(Math.max(0, Number(e.target.value) || 0))}
+              className={`${inputClass} w-16`}
+            />
+            <button
+              onClick={() => {
+                setRangeStart(0);
+                setRangeEnd(null);
+              }}
+              className="ml-1 px-2 py-0.5 rounded bg-gray-800 hover:bg-gray-700 text-cyan-400 font-sans font-bold transition-colors"
+            >
+              {t('checksum.wholeData')}
+            </button>
+          </div>
+          {/* Byte order of appended values (and of Fletcher-32's words) */}
+          <div className="flex bg-gray-950 p-1 rounded-lg border border-gray-800">
+            {([true, false] as const).map(le => (
+              <button
+                key={String(le)}
+                onClick={() => setAppendLittleEndian(le)}
+                className={clsx(
+                  "px-3 py-1.5 rounded text-xs font-bold transition-all",
+                  appendLittleEndian === le ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300"
+                )}
+              >
+                {le ? 'LE' : 'BE'}
+              </button>
+            ))}
+          </div>
+          <Tooltip text={t('checksum.help')}>
+            <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+          </Tooltip>
+        </div>
+      </div>
+
+      {/* CRC Parameters */}
+      <div className="flex flex-wrap items-center gap-3 mb-2 p-3 bg-gray-950 rounded-lg border border-gray-800 text-xs text-gray-400">
+        <select
+          value={presetId}
+          onChange={(e) => applyPreset(e.target.value)}
+          aria-label={t('checksum.preset')}
+          className="bg-gray-900 border border-gray-700 text-white rounded px-2 py-1 outline-none focus:ring-1 focus:ring-cyan-500"
+        >
+          {CRC_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          <option value="custom">{t('checksum.custom')}</option>
+        </select>
+        <label className="flex items-center gap-1">
+          width
+          <input
+            type="number"
+            min={1}
+            max={CRC_MAX_WIDTH}
+            value={width}
+            onChange={(e) => edit(setWidth)(Math.min(CRC_MAX_WIDTH, Math.max(1, Number(e.target.value) || 1)))}
+            className={`${inputClass} w-14`}
+          />
+        </label>
+        {([['poly', polyText, setPolyText], ['init', initText, setInitText], ['xorout', xorOutText, setXorOutText]] as const).map(([name, value, setter]) => (
+          <label key={name} className="flex items-center gap-1">
+            {name}
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => edit(setter)(e.target.value)}
+              spellCheck={false}
+              className={`${inputClass} w-40`}
+            />
+          </label>
+        ))}
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={refIn} onChange={(e) => edit(setRefIn)(e.target.checked)} className="accent-cyan-500" />
+          refin
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={refOut} onChange={(e) => edit(setRefOut)(e.target.checked)} className="accent-cyan-500" />
+          refout
+        </label>
+        {preset && (
+          <span className="font-mono text-gray-600">check("123456789") = {hexOf(preset.check, preset.params.width)}</span>
+        )}
+      </div>
+      {crcParams.error && <div className="mb-2 text-xs text-red-400">{crcParams.error}</div>}
+      <div className="mb-6 text-xs text-gray-500">{t('checksum.summary', { count: range.length, start, end })}</div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-x-4 gap-y-8">
+        {results.map(result => {
+          const resultBytes = bigIntToBytes(result.value, Math.ceil(result.width / 8), appendLittleEndian);
+          return (
+            <div key={result.id} className="flex flex-col gap-2">
+              <WordCard
+                bytes={resultBytes}
+                addressOffset={0}
+                isLittleEndian={appendLittleEndian}
+                wordWidth={resultBytes.length}
+                isSigned={false}
+                label={result.label}
+              />
+              <button
+                onClick={() => onAppend(resultBytes)}
+                className="self-end flex items-center gap-1 px-3 py-1.5 rounded text-xs font-bold bg-gray-800 hover:bg-gray-700 text-cyan-400 transition-colors"
+              >
+                <Plus size={12} /> {t('checksum.append', { order: appendLittleEndian ? 'LE' : 'BE' })}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
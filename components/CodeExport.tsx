@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Code, Copy, Check, Info } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Tooltip } from './Tooltip';
+import { SnippetLanguage, SNIPPET_LANGUAGES, SNIPPET_BYTE_LIMIT, generateSnippets } from '../codeSnippets';
+import { t, useLanguage } from '../i18n';
+
+const CopyButton = ({ text }: { text: string }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  return (
+    <button
+      onClick={() => navigator.clipboard.writeText(text).then(() => setCopied(true))}
+      className="flex items-center gap-1 px-2.5 py-1 rounded text-xs font-bold bg-gray-800 hover:bg-gray-700 text-gray-200 transition-colors"
+    >
+      {copied ? <Check size={12} className="text-green-400" /> : <Copy size={12} />}
+      {copied ? t('common.copied') : t('common.copy')}
+    </button>
+  );
+};
+
+// The current memory as source code in a few languages, ready to paste into a test or a fixture
+export const CodeExport = ({
+  bytes,
+  revision,
+  byteWidth,
+  isLittleEndian,
+}: {
+  bytes: number[];
+  revision: number;
+  byteWidth: number;
+  isLittleEndian: boolean;
+}) => {
+  const [snippetLanguage, setSnippetLanguage] = useState<SnippetLanguage>('c');
+  const language = useLanguage();
+  const truncated = bytes.length > SNIPPET_BYTE_LIMIT;
+
+  const snippets = useMemo(() => {
+    return generateSnippets(snippetLanguage, bytes.slice(0, SNIPPET_BYTE_LIMIT), byteWidth, isLittleEndian);
+  }, [snippetLanguage, bytes, revision, byteWidth, isLittleEndian, language]);
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Code size={18} /> {t('code.title')}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex bg-gray-950 p-1 rounded-lg border border-gray-800">
+            {SNIPPET_LANGUAGES.map(l => (
+              <button
+                key={l.id}
+                onClick={() => setSnippetLanguage(l.id)}
+                className={clsx(
+                  "px-3 py-1.5 rounded text-xs font-bold transition-all",
+                  snippetLanguage === l.id ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300"
+                )}
+              >
+                {l.label}
+              </button>
+            ))}
+          </div>
+          <Tooltip text={t('code.help')}>
+            <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+          </Tooltip>
+        </div>
+      </div>
+
+      {bytes.length === 0 ? (
+        <div className="text-sm text-gray-500 bg-gray-950/50 p-3 rounded border border-gray-800/50">
+          {t('code.empty')}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {snippets.map(snippet => (
+            <div key={snippet.label} className="min-w-0">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-mono text-cyan-400">{snippet.label}</span>
+                <CopyButton text={snippet.code} />
+              </div>
+              <pre className="bg-gray-950 border border-gray-800 rounded-lg p-3 text-xs font-mono text-gray-200 overflow-auto max-h-64">
+                {snippet.code}
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+      {truncated && (
+        <div className="mt-3 text-xs text-amber-400">
+          {t('code.truncated', { total: bytes.length, limit: SNIPPET_BYTE_LIMIT })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { Link, Check } from 'lucide-react';
+import { Permalink } from '../permalink';
+import { t } from '../i18n';
+
+// Copies a link that reopens the current view; says so when parts did not fit
+export const CopyLinkButton = ({ getLink, restoreError }: {
+  getLink: () => Promise<Permalink>;
+  // Set when the link this page was opened from could not be fully read
+  restoreError: string | null;
+}) => {
+  const [status, setStatus] = useState<{ copied: boolean; message: string | null } | null>(null);
+
+  useEffect(() => {
+    if (!status?.copied) return;
+    const timer = setTimeout(() => setStatus(null), 4000);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const copy = async () => {
+    try {
+      // Building the link can fail too, e.g. where CompressionStream is missing
+      const link = await getLink();
+      await navigator.clipboard.writeText(link.url);
+      setStatus({
+        copied: true,
+        message: link.omitted.length ? t('link.omitted', { parts: link.omitted.join(t('link.separator')) }) : null,
+      });
+    } catch {
+      setStatus({ copied: false, message: t('link.copyFailed') });
+    }
+  };
+
+  const message = status?.message ?? restoreError;
+
+  return (
+    <div className="flex flex-col items-start sm:items-end gap-1">
+      <button
+        onClick={copy}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-cyan-400 transition-colors text-sm font-bold border border-gray-700"
+      >
+        {status?.copied ? <Check size={18} /> : <Link size={18} />}
+        {status?.copied ? t('common.copied') : t('link.copy')}
+      </button>
+      {message && <span className="text-xs text-amber-400 max-w-xs">{message}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { ListTree, Info, ChevronRight, ChevronDown, Crosshair } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Tooltip } from './Tooltip';
+import { DissectedField, DissectorId, DISSECTORS, dissect } from '../dissectors';
+import { t, useLanguage } from '../i18n';
+
+const isSameField = (a: DissectedField | null, b: DissectedField) =>
+  !!a && a.name === b.name && a.offset === b.offset && a.length === b.length && a.bits?.from === b.bits?.from;
+
+const FieldNode = ({
+  field,
+  depth,
+  selected,
+  onSelect,
+}: {
+  field: DissectedField;
+  depth: number;
+  selected: DissectedField | null;
+  onSelect: (field: DissectedField) => void;
+}) => {
+  // Layers start open, nested groups (flags, chunks) closed
+  const [isOpen, setIsOpen] = useState(depth === 0);
+  const hasChildren = !!field.children?.length;
+  const isSelected = isSameField(selected, field);
+
+  return (
+    <li role="treeitem" aria-expanded={hasChildren ? isOpen : undefined} aria-selected={isSelected}>
+      <div
+        className={clsx(
+          "flex items-start gap-1 rounded px-1 py-0.5 cursor-pointer transition-colors",
+          isSelected ? "bg-yellow-500/20 text-yellow-200" : "hover:bg-gray-800/60"
+        )}
+        style={{ paddingLeft: `${depth * 0.75 + 0.25}rem` }}
+        onClick={() => onSelect(field)}
+      >
+        {hasChildren ? (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsOpen(!isOpen);
+            }}
+            aria-label={field.name}
+            className="mt-0.5 text-gray-500 hover:text-white"
+          >
+            {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          </button>
+        ) : (
+          <span className="w-3 shrink-0" />
+        )}
+        <span className={clsx("shrink-0", depth === 0 ? "font-bold text-cyan-400" : "text-gray-300")}>{field.name}</span>
+        {field.value && <span className="text-gray-400 break-all">{field.value}</span>}
+        <span className="ml-auto pl-2 shrink-0 text-[10px] text-gray-600">
+          +{field.offset}{field.bits ? `.${field.bits.from}` : ''}
+        </span>
+      </div>
+      {hasChildren && isOpen && (
+        <ul role="group">
+          {field.children!.map((child, i) => (
+            <FieldNode key={i} field={child} depth={depth + 1} selected={selected} onSelect={onSelect} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+// Field tree beside the memory grid; the selected field is outlined in the grid by the parent
+export const DissectorPanel = ({
+  bytes,
+  revision,
+  cursor,
+  selected,
+  onSelect,
+}: {
+  bytes: number[];
+  revision: number;
+  cursor: number;
+  selected: DissectedField | null;
+  onSelect: (field: DissectedField | null) => void;
+}) => {
+  const [format, setFormat] = useState<DissectorId | 'auto'>('auto');
+  const [offset, setOffset] = useState(0);
+  const language = useLanguage();
+  const start = Math.min(offset, Math.max(0, bytes.length - 1));
+  const result = useMemo(() => dissect(bytes, start, format), [bytes, revision, start, format, language]);
+
+  return (
+    <div className="w-full 2xl:w-[28rem] shrink-0 bg-gray-950 rounded-lg border border-gray-800 p-3">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <ListTree size={16} /> {t('dissect.title')}
+        </h3>
+        <Tooltip text={t('dissect.help')}>
+          <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+        </Tooltip>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+        <select
+          value={format}
+          onChange={(e) => {
+            setFormat(e.target.value as DissectorId | 'auto');
+            onSelect(null);
+          }}
+          aria-label={t('dissect.format')}
+          className="bg-gray-900 border border-gray-700 text-white rounded px-2 py-1 outline-none focus:ring-1 focus:ring-cyan-500"
+        >
+          <option value="auto">{t('dissect.auto')}</option>
+          {DISSECTORS.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+        </select>
+        <label className="flex items-center gap-1 font-mono text-gray-400">
+          <span className="font-sans">{t('dissect.offset')}</span> +
+          <input
+            type="number"
+            min={0}
+            max={Math.max(0, bytes.length - 1)}
+            value={start}
+            onChange={(e) => {
+              setOffset(Math.max(0, Number(e.target.value) || 0));
+              onSelect(null);
+            }}
+            className="w-16 bg-gray-900 border border-gray-700 text-white rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-cyan-500"
+          />
+        </label>
+        <button
+          onClick={() => {
+            setOffset(cursor);
+            onSelect(null);
+          }}
+          title={t('dissect.fromCursorHelp')}
+          className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-cyan-400 font-bold transition-colors"
+        >
+          <Crosshair size={12} /> {t('dissect.fromCursor')}
+        </button>
+      </div>
+
+      <ul role="tree" aria-label={t('dissect.title')} className="text-xs font-mono space-y-0.5 max-h-[32rem] overflow-y-auto">
+        {result.layers.map((layer, i) => (
+          <FieldNode key={`${format}-${start}-${i}`} field={layer} depth={0} selected={selected} onSelect={onSelect} />
+        ))}
+      </ul>
+      {result.error && <div className="mt-2 text-xs text-amber-400">{result.error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { ArrowLeftRight, Info } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Tooltip } from './Tooltip';
+import { formatHex, getByteBorderColor } from '../utils';
+import { ByteOrder, BYTE_ORDERS, SWAP_OPS, significanceOrder, applySwap } from '../byteOrder';
+import { t } from '../i18n';
+
+const BOX_WIDTH = 52;
+const BOX_HEIGHT = 40;
+const BOX_GAP = 10;
+// Vertical room for the connecting lines between the value row and each layout
+const LINK_HEIGHT = 48;
+const LABEL_WIDTH = 112;
+
+// Significance colours come from the byte border palette, as SVG strokes
+const strokeOf = (significance: number, size: number) => {
+  return getByteBorderColor(significance, size, true).replace('border-', 'stroke-');
+};
+
+const OrderPicker = ({ value, onChange }: { value: ByteOrder; onChange: (order: ByteOrder) => void }) => (
+  <div className="flex bg-gray-950 p-1 rounded-lg border border-gray-800">
+    {BYTE_ORDERS.map(o => (
+      <button
+        key={o.id}
+        onClick={() => onChange(o.id)}
+        className={clsx(
+          "px-3 py-1.5 rounded text-xs font-bold transition-all",
+          value === o.id ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300"
+        )}
+      >
+        {o.short}
+      </button>
+    ))}
+  </div>
+);
+
+// The same word laid out in two byte orders, above and below its logical value (MSB → LSB),
+// with a line from each byte of the value to where it lands in memory.
+export const EndianComparison = ({
+  value,
+  byteWidth,
+  wordAddress,
+  isLittleEndian,
+  onApply,
+}: {
+  value: bigint;
+  byteWidth: number;
+  wordAddress: number;
+  // The architecture's order, i.e. how the word is currently stored
+  isLittleEndian: boolean;
+  onApply: (value: bigint) => void;
+}) => {
+  const [topOrder, setTopOrder] = useState<ByteOrder>('le');
+  const [bottomOrder, setBottomOrder] = useState<ByteOrder>('be');
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const size = byteWidth;
+  const byteAt = (significance: number) => Number((value >> BigInt(significance * 8)) & 0xFFn);
+  const boxX = (i: number) => LABEL_WIDTH + i * (BOX_WIDTH + BOX_GAP);
+  const width = boxX(size);
+  const valueY = BOX_HEIGHT + LINK_HEIGHT;
+  const bottomY = valueY + BOX_HEIGHT + LINK_HEIGHT;
+  const height = bottomY + BOX_HEIGHT;
+  const hostOrder: ByteOrder = isLittleEndian ? 'le' : 'be';
+  // The value row reads MSB first, so significance s sits in column size - 1 - s
+  const valueColumn = (significance: number) => size - 1 - significance;
+
+  const renderBox = (x: number, y: number, significance: number, caption: string) => (
+    <g
+      key={`${x},${y}`}
+      onMouseEnter={() => setHovered(significance)}
+      onMouseLeave={() => setHovered(null)}
+      className={clsx("transition-opacity", hovered !== null && hovered !== significance && "opacity-30")}
+    >
+      <rect
+        x={x}
+        y={y}
+        width={BOX_WIDTH}
+        height={BOX_HEIGHT}
+        rx={6}
+        strokeWidth={2}
+        className={clsx("fill-gray-950", strokeOf(significance, size))}
+      />
+      <text x={x + BOX_WIDTH / 2} y={y + 19} textAnchor="middle" className="fill-white font-mono text-sm font-bold">
+        {formatHex(byteAt(significance))}
+      </text>
+      <text x={x + BOX_WIDTH / 2} y={y + 33} textAnchor="middle" className="fill-gray-500 font-mono text-[10px]">
+        {caption}
+      </text>
+    </g>
+  );
+
+  const renderLayout = (order: ByteOrder, y: number, toward: 'down' | 'up') => {
+    const info = BYTE_ORDERS.find(o => o.id === order)!;
+    const sig = significanceOrder(order, size);
+    return (
+      <g>
+        <text x={0} y={y + 17} className="fill-gray-300 text-xs font-bold">{info.short}</text>
+        {order === hostOrder && (
+          <text x={0} y={y + 32} className="fill-cyan-400 text-[10px]">{t('endianCompare.current')}</text>
+        )}
+        {sig.map((s, address) => {
+          const fromX = boxX(address) + BOX_WIDTH / 2;
+          const toX = boxX(valueColumn(s)) + BOX_WIDTH / 2;
+          const y1 = toward === 'down' ? y + BOX_HEIGHT : y;
+          const y2 = toward === 'down' ? valueY : valueY + BOX_HEIGHT;
+          const mid = (y1 + y2) / 2;
+          return (
+            <path
+              key={`link-${address}`}
+              d={`M ${fromX} ${y1} C ${fromX} ${mid}, ${toX} ${mid}, ${toX} ${y2}`}
+              fill="none"
+              strokeWidth={hovered === s ? 3 : 2}
+              className={clsx(strokeOf(s, size), "transition-opacity", hovered !== null && hovered !== s && "opacity-20")}
+            />
+          );
+        })}
+        {sig.map((s, address) => renderBox(boxX(address), y, s, `+${wordAddress + address}`))}
+      </g>
+    );
+  };
+
+  const wordBits = byteWidth * 8;
+  const hexDigits = byteWidth * 2;
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <ArrowLeftRight size={18} /> {t('endianCompare.title', { address: wordAddress })}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs text-gray-500">{t('endianCompare.top')}</span>
+          <OrderPicker value={topOrder} onChange={setTopOrder} />
+          <span className="text-xs text-gray-500">{t('endianCompare.bottom')}</span>
+          <OrderPicker value={bottomOrder} onChange={setBottomOrder} />
+          <Tooltip text={t('endianCompare.help')}>
+            <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+          </Tooltip>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto pb-2">
+        <svg width={width} height={height} className="block">
+          {renderLayout(topOrder, 0, 'down')}
+          {renderLayout(bottomOrder, bottomY, 'up')}
+          <text x={0} y={valueY + 17} className="fill-gray-300 text-xs font-bold">{t('endianCompare.value')}</text>
+          <text x={0} y={valueY + 32} className="fill-gray-500 text-[10px]">MSB → LSB</text>
+          {Array.from({ length: size }, (_, s) => renderBox(
+            boxX(valueColumn(s)),
+            valueY,
+            s,
+            s === size - 1 && size > 1 ? 'MSB' : s === 0 ? 'LSB' : `b${s}`
+          ))}
+        </svg>
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-2 text-xs text-gray-400">
+        {BYTE_ORDERS.map(o => (
+          <div key={o.id} className="bg-gray-950/50 p-2 rounded border border-gray-800/50">
+            <span className="font-bold text-gray-300">{o.label}</span>: {o.description}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {SWAP_OPS.map(({ op, label, bits, help }) => {
+          const fits = bits <= wordBits;
+          const result = fits ? applySwap(value, op, isLittleEndian) : null;
+          return (
+            <Tooltip key={op} text={fits ? help : t('endianCompare.needsWidth', { bits })}>
+              <button
+                disabled={!fits}
+                onClick={() => result !== null && onApply(result)}
+                className="px-3 py-1.5 rounded border border-gray-700 bg-gray-800 text-xs font-mono text-gray-200 hover:bg-gray-700 hover:border-cyan-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {label}
+                {result !== null && (
+                  <span className="ml-2 text-cyan-400">
+                    → 0x{result.toString(16).toUpperCase().padStart(hexDigits, '0')}
+                  </span>
+                )}
+              </button>
+            </Tooltip>
+          );
+        })}
+      </div>
+      <div className="mt-2 text-xs text-gray-500">
+        {t('endianCompare.host', { host: t(isLittleEndian ? 'endianCompare.hostLe' : 'endianCompare.hostBe') })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { Calculator, Info, ArrowDown } from 'lucide-react';
+import { Tooltip } from './Tooltip';
+import { WordCard } from './WordCard';
+import { ParseError } from './ParseError';
+import { bigIntToBytes } from '../utils';
+import { evaluateExpression } from '../expression';
+import { MessageKey, t, useLanguage } from '../i18n';
+
+const OPERATOR_NAMES: Record<string, MessageKey> = {
+  '|': 'op.or', '^': 'op.xor', '&': 'op.and',
+  '<<': 'op.shl', '>>': 'op.shr', '>>>': 'op.lshr',
+  '+': 'op.add', '-': 'op.sub', '*': 'op.mul', '/': 'op.div', '%': 'op.mod',
+};
+
+const UNARY_NAMES: Record<string, MessageKey> = { '~': 'op.not', '-': 'op.neg' };
+
+export const ExpressionCalculator = ({
+  x,
+  byteWidth,
+  wordBits,
+  isSigned,
+  isLittleEndian,
+  onApply,
+}: {
+  // Current value of the first word, available as `x` in expressions
+  x: bigint;
+  byteWidth: number;
+  wordBits: number;
+  isSigned: boolean;
+  isLittleEndian: boolean;
+  onApply: (value: bigint) => void;
+}) => {
+  const [expr, setExpr] = useState<string>('(x >> 8) & 0xFF');
+
+  const language = useLanguage();
+  const result = useMemo(() => {
+    return evaluateExpression(expr, { width: wordBits, signed: isSigned, x });
+  }, [expr, wordBits, isSigned, x, language]);
+
+  const renderWord = (value: bigint, label: React.ReactNode) => (
+    <WordCard
+      bytes={bigIntToBytes(value, byteWidth, isLittleEndian)}
+      addressOffset={0}
+      isLittleEndian={isLittleEndian}
+      wordWidth={byteWidth}
+      wordBits={wordBits}
+      isSigned={isSigned}
+      label={label}
+    />
+  );
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Calculator size={18} /> {t('calc.title')}
+        </h2>
+        <Tooltip text={t('calc.help', { bits: wordBits, sign: t(isSigned ? 'sign.signed' : 'sign.unsigned') })}>
+          <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+        </Tooltip>
+      </div>
+
+      <div className="relative">
+        <input
+          type="text"
+          value={expr}
+          onChange={(e) => setExpr(e.target.value)}
+          spellCheck={false}
+          className="w-full bg-gray-950 border border-gray-700 text-white px-4 py-3 rounded-lg font-mono text-lg focus:ring-2 focus:ring-cyan-500 focus:border-transparent outline-none"
+          placeholder="(x >> 8) & 0xFF, ~0b1010 | 0x0F..."
+        />
+        <div className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500 font-mono">
+          {wordBits}-bit {isSigned ? 'signed' : 'unsigned'}
+        </div>
+      </div>
+      {result.error && result.errorPos !== null && (
+        <ParseError source={expr} error={result.error} errorPos={result.errorPos} />
+      )}
+
+      {/* Step-by-step: operands above, result below, in evaluation order */}
+      {result.steps.length > 0 && (
+        <ol className="mt-6 space-y-6 overflow-x-auto">
+          {result.steps.map((step, i) => (
+            <li key={i} className="min-w-max space-y-4">
+              <div className="flex items-center gap-3 text-sm">
+                <span className="w-6 h-6 flex items-center justify-center rounded-full bg-cyan-900/60 text-cyan-300 text-xs font-bold">{i + 1}</span>
+                <code className="text-white">{step.text}</code>
+                <span className="text-gray-500 text-xs">
+                  {t(step.operands.length === 1 ? UNARY_NAMES[step.op] : OPERATOR_NAMES[step.op])}
+                </span>
+              </div>
+              <div className="pl-9 space-y-5">
+                {step.operands.map((operand, j) => (
+                  <React.Fragment key={j}>
+                    {j > 0 && <div className="text-center font-mono font-bold text-cyan-400">{step.op}</div>}
+                    {step.operands.length === 1 && <div className="text-center font-mono font-bold text-cyan-400">{step.op}</div>}
+                    {renderWord(operand.value, operand.text)}
+                  </React.Fragment>
+                ))}
+                <div className="flex justify-center text-gray-500"><ArrowDown size={16} /></div>
+                {renderWord(step.result, `= ${step.text}`)}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {result.value !== null && (
+        <div className="mt-6 pt-4 border-t border-gray-800 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="font-mono text-sm text-gray-400">
+            {t('calc.result')} <span className="text-white font-bold">0x{BigInt.asUintN(wordBits, result.value).toString(16).toUpperCase().padStart(Math.ceil(wordBits / 4), '0')}</span>
+            <span className="text-cyan-400"> ({result.value.toString()})</span>
+          </div>
+          <button
+            onClick={() => onApply(result.value!)}
+            className="px-4 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-bold transition-colors"
+          >
+            {t('calc.apply')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
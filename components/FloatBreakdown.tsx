@@ -0,0 +1,229 @@
+import React, { useMemo } from 'react';
+import { Sigma, Info } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Tooltip } from './Tooltip';
+import { bytesToBigInt } from '../utils';
+import {
+  FloatFormat, FloatField, FloatClass, FLOAT32, FLOAT64, FLOAT16, BFLOAT16, decomposeFloat, exactDecimal, floatToNumber,
+  formatFloat, nextFloatBits, getFloatField, getTotalBits, getUlpExponent,
+} from '../float';
+import { MessageKey, t } from '../i18n';
+
+export const FLOAT_FIELD_STYLES: Record<FloatField, { on: string; off: string; label: MessageKey; text: string }> = {
+  sign: { on: 'bg-rose-600 text-white font-bold', off: 'bg-rose-950 text-rose-400/70', label: 'float.sign', text: 'text-rose-400' },
+  exponent: { on: 'bg-amber-600 text-white font-bold', off: 'bg-amber-950 text-amber-400/70', label: 'float.exponent', text: 'text-amber-400' },
+  mantissa: { on: 'bg-sky-600 text-white font-bold', off: 'bg-sky-950 text-sky-400/70', label: 'float.mantissa', text: 'text-sky-400' },
+};
+
+const CLASS_LABELS: Record<FloatClass, MessageKey> = {
+  zero: 'float.class.zero',
+  subnormal: 'float.class.subnormal',
+  normal: 'float.class.normal',
+  infinity: 'float.class.infinity',
+  qnan: 'float.class.qnan',
+  snan: 'float.class.snan',
+};
+
+// Maps a memory bit to its IEEE 754 field colour, for a float stored at `offset`
+export const getFloatBitClassName = (fmt: FloatFormat, isLittleEndian: boolean, offset: number) => {
+  const size = getTotalBits(fmt) / 8;
+  return (address: number, bit: number, isSet: boolean): string | undefined => {
+    const byteIndex = address - offset;
+    if (byteIndex < 0 || byteIndex >= size) return undefined;
+    const significance = isLittleEndian ? byteIndex : size - 1 - byteIndex;
+    const style = FLOAT_FIELD_STYLES[getFloatField(significance * 8 + bit, fmt)];
+    return isSet ? style.on : style.off;
+  };
+};
+
+const bitsToHex = (bits: bigint, fmt: FloatFormat) => {
+  return '0x' + bits.toString(16).toUpperCase().padStart(getTotalBits(fmt) / 4, '0');
+};
+
+const Row = ({ label, help, children }: { label: string; help: string; children: React.ReactNode }) => (
+  <div className="grid grid-cols-[8rem_1fr] gap-3 py-2 border-b border-gray-800/50 text-sm">
+    <dt className="text-gray-400">
+      <Tooltip text={help}>{label}</Tooltip>
+    </dt>
+    <dd className="font-mono text-white break-all min-w-0">{children}</dd>
+  </div>
+);
+
+export const FloatBreakdown = ({
+  bytes,
+  revision,
+  offset,
+  isLittleEndian,
+  format,
+  onFormatChange,
+  highlightFields,
+  onHighlightFieldsChange,
+}: {
+  bytes: number[];
+  revision: number;
+  // Address the float is read from
+  offset: number;
+  isLittleEndian: boolean;
+  format: FloatFormat;
+  onFormatChange: (fmt: FloatFormat) => void;
+  highlightFields: boolean;
+  onHighlightFieldsChange: (on: boolean) => void;
+}) => {
+  const totalBits = getTotalBits(format);
+  const size = totalBits / 8;
+  const available = bytes.length >= offset + size;
+
+  const bits = useMemo(() => {
+    return available ? bytesToBigInt(bytes.slice(offset, offset + size), isLittleEndian) : 0n;
+  }, [bytes, revision, offset, size, available, isLittleEndian]);
+
+  const d = useMemo(() => decomposeFloat(bits, format), [bits, format]);
+  const isFinite = d.unbiasedExponent !== null;
+
+  const neighbours = useMemo(() => {
+    return ([-1, 1] as const).map(direction => {
+      const next = nextFloatBits(bits, format, direction);
+      if (next === null) return null;
+      return { bits: next, value: floatToNumber(decomposeFloat(next, format)) };
+    });
+  }, [bits, format]);
+
+  const ulpExponent = getUlpExponent(d);
+  const binary = bits.toString(2).padStart(totalBits, '0');
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Sigma size={18} /> {t('float.title', { start: offset, end: offset + size - 1 })}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={highlightFields}
+              onChange={(e) => onHighlightFieldsChange(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            {t('float.highlight')}
+          </label>
+          <div className="flex bg-gray-950 p-1 rounded-lg border border-gray-800">
+            {[FLOAT16, BFLOAT16, FLOAT32, FLOAT64].map(fmt => (
+              <button
+                key={fmt.id}
+                onClick={() => onFormatChange(fmt)}
+                className={clsx(
+                  "px-3 py-1.5 rounded text-xs font-bold transition-all",
+                  format.id === fmt.id ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300"
+                )}
+              >
+                {fmt.label}
+              </button>
+            ))}
+          </div>
+          <Tooltip text={t('float.help')}>
+            <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+          </Tooltip>
+        </div>
+      </div>
+
+      {!available ? (
+        <div className="text-sm text-gray-500 bg-gray-950/50 p-3 rounded border border-gray-800/50">
+          {t('float.unavailable', { format: format.label, offset, size })}
+        </div>
+      ) : (
+        <>
+          {/* Field-coloured bit string (MSB → LSB) */}
+          <div className="overflow-x-auto pb-2">
+            <div className="flex gap-1 min-w-max">
+              {(['sign', 'exponent', 'mantissa'] as FloatField[]).map(field => {
+                const width = field === 'sign' ? 1 : field === 'exponent' ? format.exponentBits : format.mantissaBits;
+                const start = field === 'sign' ? 0 : field === 'exponent' ? 1 : 1 + format.exponentBits;
+                const style = FLOAT_FIELD_STYLES[field];
+                return (
+                  <div key={field} className="flex flex-col items-center gap-1">
+                    <div className="flex gap-px p-1 bg-gray-950 rounded border border-gray-800">
+                      {binary.slice(start, start + width).split('').map((bit, i) => (
+                        <div
+                          key={i}
+                          className={clsx(
+                            "w-3 h-5 sm:w-3.5 sm:h-6 flex items-center justify-center text-[10px] sm:text-xs font-mono",
+                            bit === '1' ? style.on : style.off
+                          )}
+                        >
+                          {bit}
+                        </div>
+                      ))}
+                    </div>
+                    <div className={clsx("text-[10px] font-bold", style.text)}>{t(style.label)} ({width})</div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <dl className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-x-8">
+            <div>
+              <Row label={t('float.row.bits')} help={t('float.row.bits.help')}>
+                {bitsToHex(bits, format)}
+              </Row>
+              <Row label={t('float.row.class')} help={t('float.row.class.help')}>
+                {d.sign ? '-' : '+'}{t(CLASS_LABELS[d.classification])}
+                {d.payload !== null && (
+                  <span className="text-gray-400"> / payload: 0x{d.payload.toString(16).toUpperCase()}</span>
+                )}
+              </Row>
+              <Row label={t('float.row.sign')} help={t('float.row.sign.help')}>
+                <span className={FLOAT_FIELD_STYLES.sign.text}>{d.sign}</span> ({t(d.sign ? 'float.negative' : 'float.positive')})
+              </Row>
+              <Row label={t('float.row.exponent')} help={t('float.row.exponent.help')}>
+                <span className={FLOAT_FIELD_STYLES.exponent.text}>{d.biasedExponent}</span>
+                <span className="text-gray-400"> - {d.bias} = </span>
+                {d.unbiasedExponent === null ? (
+                  <span className="text-gray-400">{t('float.special')}</span>
+                ) : (
+                  <>
+                    2<sup>{d.unbiasedExponent}</sup>
+                    {d.classification !== 'normal' && <span className="text-gray-400"> (1 - {d.bias})</span>}
+                  </>
+                )}
+              </Row>
+              <Row label={t('float.row.mantissa')} help={t('float.row.mantissa.help')}>
+                <span className={FLOAT_FIELD_STYLES.mantissa.text}>0x{d.fraction.toString(16).toUpperCase()}</span>
+                {isFinite && (
+                  <span className="text-gray-400"> → {exactDecimal(d.significand, -format.mantissaBits)}</span>
+                )}
+              </Row>
+            </div>
+            <div>
+              <Row label={t('float.row.exact')} help={t('float.row.exact.help')}>
+                <div className="max-h-24 overflow-y-auto text-cyan-400">
+                  {isFinite ? exactDecimal(d.significand, d.scale, d.sign === 1) : formatFloat(floatToNumber(d), format)}
+                </div>
+              </Row>
+              <Row label="ULP" help={t('float.row.ulp.help')}>
+                {ulpExponent === null ? '-' : (
+                  <>2<sup>{ulpExponent}</sup> <span className="text-gray-400">≈ {(2 ** ulpExponent).toExponential(6)}</span></>
+                )}
+              </Row>
+              {neighbours.map((n, i) => (
+                <Row
+                  key={i}
+                  label={t(i === 0 ? 'float.row.prev' : 'float.row.next')}
+                  help={t(i === 0 ? 'float.row.prev.help' : 'float.row.next.help')}
+                >
+                  {n === null ? '-' : (
+                    <>
+                      {formatFloat(n.value, format)}
+                      <span className="text-gray-500"> ({bitsToHex(n.bits, format)})</span>
+                    </>
+                  )}
+                </Row>
+              ))}
+            </div>
+          </dl>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { twMerge } from 'tailwind-merge';
+import { formatHex, getByteBorderColor } from '../utils';
+import { t } from '../i18n';
+
+export const HEX_BYTES_PER_ROW = 16;
+const ROW_HEIGHT = 22;
+const VISIBLE_ROWS = 20;
+const OVERSCAN = 8;
+// Rows are absolutely positioned, so the horizontal extent has to be given explicitly
+const ROW_WIDTH = 720;
+// Browsers cap element heights (Firefox at ~17.9M px); beyond this the scrollbar is scaled
+const MAX_SCROLL_HEIGHT = 8_000_000;
+
+// Windowed hex view: only the rows in (or near) the viewport are rendered, so the cost is the
+// same for 1 KB and 10 MB. Colours follow each byte's significance within its word.
+// Most cells do not exist at any moment, so instead of a roving tabindex the view itself takes focus
+// and points at the cursor's cell with aria-activedescendant; the arrow keys move the cursor.
+export const HexView = ({
+  bytes,
+  baseAddress,
+  byteWidth,
+  isLittleEndian,
+  cursor,
+  onSelect,
+  formatAddress,
+  diff,
+  highlight,
+}: {
+  bytes: number[];
+  baseAddress: number;
+  byteWidth: number;
+  isLittleEndian: boolean;
+  cursor: number;
+  onSelect: (address: number) => void;
+  formatAddress: (address: number) => string;
+  // Compare mode: XOR against the second input, non-zero where the byte differs
+  diff?: number[];
+  // Addresses to outline, e.g. the bytes of the selected dissector field
+  highlight?: ReadonlyMap<number, number>;
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const rowCount = Math.ceil(bytes.length / HEX_BYTES_PER_ROW);
+  const viewportHeight = Math.min(rowCount, VISIBLE_ROWS) * ROW_HEIGHT;
+  const contentHeight = rowCount * ROW_HEIGHT;
+  const scrollHeight = Math.min(contentHeight, MAX_SCROLL_HEIGHT);
+  // Content pixels per scrollbar pixel; 1 unless the buffer is huge
+  const scale = scrollHeight > viewportHeight ? (contentHeight - viewportHeight) / (scrollHeight - viewportHeight) : 1;
+  const offset = scrollTop * scale;
+
+  const firstRow = Math.max(0, Math.floor(offset / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(rowCount, Math.ceil((offset + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  const focusedWord = cursor - (cursor % byteWidth);
+  const cellId = useId();
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const page = VISIBLE_ROWS * HEX_BYTES_PER_ROW;
+    const column = cursor % HEX_BYTES_PER_ROW;
+    let target: number;
+    switch (e.key) {
+      case 'ArrowLeft': target = cursor - 1; break;
+      case 'ArrowRight': target = cursor + 1; break;
+      case 'ArrowUp': target = cursor - HEX_BYTES_PER_ROW; break;
+      case 'ArrowDown': target = cursor + HEX_BYTES_PER_ROW; break;
+      case 'PageUp': target = cursor - page; break;
+      case 'PageDown': target = cursor + page; break;
+      case 'Home': target = e.ctrlKey ? 0 : cursor - column; break;
+      case 'End': target = e.ctrlKey ? bytes.length - 1 : cursor - column + HEX_BYTES_PER_ROW - 1; break;
+      default: return;
+    }
+    e.preventDefault();
+    onSelect(Math.max(0, Math.min(bytes.length - 1, target)));
+  };
+
+  // Bring the cursor into view when it is moved from outside (offset box, struct table ...)
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const top = Math.floor(cursor / HEX_BYTES_PER_ROW) * ROW_HEIGHT;
+    if (top < offset || top + ROW_HEIGHT > offset + viewportHeight) {
+      el.scrollTop = Math.max(0, top - viewportHeight / 2) / scale;
+    }
+    // Only cursor moves should scroll; scrolling by hand must not snap back
+  }, [cursor]);
+
+  const rows = [];
+  for (let row = firstRow; row < lastRow; row++) {
+    const start = row * HEX_BYTES_PER_ROW;
+    const rowBytes = bytes.slice(start, start + HEX_BYTES_PER_ROW);
+    rows.push(
+      <div
+        key={row}
+        role="row"
+        className="absolute left-0 flex items-center gap-3 px-2 font-mono text-xs"
+        style={{ top: scrollTop + row * ROW_HEIGHT - offset, height: ROW_HEIGHT }}
+      >
+        <span role="rowheader" className="w-24 shrink-0 text-right text-gray-500">{formatAddress(baseAddress + start)}</span>
+        <span className="flex">
+          {rowBytes.map((b, col) => {
+            const address = start + col;
+            const inFocusedWord = address >= focusedWord && address < focusedWord + byteWidth;
+            return (
+              <span
+                key={col}
+                id={address === cursor ? cellId : undefined}
+                role="gridcell"
+                aria-selected={address === cursor}
+                aria-label={`${formatAddress(baseAddress + address)} 0x${formatHex(b)}`}
+                onClick={() => onSelect(address)}
+                className={twMerge(
+                  "w-6 text-center border-b-2 cursor-pointer hover:bg-gray-700",
+                  getByteBorderColor(address % byteWidth, byteWidth, isLittleEndian),
+                  b === 0 ? "text-gray-600" : "text-gray-200",
+                  inFocusedWord && "bg-gray-800",
+                  diff?.[address] && "bg-red-900/60 text-red-300",
+                  highlight?.has(address) && "outline outline-1 outline-yellow-300",
+                  address === cursor && "bg-cyan-700 text-white font-bold",
+                  col % byteWidth === byteWidth - 1 && col !== HEX_BYTES_PER_ROW - 1 && "mr-2"
+                )}
+              >
+                {formatHex(b)}
+              </span>
+            );
+          })}
+        </span>
+        <span aria-hidden className="shrink-0 text-gray-400 whitespace-pre">
+          {rowBytes.map((b, col) => (
+            <span key={col} className={twMerge(start + col === cursor && "bg-cyan-700 text-white")}>
+              {b >= 0x20 && b < 0x7F ? String.fromCharCode(b) : '.'}
+            </span>
+          ))}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={scrollRef}
+      role="grid"
+      aria-label={t('a11y.hexView')}
+      aria-activedescendant={cellId}
+      tabIndex={0}
+      onKeyDown={onKeyDown}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="relative overflow-y-auto overflow-x-auto rounded-lg border border-gray-800 bg-gray-950 outline-none focus-visible:ring-2 focus-visible:ring-cyan-300"
+      style={{ height: viewportHeight + 2 }}
+    >
+      <div style={{ height: scrollHeight, minWidth: ROW_WIDTH }} className="relative">
+        {rows}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,8 @@
+import React from 'react';
+
+// Off-screen text that screen readers read out whenever it changes
+export const LiveRegion = ({ message }: { message: string }) => (
+  <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+    {message}
+  </div>
+);
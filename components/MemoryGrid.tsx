@@ -0,0 +1,92 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+
+// --- Keyboard navigation for the bit cells ---
+// The grid is a single tab stop (roving tabindex): Tab enters at the last focused bit, the arrows move
+// left/right across byte boundaries and up/down between words, Home/End jump within a row.
+
+interface GridCell {
+  row: number;
+  col: number;
+}
+
+interface MemoryGridContextType {
+  active: GridCell;
+  setActive: (cell: GridCell) => void;
+}
+
+const MemoryGridContext = createContext<MemoryGridContextType | null>(null);
+
+export const useMemoryGrid = () => useContext(MemoryGridContext);
+
+// Props for one bit cell; outside a MemoryGrid (e.g. the calculator result) the cell stays a plain element
+export const gridCellProps = (grid: MemoryGridContextType | null, row: number, col: number, readOnly: boolean) => {
+  if (!grid) return {};
+  return {
+    role: 'gridcell',
+    'aria-readonly': readOnly,
+    tabIndex: grid.active.row === row && grid.active.col === col ? 0 : -1,
+    'data-row': row,
+    'data-col': col,
+    onFocus: () => grid.setActive({ row, col }),
+  };
+};
+
+const cellSelector = (row: number, col?: number) => `[data-row="${row}"]` + (col === undefined ? '' : `[data-col="${col}"]`);
+
+export const MemoryGrid = ({
+  label,
+  className,
+  style,
+  children,
+}: {
+  label: string;
+  className?: string;
+  style?: React.CSSProperties;
+  children: React.ReactNode;
+}) => {
+  const [active, setActive] = useState<GridCell>({ row: 0, col: 0 });
+  const ref = useRef<HTMLDivElement>(null);
+
+  // When the buffer shrinks under the active cell, fall back to the first one so the grid stays reachable
+  useEffect(() => {
+    const grid = ref.current;
+    if (grid && !grid.querySelector(cellSelector(active.row, active.col)) && grid.querySelector(cellSelector(0, 0))) {
+      setActive({ row: 0, col: 0 });
+    }
+  });
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const grid = ref.current;
+    const cell = (e.target as HTMLElement).closest<HTMLElement>('[data-row]');
+    if (!grid || !cell) return;
+    const row = Number(cell.dataset.row);
+    const col = Number(cell.dataset.col);
+    const lastCol = (r: number) => grid.querySelectorAll(cellSelector(r)).length - 1;
+    const lastRow = () => Math.max(...Array.from(grid.querySelectorAll<HTMLElement>('[data-row]'), el => Number(el.dataset.row)));
+
+    let target: GridCell;
+    switch (e.key) {
+      case 'ArrowLeft': target = { row, col: col - 1 }; break;
+      case 'ArrowRight': target = { row, col: col + 1 }; break;
+      case 'ArrowUp': target = { row: row - 1, col }; break;
+      case 'ArrowDown': target = { row: row + 1, col }; break;
+      case 'Home': target = e.ctrlKey ? { row: 0, col: 0 } : { row, col: 0 }; break;
+      case 'End': {
+        const r = e.ctrlKey ? lastRow() : row;
+        target = { row: r, col: lastCol(r) };
+        break;
+      }
+      default: return;
+    }
+    e.preventDefault();
+    grid.querySelector<HTMLElement>(cellSelector(target.row, target.col))?.focus();
+  };
+
+  return (
+    <MemoryGridContext.Provider value={{ active, setActive }}>
+      <div ref={ref} role="grid" aria-label={label} className={className} style={style} onKeyDown={onKeyDown}>
+        {children}
+      </div>
+    </MemoryGridContext.Provider>
+  );
+};
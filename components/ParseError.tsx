@@ -0,0 +1,25 @@
+import React from 'react';
+import { t } from '../i18n';
+
+// Shows the source text with the character at `errorPos` highlighted, followed by the message.
+// Multi-line sources show only the offending line.
+export const ParseError = ({ source, error, errorPos }: { source: string; error: string; errorPos: number }) => {
+  const lineStart = source.lastIndexOf('\n', errorPos - 1) + 1;
+  const lineEnd = source.indexOf('\n', errorPos) < 0 ? source.length : source.indexOf('\n', errorPos);
+  const lineNumber = source.slice(0, lineStart).split('\n').length;
+  const isMultiline = source.includes('\n');
+  const column = errorPos - lineStart;
+
+  return (
+    <div className="mt-2 p-2 bg-red-950/40 border border-red-900/60 rounded text-xs">
+      <div className="font-mono text-gray-300 whitespace-pre overflow-x-auto">
+        {source.slice(lineStart, errorPos)}
+        <span className="bg-red-600 text-white rounded-sm">{errorPos < lineEnd ? source[errorPos] : ' '}</span>
+        {source.slice(errorPos + 1, lineEnd)}
+      </div>
+      <div className="mt-1 text-red-400">
+        {isMultiline ? t('parseError.lineColumn', { line: lineNumber, column: column + 1 }) : t('parseError.column', { column: errorPos + 1 })}: {error}
+      </div>
+    </div>
+  );
+};
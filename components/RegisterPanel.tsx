@@ -0,0 +1,338 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { SlidersHorizontal, Info, Plus, Trash2, Download, Upload, Lock } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Tooltip } from './Tooltip';
+import { BitAnnotation } from './WordCard';
+import { parseInput, wordByteCount, MAX_WORD_BITS } from '../utils';
+import { maskOf } from '../bitOps';
+import {
+  RegisterDefinition, RegisterField, FieldAccess, FIELD_ACCESS, FIELD_COLORS,
+  extractField, insertField, findFieldIndexAt, formatFieldRange, getFieldWidth, validateRegister,
+  formatEnums, parseEnums, serializeRegister, parseRegisterJson,
+} from '../register';
+import { t, useLanguage } from '../i18n';
+
+const ACCESS_STYLES: Record<FieldAccess, string> = {
+  RW: 'bg-gray-800 text-gray-300 border-gray-700',
+  RO: 'bg-gray-950 text-gray-500 border-gray-800',
+  W1C: 'bg-amber-950/40 text-amber-400 border-amber-800/60',
+};
+
+const inputClass = "bg-gray-900 border border-gray-700 text-white rounded px-1.5 py-0.5 font-mono text-xs outline-none focus:ring-1 focus:ring-cyan-500";
+
+// Underlines and labels for the WordCard that holds the register
+export const getRegisterAnnotation = (def: RegisterDefinition) => (wordBit: number): BitAnnotation | undefined => {
+  const index = findFieldIndexAt(def, wordBit);
+  if (index < 0) return undefined;
+  const field = def.fields[index];
+  const color = FIELD_COLORS[index % FIELD_COLORS.length];
+  return {
+    barClassName: color.bar,
+    label: wordBit === field.msb ? field.name : undefined,
+    labelSpan: getFieldWidth(field),
+    labelClassName: color.text,
+    title: `${field.name}${formatFieldRange(field)} ${field.access}`,
+  };
+};
+
+export const RegisterPanel = ({
+  definition,
+  onDefinitionChange,
+  word,
+  wordAddress,
+  wordBits,
+  showOverlay,
+  onShowOverlayChange,
+  onWrite,
+}: {
+  definition: RegisterDefinition;
+  onDefinitionChange: (def: RegisterDefinition) => void;
+  // The word the register is mapped onto (the one containing the cursor)
+  word: bigint;
+  wordAddress: number;
+  wordBits: number;
+  showOverlay: boolean;
+  onShowOverlayChange: (on: boolean) => void;
+  onWrite: (word: bigint) => void;
+}) => {
+  // Field values being typed, keyed by field index, until they parse
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const language = useLanguage();
+  const errors = useMemo(() => validateRegister(definition, wordBits), [definition, wordBits, language]);
+
+  const updateField = (index: number, patch: Partial<RegisterField>) => {
+    onDefinitionChange({
+      ...definition,
+      fields: definition.fields.map((f, i) => (i === index ? { ...f, ...patch } : f)),
+    });
+  };
+
+  const addField = () => {
+    // Start the new field just above the highest bit in use
+    const lsb = Math.min(definition.width - 1, Math.max(-1, ...definition.fields.map(f => f.msb)) + 1);
+    onDefinitionChange({
+      ...definition,
+      fields: [...definition.fields, { name: `FIELD${definition.fields.length}`, msb: lsb, lsb, access: 'RW' }],
+    });
+  };
+
+  const removeField = (index: number) => {
+    onDefinitionChange({ ...definition, fields: definition.fields.filter((_, i) => i !== index) });
+    setDrafts({});
+  };
+
+  const writeField = (field: RegisterField, value: bigint) => onWrite(insertField(word, field, value));
+
+  const handleValueInput = (index: number, text: string) => {
+    setDrafts({ ...drafts, [index]: text });
+    const field = definition.fields[index];
+    const parsed = parseInput(text, 'auto');
+    if (!parsed.error && text.trim() && parsed.value >= 0n && parsed.value <= maskOf(getFieldWidth(field))) {
+      writeField(field, parsed.value);
+    }
+  };
+
+  const exportJson = () => {
+    const blob = new Blob([serializeRegister(definition)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${definition.name || 'register'}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importJson = async (file: File) => {
+    const { def, error } = parseRegisterJson(await file.text());
+    setImportError(error);
+    if (def) {
+      onDefinitionChange(def);
+      setDrafts({});
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <SlidersHorizontal size={18} /> {t('register.title', { name: definition.name, first: wordAddress, last: wordAddress + wordByteCount(wordBits) - 1 })}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showOverlay}
+              onChange={(e) => onShowOverlayChange(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            {t('register.overlay')}
+          </label>
+          <div className="flex bg-gray-950 p-1 rounded-lg border border-gray-800">
+            <button onClick={exportJson} className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-bold text-gray-400 hover:bg-gray-800 transition-colors">
+              <Download size={12} /> {t('register.export')}
+            </button>
+            <button onClick={() => fileRef.current?.click()} className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-bold text-gray-400 hover:bg-gray-800 transition-colors">
+              <Upload size={12} /> {t('register.import')}
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importJson(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          <Tooltip text={t('register.help')}>
+            <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+          </Tooltip>
+        </div>
+      </div>
+
+      {(errors.length > 0 || importError) && (
+        <ul className="mb-4 p-3 rounded-lg border border-amber-700/60 bg-amber-950/30 text-xs text-amber-300 space-y-1">
+          {importError && <li>{importError}</li>}
+          {errors.map((e, i) => <li key={i}>{e}</li>)}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Decoded Field Values */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="border-b border-gray-800 text-xs uppercase text-gray-500">
+                <th className="py-2 px-3 font-medium">{t('register.column.field')}</th>
+                <th className="py-2 px-3 font-medium">{t('register.column.bits')}</th>
+                <th className="py-2 px-3 font-medium">{t('register.column.access')}</th>
+                <th className="py-2 px-3 font-medium">{t('register.column.value')}</th>
+                <th className="py-2 px-3 font-medium">{t('register.column.meaning')}</th>
+              </tr>
+            </thead>
+            <tbody className="text-sm font-mono">
+              {definition.fields.map((field, i) => {
+                const value = extractField(word, field);
+                const enumName = field.enums?.[value.toString()];
+                const hexDigits = Math.ceil(getFieldWidth(field) / 4);
+                const draft = drafts[i];
+                const draftParsed = draft !== undefined ? parseInput(draft, 'auto') : null;
+                const draftInvalid = !!draftParsed && (!!draftParsed.error || draftParsed.value < 0n || draftParsed.value > maskOf(getFieldWidth(field)));
+                return (
+                  <tr key={i} className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors">
+                    <td className={clsx("py-2 px-3 font-bold", FIELD_COLORS[i % FIELD_COLORS.length].text)}>
+                      {field.description ? <Tooltip text={field.description}>{field.name}</Tooltip> : field.name}
+                    </td>
+                    <td className="py-2 px-3 text-gray-400">{formatFieldRange(field)}</td>
+                    <td className="py-2 px-3">
+                      <span className={clsx("px-1.5 py-0.5 rounded border text-[10px] font-bold", ACCESS_STYLES[field.access])}>{field.access}</span>
+                    </td>
+                    <td className="py-2 px-3 whitespace-nowrap">
+                      {field.access === 'RO' ? (
+                        <Tooltip text={t('register.readOnly')}>
+                          <span className="flex items-center gap-1 text-gray-300"><Lock size={10} className="text-gray-600" />0x{value.toString(16).toUpperCase().padStart(hexDigits, '0')}</span>
+                        </Tooltip>
+                      ) : (
+                        <div className="flex items-center gap-1.5">
+                          <input
+                            type="text"
+                            value={draft ?? `0x${value.toString(16).toUpperCase().padStart(hexDigits, '0')}`}
+                            onChange={(e) => handleValueInput(i, e.target.value)}
+                            onBlur={() => setDrafts(({ [i]: _, ...rest }) => rest)}
+                            spellCheck={false}
+                            title={t('register.valueTitle', { max: maskOf(getFieldWidth(field)).toString() })}
+                            className={clsx(inputClass, "w-24", draftInvalid && "border-red-500 focus:ring-red-500")}
+                          />
+                          {field.access === 'W1C' && value !== 0n && (
+                            <button
+                              onClick={() => writeField(field, 0n)}
+                              title={t('register.w1cTitle')}
+                              className="px-2 py-0.5 rounded text-[10px] font-bold bg-amber-700 hover:bg-amber-600 text-white transition-colors"
+                            >
+                              {t('register.w1c')}
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-xs">
+                      {field.enums && field.access !== 'RO' ? (
+                        <select
+                          value={enumName !== undefined ? value.toString() : ''}
+                          onChange={(e) => writeField(field, BigInt(e.target.value))}
+                          className={clsx(inputClass, "font-sans")}
+                        >
+                          {enumName === undefined && <option value="" disabled>({value.toString()})</option>}
+                          {Object.entries(field.enums).map(([v, name]) => (
+                            <option key={v} value={v}>{v}: {name}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-gray-400">{enumName ?? value.toString()}</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Definition Editor */}
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+            <label className="flex items-center gap-1.5">
+              {t('register.editor.name')}
+              <input
+                type="text"
+                value={definition.name}
+                onChange={(e) => onDefinitionChange({ ...definition, name: e.target.value })}
+                className={clsx(inputClass, "w-32")}
+              />
+            </label>
+            <label className="flex items-center gap-1.5">
+              {t('register.editor.width')}
+              <input
+                type="number"
+                min={1}
+                max={MAX_WORD_BITS}
+                value={definition.width}
+                onChange={(e) => onDefinitionChange({ ...definition, width: Math.min(MAX_WORD_BITS, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                className={clsx(inputClass, "w-14")}
+              />
+              bit
+            </label>
+            <button
+              onClick={addField}
+              className="ml-auto flex items-center gap-1 px-2.5 py-1 rounded text-xs font-bold bg-gray-800 hover:bg-gray-700 text-gray-200 transition-colors"
+            >
+              <Plus size={12} /> {t('register.addField')}
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse text-xs">
+              <thead>
+                <tr className="border-b border-gray-800 text-gray-500">
+                  <th className="py-1.5 px-1 font-medium">{t('register.editor.name')}</th>
+                  <th className="py-1.5 px-1 font-medium">MSB</th>
+                  <th className="py-1.5 px-1 font-medium">LSB</th>
+                  <th className="py-1.5 px-1 font-medium">{t('register.column.access')}</th>
+                  <th className="py-1.5 px-1 font-medium">
+                    <Tooltip text={t('register.enumsHelp')}>{t('register.enums')}</Tooltip>
+                  </th>
+                  <th className="py-1.5 px-1 font-medium">{t('register.description')}</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {definition.fields.map((field, i) => (
+                  <tr key={i} className="border-b border-gray-800/50">
+                    <td className="py-1 px-1">
+                      <input type="text" value={field.name} onChange={(e) => updateField(i, { name: e.target.value })} className={clsx(inputClass, "w-24")} />
+                    </td>
+                    <td className="py-1 px-1">
+                      <input type="number" min={0} max={definition.width - 1} value={field.msb} onChange={(e) => updateField(i, { msb: Math.max(0, parseInt(e.target.value, 10) || 0) })} className={clsx(inputClass, "w-12")} />
+                    </td>
+                    <td className="py-1 px-1">
+                      <input type="number" min={0} max={definition.width - 1} value={field.lsb} onChange={(e) => updateField(i, { lsb: Math.max(0, parseInt(e.target.value, 10) || 0) })} className={clsx(inputClass, "w-12")} />
+                    </td>
+                    <td className="py-1 px-1">
+                      <select value={field.access} onChange={(e) => updateField(i, { access: e.target.value as FieldAccess })} className={clsx(inputClass, "font-sans")}>
+                        {FIELD_ACCESS.map(a => <option key={a.id} value={a.id}>{a.id} ({a.label})</option>)}
+                      </select>
+                    </td>
+                    <td className="py-1 px-1">
+                      {/* Committed on blur: a half-typed list would otherwise be normalised away */}
+                      <input
+                        key={formatEnums(field.enums)}
+                        type="text"
+                        defaultValue={formatEnums(field.enums)}
+                        onBlur={(e) => updateField(i, { enums: parseEnums(e.target.value) })}
+                        placeholder="0=Off, 1=On"
+                        className={clsx(inputClass, "w-36")}
+                      />
+                    </td>
+                    <td className="py-1 px-1">
+                      <input type="text" value={field.description ?? ''} onChange={(e) => updateField(i, { description: e.target.value || undefined })} className={clsx(inputClass, "w-32 font-sans")} />
+                    </td>
+                    <td className="py-1 px-1">
+                      <button onClick={() => removeField(i)} title={t('register.removeField')} className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-gray-800 transition-colors">
+                        <Trash2 size={12} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
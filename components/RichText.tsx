@@ -0,0 +1,17 @@
+import React from 'react';
+
+// Renders the little markup catalog strings may carry: <b>…</b>, <code>…</code> and <br/>.
+// Anything else is shown as text, so translations cannot inject HTML.
+export const RichText = ({ text }: { text: string }) => {
+  const parts = text.split(/(<b>.*?<\/b>|<code>.*?<\/code>|<br\/>)/);
+  return (
+    <>
+      {parts.map((part, i) => {
+        if (part === '<br/>') return <br key={i} />;
+        if (part.startsWith('<b>')) return <span key={i} className="font-bold text-white">{part.slice(3, -4)}</span>;
+        if (part.startsWith('<code>')) return <code key={i}>{part.slice(6, -7)}</code>;
+        return part;
+      })}
+    </>
+  );
+};
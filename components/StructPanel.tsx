@@ -0,0 +1,190 @@
+import React from 'react';
+import { Braces, Info } from 'lucide-react';
+import { clsx } from 'clsx';
+import { Tooltip } from './Tooltip';
+import { ParseError } from './ParseError';
+import { BitAnnotation } from './WordCard';
+import { FIELD_COLORS } from '../register';
+import { AbiPreset, ABI_PRESETS, StructLayout, StructResult, decodeMember } from '../structLayout';
+import { t } from '../i18n';
+
+export const EXAMPLE_STRUCT = `struct Packet {
+    uint8_t  type;
+    uint32_t length;
+    uint16_t flags;
+    double   timestamp;
+    char     tag[3];
+};`;
+
+const PADDING_ANNOTATION = { barClassName: 'bg-gray-600', labelClassName: 'text-gray-500' };
+
+// Member/padding marks for the byte grid; the struct is laid out from address 0
+export const getStructAnnotation = (layout: StructLayout) => (address: number): BitAnnotation | undefined => {
+  const index = layout.members.findIndex(m => address >= m.offset && address < m.offset + m.size);
+  if (index >= 0) {
+    const member = layout.members[index];
+    const color = FIELD_COLORS[index % FIELD_COLORS.length];
+    return {
+      barClassName: color.bar,
+      labelClassName: color.text,
+      label: address === member.offset ? member.name : undefined,
+      title: `${member.typeName} ${member.name}${member.count > 1 ? `[${member.count}]` : ''} (+${member.offset})`,
+    };
+  }
+  const pad = layout.padding.find(p => address >= p.offset && address < p.offset + p.size);
+  if (!pad) return undefined;
+  return {
+    ...PADDING_ANNOTATION,
+    label: address === pad.offset ? 'pad' : undefined,
+    title: t(pad.trailing ? 'struct.pad.trailingTitle' : 'struct.pad.title'),
+  };
+};
+
+export const StructPanel = ({
+  source,
+  onSourceChange,
+  abi,
+  onAbiChange,
+  result,
+  memoryBytes,
+  isLittleEndian,
+  showOverlay,
+  onShowOverlayChange,
+  onSelectAddress,
+}: {
+  source: string;
+  onSourceChange: (source: string) => void;
+  abi: AbiPreset;
+  onAbiChange: (abi: AbiPreset) => void;
+  result: StructResult;
+  memoryBytes: number[];
+  isLittleEndian: boolean;
+  showOverlay: boolean;
+  onShowOverlayChange: (on: boolean) => void;
+  onSelectAddress: (address: number) => void;
+}) => {
+  const layout = result.layout;
+
+  // Members and padding in address order
+  const rows = layout
+    ? [
+        ...layout.members.map((member, index) => ({ kind: 'member' as const, offset: member.offset, member, index })),
+        ...layout.padding.map(pad => ({ kind: 'pad' as const, offset: pad.offset, pad })),
+      ].sort((a, b) => a.offset - b.offset)
+    : [];
+  const paddingTotal = layout ? layout.padding.reduce((sum, p) => sum + p.size, 0) : 0;
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Braces size={18} /> {t('struct.title')}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showOverlay}
+              onChange={(e) => onShowOverlayChange(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            {t('struct.overlay')}
+          </label>
+          <div className="flex bg-gray-950 p-1 rounded-lg border border-gray-800">
+            {ABI_PRESETS.map(preset => (
+              <Tooltip key={preset.id} text={preset.description}>
+                <button
+                  onClick={() => onAbiChange(preset)}
+                  className={clsx(
+                    "px-3 py-1.5 rounded text-xs font-bold transition-all",
+                    abi.id === preset.id ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300"
+                  )}
+                >
+                  {preset.label}
+                </button>
+              </Tooltip>
+            ))}
+          </div>
+          <Tooltip text={t('struct.help')}>
+            <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+          </Tooltip>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-6">
+        {/* Declaration */}
+        <div>
+          <textarea
+            value={source}
+            onChange={(e) => onSourceChange(e.target.value)}
+            spellCheck={false}
+            rows={10}
+            className="w-full bg-gray-950 border border-gray-700 text-white px-4 py-3 rounded-lg font-mono text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent outline-none resize-y"
+            placeholder="struct { uint8_t a; uint32_t b; double c; };"
+          />
+          {result.error && result.errorPos !== null && (
+            <ParseError source={source} error={result.error} errorPos={result.errorPos} />
+          )}
+          {layout && (
+            <div className="mt-3 flex flex-wrap gap-2 text-xs font-mono">
+              <span className="px-2 py-1 rounded bg-gray-950 border border-gray-800 text-gray-400">sizeof = <span className="text-white font-bold">{layout.size}</span></span>
+              <span className="px-2 py-1 rounded bg-gray-950 border border-gray-800 text-gray-400">alignof = <span className="text-white font-bold">{layout.align}</span></span>
+              <span className={clsx("px-2 py-1 rounded border", paddingTotal ? "bg-amber-950/30 border-amber-800/60 text-amber-300" : "bg-gray-950 border-gray-800 text-gray-400")}>
+                {t('struct.paddingTotal', { bytes: paddingTotal, percent: Math.round((paddingTotal / layout.size) * 100) })}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Members */}
+        {layout && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b border-gray-800 text-xs uppercase text-gray-500">
+                  <th className="py-2 px-3 font-medium">{t('struct.column.offset')}</th>
+                  <th className="py-2 px-3 font-medium">{t('struct.column.member')}</th>
+                  <th className="py-2 px-3 font-medium">{t('struct.column.type')}</th>
+                  <th className="py-2 px-3 font-medium">{t('struct.column.size')}</th>
+                  <th className="py-2 px-3 font-medium">{t('struct.column.align')}</th>
+                  <th className="py-2 px-3 font-medium">{t('struct.column.value')}</th>
+                </tr>
+              </thead>
+              <tbody className="text-sm font-mono">
+                {rows.map(row => row.kind === 'member' ? (
+                  <tr
+                    key={`m${row.index}`}
+                    onClick={() => onSelectAddress(row.member.offset)}
+                    className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors cursor-pointer"
+                  >
+                    <td className="py-2 px-3 text-gray-400">+{row.member.offset}</td>
+                    <td className={clsx("py-2 px-3 font-bold", FIELD_COLORS[row.index % FIELD_COLORS.length].text)}>
+                      {row.member.name}{row.member.count > 1 && <span className="text-gray-500">[{row.member.count}]</span>}
+                    </td>
+                    <td className="py-2 px-3 text-gray-300 whitespace-nowrap">{row.member.typeName}</td>
+                    <td className="py-2 px-3 text-gray-400">{row.member.size}</td>
+                    <td className="py-2 px-3 text-gray-400">{row.member.align}</td>
+                    <td className="py-2 px-3 text-white break-all">
+                      {decodeMember(row.member, memoryBytes, 0, isLittleEndian, abi) ?? (
+                        <Tooltip text={t('struct.missing')}>
+                          <span className="text-gray-600">-</span>
+                        </Tooltip>
+                      )}
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={`p${row.offset}`} className="border-b border-gray-800/50 text-gray-600 italic">
+                    <td className="py-1.5 px-3">+{row.pad.offset}</td>
+                    <td className="py-1.5 px-3" colSpan={2}>{t(row.pad.trailing ? 'struct.pad.trailingRow' : 'struct.pad.row')}</td>
+                    <td className="py-1.5 px-3">{row.pad.size}</td>
+                    <td className="py-1.5 px-3" colSpan={2} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { Type, Info } from 'lucide-react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { Tooltip } from './Tooltip';
+import { formatHex } from '../utils';
+import { TextEncoding, TEXT_ENCODINGS, TextSegment, decodeText, formatCodePoint } from '../textDecode';
+import { t } from '../i18n';
+
+// Decoding is per character, so long buffers are shown as a window starting at the cursor's row
+const TEXT_STRIP_LIMIT = 1024;
+const ROW_BYTES = 16;
+
+const segmentTitle = (segment: TextSegment, base: number) => {
+  const where = `+${base + segment.offset}`;
+  const size = t('common.bytes', { count: segment.length });
+  if (segment.kind === 'invalid') return `${where} · ${t('text.invalid')} · ${size}`;
+  const pair = segment.isSurrogatePair ? ` · ${t('text.surrogatePair')}` : '';
+  return `${where} · ${formatCodePoint(segment.codePoint!)} · ${size}${pair}`;
+};
+
+// The memory bytes read as text, one box per character: a box spans all bytes of its sequence,
+// so multi-byte boundaries and bytes that decode to nothing are visible at a glance
+export const TextStrip = ({
+  bytes,
+  revision,
+  cursor,
+  onSelect,
+}: {
+  bytes: number[];
+  // Changes when `bytes` is edited in place
+  revision: number;
+  cursor: number;
+  onSelect: (address: number) => void;
+}) => {
+  const [encoding, setEncoding] = useState<TextEncoding>('utf-8');
+
+  const start = bytes.length > TEXT_STRIP_LIMIT
+    ? Math.max(0, Math.min(cursor - (cursor % ROW_BYTES), bytes.length - TEXT_STRIP_LIMIT))
+    : 0;
+  const visible = useMemo(() => bytes.slice(start, start + TEXT_STRIP_LIMIT), [bytes, revision, start]);
+  const segments = useMemo(() => decodeText(visible, encoding), [visible, encoding]);
+  const invalidCount = segments.filter(s => s.kind === 'invalid').length;
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Type size={18} /> {t('text.title')}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex flex-wrap bg-gray-950 p-1 rounded-lg border border-gray-800">
+            {TEXT_ENCODINGS.map(e => (
+              <button
+                key={e.id}
+                onClick={() => setEncoding(e.id)}
+                className={clsx(
+                  "px-3 py-1.5 rounded text-xs font-bold transition-all",
+                  encoding === e.id ? "bg-gray-800 text-white shadow" : "text-gray-500 hover:text-gray-300"
+                )}
+              >
+                {e.label}
+              </button>
+            ))}
+          </div>
+          <Tooltip text={t('text.help')}>
+            <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+          </Tooltip>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mb-3 text-xs text-gray-500">
+        {bytes.length > TEXT_STRIP_LIMIT && (
+          <span>{t('text.window', { start, end: start + visible.length - 1, total: bytes.length.toLocaleString() })}</span>
+        )}
+        <span>{t('text.summary', { chars: segments.length - invalidCount, invalid: invalidCount })}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-1 max-h-80 overflow-y-auto">
+        {segments.map(segment => {
+          const address = start + segment.offset;
+          const hasCursor = cursor >= address && cursor < address + segment.length;
+          return (
+            <button
+              key={segment.offset}
+              onClick={() => onSelect(address)}
+              title={segmentTitle(segment, start)}
+              style={{ minWidth: `${segment.length * 1.75}rem` }}
+              className={twMerge(
+                "flex flex-col items-center justify-between px-1 py-0.5 rounded border font-mono transition-colors",
+                segment.kind === 'char' && "border-gray-700 bg-gray-950 text-white hover:bg-gray-800",
+                segment.kind === 'control' && "border-amber-700/60 bg-amber-950/20 text-amber-300 hover:bg-amber-950/40",
+                segment.kind === 'invalid' && "border-red-700/70 bg-red-950/40 text-red-400 hover:bg-red-950/60",
+                segment.isSurrogatePair && "border-purple-600/70",
+                hasCursor && "ring-2 ring-white"
+              )}
+            >
+              <span className={clsx("h-6 flex items-center", segment.kind === 'char' ? "text-base" : "text-[10px] font-bold")}>
+                {segment.kind === 'invalid' ? '�' : segment.text}
+              </span>
+              <span className="text-[9px] text-gray-500 whitespace-nowrap">
+                {visible.slice(segment.offset, segment.offset + segment.length).map(b => formatHex(b)).join(' ')}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState, useContext, createContext, useEffect, useId, useRef } from 'react';
+
+interface TooltipContextType {
+  showTooltip: (text: React.ReactNode, x: number, y: number) => void;
+  hideTooltip: () => void;
+}
+
+const TooltipContext = createContext<TooltipContextType | null>(null);
+
+export const TooltipProvider = ({ children }: { children: React.ReactNode }) => {
+  const [tooltip, setTooltip] = useState<{ text: React.ReactNode; x: number; y: number } | null>(null);
+
+  const showTooltip = (text: React.ReactNode, x: number, y: number) => {
+    setTooltip({ text, x, y });
+  };
+
+  const hideTooltip = () => {
+    setTooltip(null);
+  };
+
+  return (
+    <TooltipContext.Provider value={{ showTooltip, hideTooltip }}>
+      {children}
+      {tooltip && (
+        <div
+          role="tooltip"
+          className="fixed z-[9999] pointer-events-none bg-gray-800 border border-gray-600 text-white text-xs px-3 py-2 rounded shadow-xl whitespace-pre-wrap max-w-xs"
+          style={{
+            left: tooltip.x,
+            top: tooltip.y,
+            transform: 'translate(-100%, -100%) translate(-12px, -12px)'
+          }}
+        >
+          {tooltip.text}
+        </div>
+      )}
+    </TooltipContext.Provider>
+  );
+};
+
+const FOCUSABLE = 'button, input, select, textarea, a[href], [tabindex]';
+
+export const Tooltip = ({ children, text }: { children: React.ReactNode; text: React.ReactNode }) => {
+  const ctx = useContext(TooltipContext);
+  const id = useId();
+  const ref = useRef<HTMLDivElement>(null);
+  // A wrapped control takes focus and the description itself; anything else gets a tab stop of its own
+  const [wrapsControl, setWrapsControl] = useState(false);
+
+  useEffect(() => {
+    const control = ref.current?.querySelector(FOCUSABLE);
+    control?.setAttribute('aria-describedby', id);
+    setWrapsControl(!!control);
+  }, [children, id]);
+
+  if (!ctx) return <>{children}</>;
+
+  return (
+    <div
+      ref={ref}
+      className="w-fit cursor-help inline-block rounded outline-none focus-visible:ring-1 focus-visible:ring-cyan-500"
+      tabIndex={wrapsControl ? undefined : 0}
+      aria-describedby={wrapsControl ? undefined : id}
+      onMouseEnter={(e) => ctx.showTooltip(text, e.clientX, e.clientY)}
+      onMouseMove={(e) => ctx.showTooltip(text, e.clientX, e.clientY)}
+      onMouseLeave={ctx.hideTooltip}
+      onFocus={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        ctx.showTooltip(text, rect.right, rect.top);
+      }}
+      onBlur={ctx.hideTooltip}
+      onKeyDown={(e) => e.key === 'Escape' && ctx.hideTooltip()}
+    >
+      {children}
+      <span id={id} hidden>{text}</span>
+    </div>
+  );
+};
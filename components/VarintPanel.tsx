@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { Layers3, Info, ArrowDownToLine } from 'lucide-react';
+import { clsx } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import { Tooltip } from './Tooltip';
+import { formatHex } from '../utils';
+import { parseHexDump } from '../hexDump';
+import { VarintBit, VarintBitRole, VarintFormat, VARINT_SCHEMES, encodeVarint, decodeVarint, varintLayout } from '../varint';
+import { t, useLanguage } from '../i18n';
+
+// Set bits take the role's colour, clear bits a dark tint of it, as BitGrid does with the byte's colour
+const ROLE_CLASS: Record<VarintBitRole, { set: string; clear: string; legend: string }> = {
+  flag: { set: "bg-amber-500 text-white font-bold", clear: "bg-amber-950 text-amber-700", legend: "bg-amber-500" },
+  header: { set: "bg-purple-500 text-white font-bold", clear: "bg-purple-950 text-purple-700", legend: "bg-purple-500" },
+  payload: { set: "bg-cyan-600 text-white font-bold", clear: "bg-gray-800 text-gray-600", legend: "bg-cyan-600" },
+};
+
+const ROLE_LABEL: Record<VarintBitRole, () => string> = {
+  flag: () => t('varint.legend.flag'),
+  header: () => t('varint.legend.header'),
+  payload: () => t('varint.legend.payload'),
+};
+
+const formatValue = (value: bigint) =>
+  `${value} (${value < 0n ? '-' : ''}0x${(value < 0n ? -value : value).toString(16).toUpperCase()})`;
+
+const VarintBytes = ({ bytes, layout }: { bytes: number[]; layout: VarintBit[][] }) => (
+  <div className="flex flex-wrap gap-2">
+    {bytes.map((byte, i) => (
+      <div key={i} className="flex flex-col items-center gap-0.5">
+        <div className="flex gap-px">
+          {layout[i].map((bit, j) => {
+            const value = (byte >> (7 - j)) & 1;
+            return (
+              <div
+                key={j}
+                className={twMerge(
+                  "flex items-center justify-center font-mono w-2.5 h-4 sm:w-3 sm:h-5 text-[8px] sm:text-[10px]",
+                  value ? ROLE_CLASS[bit.role].set : ROLE_CLASS[bit.role].clear
+                )}
+                title={bit.role === 'payload' && bit.valueBit !== null ? t('varint.payloadBit', { bit: bit.valueBit }) : ROLE_LABEL[bit.role]()}
+              >
+                {value}
+              </div>
+            );
+          })}
+        </div>
+        <span className="text-[10px] font-mono text-gray-500">{formatHex(byte)}</span>
+      </div>
+    ))}
+  </div>
+);
+
+// The same integer in each variable-length scheme, and a decoder for pasted bytes
+export const VarintPanel = ({
+  value,
+  onUseValue,
+}: {
+  // The input as one integer; null when it is too large to treat as one
+  value: bigint | null;
+  onUseValue: (value: bigint) => void;
+}) => {
+  const [decodeFormat, setDecodeFormat] = useState<VarintFormat>('uleb128');
+  const [decodeText, setDecodeText] = useState('');
+  const language = useLanguage();
+
+  const encodings = useMemo(() => {
+    if (value === null) return [];
+    return VARINT_SCHEMES.map(scheme => {
+      const result = encodeVarint(value, scheme.id);
+      return { scheme, ...result, layout: varintLayout(result.bytes, scheme.id) };
+    });
+  }, [value, language]);
+
+  const parsed = useMemo(() => parseHexDump(decodeText), [decodeText, language]);
+  const decoded = useMemo(() => {
+    if (parsed.error || !parsed.bytes.length) return null;
+    const result = decodeVarint(parsed.bytes, decodeFormat);
+    const bytes = parsed.bytes.slice(0, result.length);
+    return { ...result, bytes, layout: varintLayout(bytes, decodeFormat), trailing: parsed.bytes.length - result.length };
+  }, [parsed, decodeFormat, language]);
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl border border-gray-800 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Layers3 size={18} /> {t('varint.title')}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex flex-wrap items-center gap-3 text-[10px] text-gray-400">
+            {(Object.keys(ROLE_CLASS) as VarintBitRole[]).map(role => (
+              <span key={role} className="flex items-center gap-1">
+                <span className={clsx("w-2 h-2 rounded-sm", ROLE_CLASS[role].legend)}></span> {ROLE_LABEL[role]()}
+              </span>
+            ))}
+          </div>
+          <Tooltip text={t('varint.help')}>
+            <Info size={14} className="text-gray-500 hover:text-cyan-400 transition-colors" />
+          </Tooltip>
+        </div>
+      </div>
+
+      {value !== null && (
+        <>
+          <div className="mb-3 text-xs font-mono text-gray-400">{t('varint.value', { value: formatValue(value) })}</div>
+          <div className="flex flex-col divide-y divide-gray-800 mb-6">
+            {encodings.map(({ scheme, bytes, layout, error }) => (
+              <div key={scheme.id} className="flex flex-col sm:flex-row sm:items-center gap-2 py-2">
+                <div className="sm:w-48 shrink-0 flex items-center gap-2">
+                  <span className="text-xs font-bold text-gray-300">{scheme.label}</span>
+                  {!error && <span className="text-[10px] text-gray-600">{t('common.bytes', { count: bytes.length })}</span>}
+                </div>
+                {error ? (
+                  <span className="text-xs text-gray-600">{error}</span>
+                ) : (
+                  <>
+                    <VarintBytes bytes={bytes} layout={layout} />
+                    <button
+                      onClick={() => {
+                        setDecodeFormat(scheme.id);
+                        setDecodeText(bytes.map(b => formatHex(b)).join(' '));
+                      }}
+                      title={t('varint.toDecoder')}
+                      aria-label={t('varint.toDecoder')}
+                      className="sm:ml-auto self-start sm:self-center p-1 rounded text-gray-500 hover:text-cyan-400 hover:bg-gray-800 transition-colors"
+                    >
+                      <ArrowDownToLine size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Decoder */}
+      <div className="p-3 bg-gray-950 rounded-lg border border-gray-800">
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+          <span className="font-bold text-gray-300">{t('varint.decode')}</span>
+          <select
+            value={decodeFormat}
+            onChange={(e) => setDecodeFormat(e.target.value as VarintFormat)}
+            aria-label={t('varint.format')}
+            className="bg-gray-900 border border-gray-700 text-white rounded px-2 py-1 outline-none focus:ring-1 focus:ring-cyan-500"
+          >
+            {VARINT_SCHEMES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+          <input
+            type="text"
+            value={decodeText}
+            onChange={(e) => setDecodeText(e.target.value)}
+            placeholder={t('varint.placeholder')}
+            spellCheck={false}
+            className="flex-1 min-w-[12rem] bg-gray-900 border border-gray-700 text-white rounded px-2 py-1 font-mono outline-none focus:ring-1 focus:ring-cyan-500"
+          />
+        </div>
+        {parsed.error && <div className="text-xs text-red-400">{parsed.error}</div>}
+        {decoded && (
+          <div className="flex flex-col gap-2">
+            <VarintBytes bytes={decoded.bytes} layout={decoded.layout} />
+            {decoded.value !== null && (
+              <div className="flex flex-wrap items-center gap-3 text-xs font-mono text-white">
+                <span>{t('varint.decoded', { value: formatValue(decoded.value), count: decoded.length })}</span>
+                {/* protobuf decodes to uint64; int64 fields read the same bits as two's complement */}
+                {decodeFormat === 'protobuf' && decoded.value >= 1n << 63n && (
+                  <span className="text-gray-400">int64: {BigInt.asIntN(64, decoded.value).toString()}</span>
+                )}
+                <button
+                  onClick={() => onUseValue(decoded.value!)}
+                  className="px-2 py-0.5 rounded bg-gray-800 hover:bg-gray-700 text-cyan-400 font-sans font-bold transition-colors"
+                >
+                  {t('varint.useValue')}
+                </button>
+              </div>
+            )}
+            {decoded.error && (
+              <div className={clsx("text-xs", decoded.value === null ? "text-red-400" : "text-amber-400")}>{decoded.error}</div>
+            )}
+            {decoded.trailing > 0 && decoded.value !== null && (
+              <div className="text-xs text-gray-500">{t('varint.trailing', { count: decoded.trailing })}</div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
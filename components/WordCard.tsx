@@ -0,0 +1,226 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { twMerge } from 'tailwind-merge';
+import { bytesToBigInt } from '../utils';
+import { BitNumbering, bitLabel, maskOf } from '../bitOps';
+import { t } from '../i18n';
+import { useMemoryGrid, gridCellProps } from './MemoryGrid';
+
+// Click-to-toggle, drag-to-paint and Space/Enter for individual bits, addressed by memory byte and bit number
+export interface BitEditHandlers {
+  canEdit: (address: number) => boolean;
+  onBitDown: (address: number, bit: number) => void;
+  onBitEnter: (address: number, bit: number) => void;
+  onBitToggle: (address: number, bit: number) => void;
+}
+
+// Mouse and key handlers for one bit cell; clicks do not bubble up to the ByteCard's cursor selection
+export const bitEditProps = (editor: BitEditHandlers | undefined, address: number, bit: number) => {
+  if (!editor || !editor.canEdit(address)) return {};
+  return {
+    onMouseDown: (e: React.MouseEvent) => {
+      e.preventDefault();
+      editor.onBitDown(address, bit);
+    },
+    onMouseEnter: () => editor.onBitEnter(address, bit),
+    onClick: (e: React.MouseEvent) => e.stopPropagation(),
+    onKeyDown: (e: React.KeyboardEvent) => {
+      if (e.key !== ' ' && e.key !== 'Enter') return;
+      e.preventDefault();
+      editor.onBitToggle(address, bit);
+    },
+  };
+};
+
+// The numbering chosen in the header; bit labels of the word cards and the memory grid follow it
+const BitNumberingContext = createContext<BitNumbering>('lsb0');
+
+export const BitNumberingProvider = BitNumberingContext.Provider;
+
+export const useBitNumbering = () => useContext(BitNumberingContext);
+
+// Bits above the word width in its top byte: still in memory, but not part of the value
+export const UNUSED_BIT_CLASS = "opacity-30";
+
+// Focus ring shared by the bit cells of the memory grid
+export const BIT_FOCUS_CLASS = "outline-none focus-visible:ring-2 focus-visible:ring-cyan-300 focus-visible:z-10";
+
+// Marks a bit as part of a named region, e.g. a register field
+export interface BitAnnotation {
+  barClassName: string;
+  // Shown above the bit; set it on the field's MSB only, with the number of bits it may span
+  label?: string;
+  labelSpan?: number;
+  labelClassName?: string;
+  title: string;
+}
+
+export const WordCard = ({
+  bytes,
+  addressOffset,
+  isLittleEndian,
+  wordWidth,
+  wordBits = wordWidth * 8,
+  isSigned,
+  getBitClassName,
+  editor,
+  label,
+  getBitAnnotation,
+  gridRow,
+  compareBytes,
+  highlightBits = 0n,
+}: {
+  bytes: number[];
+  addressOffset: number;
+  isLittleEndian: boolean;
+  // Bytes the word occupies in memory
+  wordWidth: number;
+  // Bits of the value; below wordWidth * 8 the top bits of the most significant byte are unused
+  wordBits?: number;
+  isSigned: boolean;
+  // Optional per-bit colouring by memory address and bit number (0 = LSB of the byte)
+  getBitClassName?: (address: number, bit: number, isSet: boolean) => string | undefined;
+  editor?: BitEditHandlers;
+  // Replaces the address label, for values that do not live in the memory buffer
+  label?: React.ReactNode;
+  // Optional underline and label per logical bit of the word (0 = LSB)
+  getBitAnnotation?: (wordBit: number) => BitAnnotation | undefined;
+  // Row of the enclosing MemoryGrid; without it the bits are not keyboard cells
+  gridRow?: number;
+  // Compare mode: the same word of the second input; differing bits are marked and an XOR row is added
+  compareBytes?: number[];
+  // Set bits (0 = LSB of the word) are outlined, e.g. the bits a derived result depends on
+  highlightBits?: bigint;
+}) => {
+  const grid = useMemoryGrid();
+  const numbering = useBitNumbering();
+  // Reconstruct the value from bytes
+  const stored = useMemo(() => bytesToBigInt(bytes, isLittleEndian), [bytes, isLittleEndian]);
+  const value = stored & maskOf(wordBits);
+  const compareValue = useMemo(() => compareBytes && bytesToBigInt(compareBytes, isLittleEndian) & maskOf(wordBits), [compareBytes, isLittleEndian, wordBits]);
+  const xor = compareValue === undefined ? 0n : value ^ compareValue;
+
+  // For display, we want to show bits in logical order (MSB -> LSB)
+  // If Little Endian: Memory is [LSB, ..., MSB]. 
+  // If Big Endian: Memory is [MSB, ..., LSB].
+  // The `value` computed above is the logical value.
+  // We can just iterate bits of `value`.
+
+  const hexWidth = Math.ceil(wordBits / 4);
+  const hexString = value.toString(16).toUpperCase().padStart(hexWidth, '0');
+
+  return (
+    <div className={twMerge("relative flex flex-col p-4 bg-gray-900 rounded-lg border-2 border-cyan-500/50 w-full", xor && "border-red-500/60")}>
+      <div className="absolute -top-3 left-3 bg-gray-950 px-2 text-xs text-gray-400 font-mono border border-gray-800 rounded">
+        {label ?? <>Addr: +{addressOffset} 〜 +{addressOffset + wordWidth - 1}</>}
+      </div>
+
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-4">
+        <div>
+          <div className="text-xs text-gray-400 font-mono mb-1">Word Value (Hex)</div>
+          <div className="text-2xl sm:text-3xl font-mono font-bold text-white tracking-wider">
+            0x{hexString}
+          </div>
+          {compareValue !== undefined && (
+            <div className="text-xs font-mono text-gray-400 mt-1">
+              B: 0x{compareValue.toString(16).toUpperCase().padStart(hexWidth, '0')}
+            </div>
+          )}
+        </div>
+        <div className="text-right">
+          <div className="text-xs text-gray-400 font-mono mb-1">Decimal ({t(isSigned ? 'sign.signed' : 'sign.unsigned')})</div>
+          <div className="text-lg font-mono text-cyan-400">
+            {(isSigned ? BigInt.asIntN(wordBits, value) : value).toString()}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs text-gray-500 font-mono">Binary Representation (MSB → LSB)</div>
+        <div className={twMerge("flex flex-wrap gap-1", getBitAnnotation && "pt-4 gap-y-5")} role={grid && gridRow !== undefined ? 'row' : undefined}>
+          {/* Render bits from MSB to LSB */}
+          {Array.from({ length: wordWidth }).map((_, byteIndex) => {
+            // Logical byte index (0 = MSB byte)
+            const logicalByteIndex = byteIndex;
+            const shift = BigInt((wordWidth - 1 - logicalByteIndex) * 8);
+            const byteVal = Number((stored >> shift) & 0xFFn);
+            const address = addressOffset + (isLittleEndian ? wordWidth - 1 - logicalByteIndex : logicalByteIndex);
+            
+            return (
+              <div key={byteIndex} className="flex gap-px p-1 bg-gray-950 rounded border border-gray-800">
+                {Array.from({ length: 8 }).map((_, bitIndex) => {
+                  const bit = (byteVal >> (7 - bitIndex)) & 1;
+                  const wordBit = (wordWidth - 1 - logicalByteIndex) * 8 + 7 - bitIndex;
+                  const isUnused = wordBit >= wordBits;
+                  const annotation = isUnused ? undefined : getBitAnnotation?.(wordBit);
+                  const bitName = isUnused ? t('width.unusedBit') : t('common.bit', { bit: bitLabel(wordBit, wordBits, numbering) });
+                  const bitTitle = annotation ? `${bitName}: ${annotation.title}` : bitName;
+                  return (
+                    <div
+                      key={bitIndex}
+                      className={twMerge(
+                        "relative w-3 h-5 sm:w-4 sm:h-6 flex items-center justify-center text-[10px] sm:text-xs font-mono",
+                        bit === 1 ? "bg-cyan-600 text-white font-bold" : "bg-gray-800 text-gray-600",
+                        getBitClassName?.(address, 7 - bitIndex, bit === 1),
+                        (xor >> BigInt(wordBit)) & 1n && (bit === 1 ? "bg-red-600 text-white" : "bg-red-950 text-red-400"),
+                        (highlightBits >> BigInt(wordBit)) & 1n && "ring-2 ring-inset ring-yellow-300",
+                        isUnused && UNUSED_BIT_CLASS,
+                        editor?.canEdit(address) && "cursor-pointer select-none hover:ring-1 hover:ring-white",
+                        BIT_FOCUS_CLASS
+                      )}
+                      title={bitTitle}
+                      aria-label={`+${address} ${bitTitle} = ${bit}`}
+                      {...(gridRow !== undefined && gridCellProps(grid, gridRow, byteIndex * 8 + bitIndex, !editor?.canEdit(address)))}
+                      {...bitEditProps(editor, address, 7 - bitIndex)}
+                    >
+                      {bit}
+                      {annotation && (
+                        <>
+                          <span className={twMerge("absolute left-0 right-0 -bottom-1 h-1 rounded-sm pointer-events-none", annotation.barClassName)} />
+                          {annotation.label && (
+                            <span
+                              className={twMerge("absolute -top-4 left-0 text-[9px] font-bold font-mono whitespace-nowrap overflow-hidden pointer-events-none", annotation.labelClassName)}
+                              style={{ maxWidth: `${Math.min(annotation.labelSpan ?? 1, 8 - bitIndex)}rem` }}
+                            >
+                              {annotation.label}
+                            </span>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+        {compareValue !== undefined && (
+          <>
+            <div className="text-xs text-gray-500 font-mono">XOR (A ⊕ B)</div>
+            <div className="flex flex-wrap gap-1" aria-hidden="true">
+              {Array.from({ length: wordWidth }).map((_, byteIndex) => (
+                <div key={byteIndex} className="flex gap-px p-1 bg-gray-950 rounded border border-gray-800">
+                  {Array.from({ length: 8 }).map((_, bitIndex) => {
+                    const wordBit = (wordWidth - 1 - byteIndex) * 8 + 7 - bitIndex;
+                    const changed = (xor >> BigInt(wordBit)) & 1n;
+                    return (
+                      <div
+                        key={bitIndex}
+                        className={twMerge(
+                          "w-3 h-5 sm:w-4 sm:h-6 flex items-center justify-center text-[10px] sm:text-xs font-mono",
+                          changed ? "bg-red-600 text-white font-bold" : "bg-gray-900 text-gray-700",
+                          wordBit >= wordBits && UNUSED_BIT_CLASS
+                        )}
+                      >
+                        {changed ? 1 : 0}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+// --- Compare mode ---
+// Two byte sequences of the same length (the caller pads the shorter one), compared byte by byte.
+
+export interface ByteDiff {
+  // a ^ b for every byte; non-zero where the bytes differ
+  xor: number[];
+  changedBytes: number;
+  // Number of differing bits
+  hammingDistance: number;
+}
+
+const popcount8 = (byte: number) => {
+  let count = 0;
+  for (let b = byte; b; b &= b - 1) count++;
+  return count;
+};
+
+export const diffBytes = (a: number[], b: number[]): ByteDiff => {
+  const xor = a.map((byte, i) => byte ^ (b[i] ?? 0));
+  let changedBytes = 0;
+  let hammingDistance = 0;
+  for (const x of xor) {
+    if (!x) continue;
+    changedBytes++;
+    hammingDistance += popcount8(x);
+  }
+  return { xor, changedBytes, hammingDistance };
+};
+
+export interface WordBitChanges {
+  address: number;
+  // Bit numbers within the word (0 = LSB, as in the word view), MSB first
+  bits: number[];
+}
+
+// The differing bits grouped by word, skipping words that are equal
+export const changedWordBits = (xor: number[], wordWidth: number, isLittleEndian: boolean): WordBitChanges[] => {
+  const words: WordBitChanges[] = [];
+  for (let address = 0; address < xor.length; address += wordWidth) {
+    const bits: number[] = [];
+    for (let i = 0; i < wordWidth; i++) {
+      // Walk the bytes from the most significant one
+      const x = xor[address + (isLittleEndian ? wordWidth - 1 - i : i)] ?? 0;
+      const significance = wordWidth - 1 - i;
+      for (let bit = 7; bit >= 0; bit--) {
+        if ((x >> bit) & 1) bits.push(significance * 8 + bit);
+      }
+    }
+    if (bits.length) words.push({ address, bits });
+  }
+  return words;
+};
@@ -0,0 +1,494 @@
+import { bytesToBigInt, formatHex } from './utils';
+import { t } from './i18n';
+
+// --- Header dissectors ---
+// Decode well-known binary headers into a field tree. Every format reads its own byte order (network order
+// for the packet headers, EI_DATA for ELF, little-endian for BMP) regardless of the global endianness.
+// Field names follow the specifications and are not translated.
+
+export type DissectorId = 'ethernet' | 'ipv4' | 'ipv6' | 'tcp' | 'udp' | 'elf64' | 'png' | 'bmp';
+
+export interface DissectedField {
+  name: string;
+  // Absolute byte range in the buffer
+  offset: number;
+  length: number;
+  // Sub-byte fields: bit position counted from the MSB of the first byte, as in RFC header diagrams
+  bits?: { from: number; count: number };
+  value: string;
+  children?: DissectedField[];
+}
+
+export interface Dissection {
+  // One root per protocol layer or file section, outermost first
+  layers: DissectedField[];
+  error: string | null;
+}
+
+interface LayerResult {
+  layer: DissectedField;
+  // The payload, when its format is known (EtherType, IP protocol number ...)
+  next?: { id: DissectorId; offset: number };
+}
+
+interface Dissector {
+  id: DissectorId;
+  label: string;
+  minLength: number;
+  dissect: (bytes: number[], offset: number) => LayerResult;
+}
+
+// --- Readers and field builders ---
+
+const readUint = (bytes: number[], at: number, size: number, le: boolean) => bytesToBigInt(bytes.slice(at, at + size), le);
+
+const readNumber = (bytes: number[], at: number, size: number, le: boolean) => Number(readUint(bytes, at, size, le));
+
+// Bits counted from the MSB of `bytes[at]`, across byte boundaries
+const readBits = (bytes: number[], at: number, from: number, count: number) => {
+  const span = Math.ceil((from + count) / 8);
+  const word = readUint(bytes, at, span, false);
+  return Number((word >> BigInt(span * 8 - from - count)) & ((1n << BigInt(count)) - 1n));
+};
+
+const hexOf = (value: number | bigint, bytes: number) => `0x${value.toString(16).toUpperCase().padStart(bytes * 2, '0')}`;
+
+const withName = (text: string, name: string | undefined) => name ? `${text} ${name}` : text;
+
+const uintField = (
+  name: string, bytes: number[], at: number, size: number, le: boolean, names?: Record<number, string>
+): DissectedField => {
+  const value = readUint(bytes, at, size, le);
+  return { name, offset: at, length: size, value: withName(`${value} (${hexOf(value, size)})`, names?.[Number(value)]) };
+};
+
+// Two's complement, e.g. a BMP's height (negative means top-down rows)
+const intField = (name: string, bytes: number[], at: number, size: number, le: boolean): DissectedField => {
+  const value = BigInt.asIntN(size * 8, readUint(bytes, at, size, le));
+  return { name, offset: at, length: size, value: value.toString() };
+};
+
+const bitField = (
+  name: string, bytes: number[], at: number, from: number, count: number, names?: Record<number, string>
+): DissectedField => {
+  const value = readBits(bytes, at, from, count);
+  return {
+    name,
+    offset: at + Math.floor(from / 8),
+    length: Math.ceil((from % 8 + count) / 8),
+    bits: { from: from % 8, count },
+    value: withName(String(value), names?.[value]),
+  };
+};
+
+const hexField = (name: string, bytes: number[], at: number, length: number, le = false): DissectedField => ({
+  name, offset: at, length, value: hexOf(readUint(bytes, at, length, le), length),
+});
+
+const bytesField = (name: string, bytes: number[], at: number, length: number): DissectedField => {
+  const available = Math.max(0, Math.min(length, bytes.length - at));
+  const shown = bytes.slice(at, at + Math.min(available, 16)).map(b => formatHex(b)).join(' ');
+  const more = available > 16 ? ' …' : '';
+  const truncated = available < length ? ` ${t('dissect.truncated', { have: available, need: length })}` : '';
+  return { name, offset: at, length: available, value: `${shown}${more}${truncated}` || '-' };
+};
+
+const asciiOf = (bytes: number[]) => bytes.map(b => b >= 0x20 && b < 0x7F ? String.fromCharCode(b) : '.').join('');
+
+const layerRoot = (label: string, offset: number, length: number, le: boolean, summary: string, children: DissectedField[]): DissectedField => ({
+  name: label,
+  offset,
+  length,
+  value: `${t(le ? 'endian.le' : 'endian.be')}${summary ? ` · ${summary}` : ''}`,
+  children,
+});
+
+// --- Ethernet ---
+
+const ETHER_TYPES: Record<number, string> = {
+  0x0800: 'IPv4', 0x0806: 'ARP', 0x86DD: 'IPv6', 0x8100: '802.1Q', 0x88A8: '802.1ad', 0x88CC: 'LLDP',
+};
+
+const macOf = (bytes: number[], at: number) => bytes.slice(at, at + 6).map(b => formatHex(b)).join(':');
+
+const dissectEthernet = (bytes: number[], offset: number): LayerResult => {
+  const children: DissectedField[] = [
+    { name: 'Destination', offset, length: 6, value: macOf(bytes, offset) },
+    { name: 'Source', offset: offset + 6, length: 6, value: macOf(bytes, offset + 6) },
+  ];
+  let at = offset + 12;
+  // 802.1Q tags sit between the addresses and the real EtherType
+  while ((readNumber(bytes, at, 2, false) === 0x8100 || readNumber(bytes, at, 2, false) === 0x88A8) && at + 6 <= bytes.length) {
+    children.push({
+      name: '802.1Q Tag',
+      offset: at,
+      length: 4,
+      value: `VID ${readBits(bytes, at + 2, 4, 12)}`,
+      children: [
+        uintField('TPID', bytes, at, 2, false, ETHER_TYPES),
+        bitField('PCP', bytes, at + 2, 0, 3),
+        bitField('DEI', bytes, at + 2, 3, 1),
+        bitField('VID', bytes, at + 2, 4, 12),
+      ],
+    });
+    at += 4;
+  }
+  const etherType = readNumber(bytes, at, 2, false);
+  children.push(uintField('EtherType', bytes, at, 2, false, ETHER_TYPES));
+  const payload = at + 2;
+  const next = etherType === 0x0800 ? 'ipv4' : etherType === 0x86DD ? 'ipv6' : null;
+  return {
+    layer: layerRoot('Ethernet II', offset, payload - offset, false, `${macOf(bytes, offset + 6)} → ${macOf(bytes, offset)}`, children),
+    next: next ? { id: next, offset: payload } : undefined,
+  };
+};
+
+// --- IPv4 / IPv6 ---
+
+const IP_PROTOCOLS: Record<number, string> = {
+  1: 'ICMP', 2: 'IGMP', 6: 'TCP', 17: 'UDP', 41: 'IPv6', 47: 'GRE', 50: 'ESP', 51: 'AH', 58: 'ICMPv6', 132: 'SCTP',
+};
+
+const ipPayload = (protocol: number, offset: number): LayerResult['next'] => {
+  if (protocol === 6) return { id: 'tcp', offset };
+  if (protocol === 17) return { id: 'udp', offset };
+  return undefined;
+};
+
+const ipv4Of = (bytes: number[], at: number) => bytes.slice(at, at + 4).join('.');
+
+const dissectIpv4 = (bytes: number[], offset: number): LayerResult => {
+  const headerLength = readBits(bytes, offset, 4, 4) * 4;
+  const protocol = bytes[offset + 9];
+  const children: DissectedField[] = [
+    bitField('Version', bytes, offset, 0, 4),
+    { ...bitField('IHL', bytes, offset, 4, 4), value: `${headerLength / 4} (${t('common.bytes', { count: headerLength })})` },
+    bitField('DSCP', bytes, offset + 1, 0, 6),
+    bitField('ECN', bytes, offset + 1, 6, 2),
+    uintField('Total Length', bytes, offset + 2, 2, false),
+    uintField('Identification', bytes, offset + 4, 2, false),
+    {
+      ...bitField('Flags', bytes, offset + 6, 0, 3),
+      children: [
+        bitField('Reserved', bytes, offset + 6, 0, 1),
+        bitField("DF (Don't Fragment)", bytes, offset + 6, 1, 1),
+        bitField('MF (More Fragments)', bytes, offset + 6, 2, 1),
+      ],
+    },
+    bitField('Fragment Offset', bytes, offset + 6, 3, 13),
+    uintField('TTL', bytes, offset + 8, 1, false),
+    uintField('Protocol', bytes, offset + 9, 1, false, IP_PROTOCOLS),
+    hexField('Header Checksum', bytes, offset + 10, 2),
+    { name: 'Source', offset: offset + 12, length: 4, value: ipv4Of(bytes, offset + 12) },
+    { name: 'Destination', offset: offset + 16, length: 4, value: ipv4Of(bytes, offset + 16) },
+  ];
+  if (headerLength > 20) children.push(bytesField('Options', bytes, offset + 20, headerLength - 20));
+  return {
+    layer: layerRoot('IPv4', offset, Math.max(headerLength, 20), false, `${ipv4Of(bytes, offset + 12)} → ${ipv4Of(bytes, offset + 16)}`, children),
+    next: headerLength >= 20 ? ipPayload(protocol, offset + headerLength) : undefined,
+  };
+};
+
+// RFC 5952: lower case, the longest run of two or more zero groups becomes "::"
+const ipv6Of = (bytes: number[], at: number) => {
+  const groups = Array.from({ length: 8 }, (_, i) => readNumber(bytes, at + i * 2, 2, false));
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; i++) {
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+  }
+  const text = groups.map(g => g.toString(16));
+  if (bestStart < 0) return text.join(':');
+  return `${text.slice(0, bestStart).join(':')}::${text.slice(bestStart + bestLength).join(':')}`;
+};
+
+const dissectIpv6 = (bytes: number[], offset: number): LayerResult => {
+  const nextHeader = bytes[offset + 6];
+  const children: DissectedField[] = [
+    bitField('Version', bytes, offset, 0, 4),
+    bitField('Traffic Class', bytes, offset, 4, 8),
+    bitField('Flow Label', bytes, offset, 12, 20),
+    uintField('Payload Length', bytes, offset + 4, 2, false),
+    uintField('Next Header', bytes, offset + 6, 1, false, IP_PROTOCOLS),
+    uintField('Hop Limit', bytes, offset + 7, 1, false),
+    { name: 'Source', offset: offset + 8, length: 16, value: ipv6Of(bytes, offset + 8) },
+    { name: 'Destination', offset: offset + 24, length: 16, value: ipv6Of(bytes, offset + 24) },
+  ];
+  return {
+    layer: layerRoot('IPv6', offset, 40, false, `${ipv6Of(bytes, offset + 8)} → ${ipv6Of(bytes, offset + 24)}`, children),
+    next: ipPayload(nextHeader, offset + 40),
+  };
+};
+
+// --- TCP / UDP ---
+
+const TCP_FLAGS = ['CWR', 'ECE', 'URG', 'ACK', 'PSH', 'RST', 'SYN', 'FIN'];
+
+const dissectTcp = (bytes: number[], offset: number): LayerResult => {
+  const dataOffset = readBits(bytes, offset + 12, 0, 4) * 4;
+  const flags = bytes[offset + 13];
+  const setFlags = TCP_FLAGS.filter((_, i) => (flags >> (7 - i)) & 1);
+  const children: DissectedField[] = [
+    uintField('Source Port', bytes, offset, 2, false),
+    uintField('Destination Port', bytes, offset + 2, 2, false),
+    uintField('Sequence Number', bytes, offset + 4, 4, false),
+    uintField('Acknowledgment Number', bytes, offset + 8, 4, false),
+    { ...bitField('Data Offset', bytes, offset + 12, 0, 4), value: `${dataOffset / 4} (${t('common.bytes', { count: dataOffset })})` },
+    bitField('Reserved', bytes, offset + 12, 4, 4),
+    {
+      name: 'Flags',
+      offset: offset + 13,
+      length: 1,
+      value: `${hexOf(flags, 1)} ${setFlags.join(', ')}`.trim(),
+      children: TCP_FLAGS.map((flag, i) => bitField(flag, bytes, offset + 13, i, 1)),
+    },
+    uintField('Window', bytes, offset + 14, 2, false),
+    hexField('Checksum', bytes, offset + 16, 2),
+    uintField('Urgent Pointer', bytes, offset + 18, 2, false),
+  ];
+  if (dataOffset > 20) children.push(bytesField('Options', bytes, offset + 20, dataOffset - 20));
+  const ports = `${readNumber(bytes, offset, 2, false)} → ${readNumber(bytes, offset + 2, 2, false)}`;
+  return { layer: layerRoot('TCP', offset, Math.max(dataOffset, 20), false, `${ports} [${setFlags.join(', ')}]`, children) };
+};
+
+const dissectUdp = (bytes: number[], offset: number): LayerResult => {
+  const children = [
+    uintField('Source Port', bytes, offset, 2, false),
+    uintField('Destination Port', bytes, offset + 2, 2, false),
+    uintField('Length', bytes, offset + 4, 2, false),
+    hexField('Checksum', bytes, offset + 6, 2),
+  ];
+  const ports = `${readNumber(bytes, offset, 2, false)} → ${readNumber(bytes, offset + 2, 2, false)}`;
+  return { layer: layerRoot('UDP', offset, 8, false, ports, children) };
+};
+
+// --- ELF64 ---
+
+const ELF_CLASSES: Record<number, string> = { 1: 'ELFCLASS32', 2: 'ELFCLASS64' };
+const ELF_DATA: Record<number, string> = { 1: 'ELFDATA2LSB', 2: 'ELFDATA2MSB' };
+const ELF_OSABI: Record<number, string> = {
+  0: 'System V', 1: 'HP-UX', 2: 'NetBSD', 3: 'Linux', 6: 'Solaris', 9: 'FreeBSD', 12: 'OpenBSD', 97: 'ARM', 255: 'Standalone',
+};
+const ELF_TYPES: Record<number, string> = { 0: 'ET_NONE', 1: 'ET_REL', 2: 'ET_EXEC', 3: 'ET_DYN', 4: 'ET_CORE' };
+const ELF_MACHINES: Record<number, string> = {
+  3: 'x86', 8: 'MIPS', 20: 'PowerPC', 21: 'PowerPC64', 22: 's390', 40: 'ARM', 43: 'SPARC V9', 62: 'x86-64',
+  183: 'AArch64', 243: 'RISC-V', 247: 'BPF', 258: 'LoongArch',
+};
+
+const dissectElf = (bytes: number[], offset: number): LayerResult => {
+  const elfClass = bytes[offset + 4];
+  // EI_DATA decides the order of everything after e_ident
+  const le = bytes[offset + 5] !== 2;
+  const ident: DissectedField = {
+    name: 'e_ident',
+    offset,
+    length: 16,
+    value: '',
+    children: [
+      { name: 'EI_MAG', offset, length: 4, value: `${hexOf(readUint(bytes, offset, 4, false), 4)} "\\x7F${asciiOf(bytes.slice(offset + 1, offset + 4))}"` },
+      uintField('EI_CLASS', bytes, offset + 4, 1, le, ELF_CLASSES),
+      uintField('EI_DATA', bytes, offset + 5, 1, le, ELF_DATA),
+      uintField('EI_VERSION', bytes, offset + 6, 1, le),
+      uintField('EI_OSABI', bytes, offset + 7, 1, le, ELF_OSABI),
+      uintField('EI_ABIVERSION', bytes, offset + 8, 1, le),
+      bytesField('EI_PAD', bytes, offset + 9, 7),
+    ],
+  };
+  if (elfClass !== 2 || bytes.length - offset < 64) {
+    const note = elfClass !== 2 ? t('dissect.elf32') : t('dissect.truncated', { have: bytes.length - offset, need: 64 });
+    return { layer: layerRoot('ELF', offset, 16, le, note, [ident]) };
+  }
+  const half = (name: string, at: number, names?: Record<number, string>) => uintField(name, bytes, offset + at, 2, le, names);
+  const word = (name: string, at: number) => uintField(name, bytes, offset + at, 4, le);
+  const children: DissectedField[] = [
+    ident,
+    half('e_type', 16, ELF_TYPES),
+    half('e_machine', 18, ELF_MACHINES),
+    word('e_version', 20),
+    hexField('e_entry', bytes, offset + 24, 8, le),
+    uintField('e_phoff', bytes, offset + 32, 8, le),
+    uintField('e_shoff', bytes, offset + 40, 8, le),
+    hexField('e_flags', bytes, offset + 48, 4, le),
+    half('e_ehsize', 52),
+    half('e_phentsize', 54),
+    half('e_phnum', 56),
+    half('e_shentsize', 58),
+    half('e_shnum', 60),
+    half('e_shstrndx', 62),
+  ];
+  const machine = ELF_MACHINES[readNumber(bytes, offset + 18, 2, le)] ?? '';
+  const type = ELF_TYPES[readNumber(bytes, offset + 16, 2, le)] ?? '';
+  return { layer: layerRoot('ELF64', offset, 64, le, `${type} ${machine}`.trim(), children) };
+};
+
+// --- PNG ---
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+const PNG_COLOR_TYPES: Record<number, string> = {
+  0: 'Grayscale', 2: 'Truecolor', 3: 'Indexed', 4: 'Grayscale + alpha', 6: 'Truecolor + alpha',
+};
+// A corrupt length could otherwise walk a large buffer one bogus chunk at a time
+const PNG_CHUNK_LIMIT = 64;
+
+const dissectPng = (bytes: number[], offset: number): LayerResult => {
+  const children: DissectedField[] = [{ name: 'Signature', offset, length: 8, value: `${hexOf(readUint(bytes, offset, 8, false), 8)} "\\x89PNG\\r\\n\\x1A\\n"` }];
+  let at = offset + 8;
+  let summary = '';
+  for (let i = 0; i < PNG_CHUNK_LIMIT && at + 8 <= bytes.length; i++) {
+    const length = readNumber(bytes, at, 4, false);
+    const type = asciiOf(bytes.slice(at + 4, at + 8));
+    const chunk: DissectedField[] = [
+      uintField('Length', bytes, at, 4, false),
+      { name: 'Type', offset: at + 4, length: 4, value: type },
+    ];
+    if (type === 'IHDR' && length >= 13) {
+      const d = at + 8;
+      summary = `${readNumber(bytes, d, 4, false)}×${readNumber(bytes, d + 4, 4, false)}`;
+      chunk.push(
+        uintField('Width', bytes, d, 4, false),
+        uintField('Height', bytes, d + 4, 4, false),
+        uintField('Bit Depth', bytes, d + 8, 1, false),
+        uintField('Color Type', bytes, d + 9, 1, false, PNG_COLOR_TYPES),
+        uintField('Compression', bytes, d + 10, 1, false),
+        uintField('Filter', bytes, d + 11, 1, false),
+        uintField('Interlace', bytes, d + 12, 1, false, { 0: 'None', 1: 'Adam7' }),
+      );
+    } else if (length > 0) {
+      chunk.push(bytesField('Data', bytes, at + 8, length));
+    }
+    chunk.push(at + 12 + length <= bytes.length ? hexField('CRC', bytes, at + 8 + length, 4) : bytesField('CRC', bytes, at + 8 + length, 4));
+    children.push({ name: `Chunk ${type}`, offset: at, length: Math.min(12 + length, bytes.length - at), value: t('common.bytes', { count: length }), children: chunk });
+    at += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return { layer: layerRoot('PNG', offset, Math.min(at, bytes.length) - offset, false, summary, children) };
+};
+
+// --- BMP ---
+
+const DIB_HEADERS: Record<number, string> = {
+  12: 'BITMAPCOREHEADER', 40: 'BITMAPINFOHEADER', 52: 'BITMAPV2INFOHEADER', 56: 'BITMAPV3INFOHEADER',
+  108: 'BITMAPV4HEADER', 124: 'BITMAPV5HEADER',
+};
+const BMP_COMPRESSION: Record<number, string> = {
+  0: 'BI_RGB', 1: 'BI_RLE8', 2: 'BI_RLE4', 3: 'BI_BITFIELDS', 4: 'BI_JPEG', 5: 'BI_PNG', 6: 'BI_ALPHABITFIELDS',
+};
+
+const dissectBmp = (bytes: number[], offset: number): LayerResult => {
+  const u = (name: string, at: number, size: number, names?: Record<number, string>) => uintField(name, bytes, offset + at, size, true, names);
+  const i32 = (name: string, at: number) => intField(name, bytes, offset + at, 4, true);
+  const fileHeader: DissectedField = {
+    name: 'BITMAPFILEHEADER',
+    offset,
+    length: 14,
+    value: '',
+    children: [
+      { name: 'bfType', offset, length: 2, value: `"${asciiOf(bytes.slice(offset, offset + 2))}"` },
+      u('bfSize', 2, 4),
+      u('bfReserved1', 6, 2),
+      u('bfReserved2', 8, 2),
+      u('bfOffBits', 10, 4),
+    ],
+  };
+  const dibSize = readNumber(bytes, offset + 14, 4, true);
+  // Only BITMAPCOREHEADER is shorter than the 40 bytes of BITMAPINFOHEADER that every later version starts with
+  if (dibSize !== 12 && bytes.length - offset < 54) {
+    const note = t('dissect.truncated', { have: bytes.length - offset, need: 14 + Math.max(dibSize, 40) });
+    return { layer: layerRoot('BMP', offset, 14, true, note, [fileHeader]) };
+  }
+  let dib: DissectedField[];
+  let summary = '';
+  if (dibSize === 12) {
+    summary = `${readNumber(bytes, offset + 18, 2, true)}×${readNumber(bytes, offset + 20, 2, true)}`;
+    dib = [u('bcSize', 14, 4, DIB_HEADERS), u('bcWidth', 18, 2), u('bcHeight', 20, 2), u('bcPlanes', 22, 2), u('bcBitCount', 24, 2)];
+  } else {
+    const height = Number(BigInt.asIntN(32, readUint(bytes, offset + 22, 4, true)));
+    summary = `${readNumber(bytes, offset + 18, 4, true)}×${Math.abs(height)} ${readNumber(bytes, offset + 28, 2, true)} bpp`;
+    dib = [
+      u('biSize', 14, 4, DIB_HEADERS),
+      i32('biWidth', 18),
+      { ...i32('biHeight', 22), value: `${height} ${height < 0 ? '(top-down)' : '(bottom-up)'}` },
+      u('biPlanes', 26, 2),
+      u('biBitCount', 28, 2),
+      u('biCompression', 30, 4, BMP_COMPRESSION),
+      u('biSizeImage', 34, 4),
+      i32('biXPelsPerMeter', 38),
+      i32('biYPelsPerMeter', 42),
+      u('biClrUsed', 46, 4),
+      u('biClrImportant', 50, 4),
+    ];
+    // V2 to V5 add masks, colour space and ICC profile fields after these; they are shown as raw bytes
+    if (dibSize > 40) dib.push(bytesField('Extended fields', bytes, offset + 54, dibSize - 40));
+  }
+  const dibLength = dib.reduce((end, field) => Math.max(end, field.offset + field.length), 0) - (offset + 14);
+  const dibHeader: DissectedField = { name: DIB_HEADERS[dibSize] ?? 'DIB header', offset: offset + 14, length: dibLength, value: '', children: dib };
+  return { layer: layerRoot('BMP', offset, 14 + dibHeader.length, true, summary, [fileHeader, dibHeader]) };
+};
+
+// --- Registry ---
+
+export const DISSECTORS: Dissector[] = [
+  { id: 'ethernet', label: 'Ethernet', minLength: 14, dissect: dissectEthernet },
+  { id: 'ipv4', label: 'IPv4', minLength: 20, dissect: dissectIpv4 },
+  { id: 'ipv6', label: 'IPv6', minLength: 40, dissect: dissectIpv6 },
+  { id: 'tcp', label: 'TCP', minLength: 20, dissect: dissectTcp },
+  { id: 'udp', label: 'UDP', minLength: 8, dissect: dissectUdp },
+  { id: 'elf64', label: 'ELF64', minLength: 16, dissect: dissectElf },
+  { id: 'png', label: 'PNG', minLength: 8, dissect: dissectPng },
+  // File header and the smallest DIB header (BITMAPCOREHEADER); longer DIB headers are checked by the dissector
+  { id: 'bmp', label: 'BMP', minLength: 26, dissect: dissectBmp },
+];
+
+const startsWith = (bytes: number[], offset: number, prefix: number[]) => prefix.every((b, i) => bytes[offset + i] === b);
+
+// File magics first; the packet headers have no magic, so they are guessed from their version and type fields
+export const detectFormat = (bytes: number[], offset: number): DissectorId | null => {
+  if (startsWith(bytes, offset, PNG_SIGNATURE)) return 'png';
+  if (startsWith(bytes, offset, [0x7F, 0x45, 0x4C, 0x46])) return 'elf64';
+  if (startsWith(bytes, offset, [0x42, 0x4D]) && DIB_HEADERS[readNumber(bytes, offset + 14, 4, true)]) return 'bmp';
+  const etherType = readNumber(bytes, offset + 12, 2, false);
+  if (bytes.length - offset >= 14 && (ETHER_TYPES[etherType] || etherType === 0x8100)) return 'ethernet';
+  const version = bytes[offset] >> 4;
+  if (version === 4 && (bytes[offset] & 0x0F) >= 5) return 'ipv4';
+  if (version === 6 && bytes.length - offset >= 40) return 'ipv6';
+  return null;
+};
+
+export const dissect = (bytes: number[], offset: number, id: DissectorId | 'auto'): Dissection => {
+  const first = id === 'auto' ? detectFormat(bytes, offset) : id;
+  if (!first) return { layers: [], error: t('dissect.error.unknown') };
+
+  const layers: DissectedField[] = [];
+  let next: LayerResult['next'] = { id: first, offset };
+  while (next) {
+    const { id: layerId, offset: at } = next;
+    const dissector: Dissector = DISSECTORS.find(d => d.id === layerId)!;
+    if (bytes.length - at < dissector.minLength) {
+      const error = t('dissect.error.short', { format: dissector.label, need: dissector.minLength, have: Math.max(0, bytes.length - at) });
+      return { layers, error };
+    }
+    const result: LayerResult = dissector.dissect(bytes, at);
+    layers.push(result.layer);
+    next = result.next;
+  }
+  return { layers, error: null };
+};
+
+// The bits a field covers, as a mask per byte address (bit 0 = LSB of the byte)
+export const fieldBitMasks = (field: DissectedField): Map<number, number> => {
+  const masks = new Map<number, number>();
+  if (!field.bits) {
+    for (let i = 0; i < field.length; i++) masks.set(field.offset + i, 0xFF);
+    return masks;
+  }
+  for (let k = field.bits.from; k < field.bits.from + field.bits.count; k++) {
+    const address = field.offset + Math.floor(k / 8);
+    masks.set(address, (masks.get(address) ?? 0) | (1 << (7 - (k % 8))));
+  }
+  return masks;
+};
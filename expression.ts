@@ -0,0 +1,237 @@
+import { parseInput } from './utils';
+import { t } from './i18n';
+
+// --- C-like integer expressions over BigInt ---
+// Every intermediate value wraps to the selected width and signedness, as it would in a
+// C register of that type. `x` stands for the current input value.
+
+export type BinaryOp = '|' | '^' | '&' | '<<' | '>>' | '>>>' | '+' | '-' | '*' | '/' | '%';
+export type UnaryOp = '~' | '-' | '+';
+
+type Expr =
+  | { kind: 'num'; value: bigint; start: number; end: number }
+  | { kind: 'var'; start: number; end: number }
+  | { kind: 'unary'; op: UnaryOp; arg: Expr; start: number; end: number }
+  | { kind: 'binary'; op: BinaryOp; left: Expr; right: Expr; opPos: number; start: number; end: number };
+
+export interface EvalStep {
+  // Source text of the sub-expression this step computes
+  text: string;
+  op: BinaryOp | UnaryOp;
+  operands: { text: string; value: bigint }[];
+  result: bigint;
+}
+
+export interface EvalResult {
+  value: bigint | null;
+  steps: EvalStep[];
+  error: string | null;
+  errorPos: number | null;
+}
+
+export interface EvalOptions {
+  width: number;
+  signed: boolean;
+  x: bigint;
+}
+
+const PRECEDENCE: Record<BinaryOp, number> = {
+  '|': 1, '^': 2, '&': 3,
+  '<<': 4, '>>': 4, '>>>': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+// Parentheses, unary operators and operator chains all recurse; past this the stack would overflow
+const MAX_DEPTH = 1000;
+
+class ExprError extends Error {
+  constructor(message: string, public pos: number) {
+    super(message);
+  }
+}
+
+type Token =
+  | { type: 'num'; text: string; pos: number }
+  | { type: 'var'; text: string; pos: number }
+  | { type: 'op'; text: string; pos: number }
+  | { type: 'paren'; text: '(' | ')'; pos: number }
+  | { type: 'end'; text: ''; pos: number };
+
+const NUMBER = /^(0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|[0-9][0-9_]*)/;
+const OPERATORS = ['>>>', '<<', '>>', '|', '^', '&', '+', '-', '*', '/', '%', '~'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < source.length) {
+    const c = source[pos];
+    if (/\s/.test(c)) {
+      pos++;
+      continue;
+    }
+    const rest = source.slice(pos);
+    const num = rest.match(NUMBER);
+    if (num) {
+      if (/^[A-Za-z0-9_]/.test(rest.slice(num[0].length))) {
+        throw new ExprError(t('expr.badNumberChar', { char: rest[num[0].length] }), pos + num[0].length);
+      }
+      tokens.push({ type: 'num', text: num[0], pos });
+      pos += num[0].length;
+      continue;
+    }
+    if ((c === 'x' || c === 'X') && !/^[A-Za-z0-9_]/.test(rest.slice(1))) {
+      tokens.push({ type: 'var', text: c, pos });
+      pos++;
+      continue;
+    }
+    if (c === '(' || c === ')') {
+      tokens.push({ type: 'paren', text: c, pos });
+      pos++;
+      continue;
+    }
+    const op = OPERATORS.find(o => rest.startsWith(o));
+    if (op) {
+      tokens.push({ type: 'op', text: op, pos });
+      pos += op.length;
+      continue;
+    }
+    throw new ExprError(t('expr.badChar', { char: c }), pos);
+  }
+  tokens.push({ type: 'end', text: '', pos: source.length });
+  return tokens;
+};
+
+// Precedence climbing over the C operator table
+const parse = (tokens: Token[]): Expr => {
+  let i = 0;
+  let depth = 0;
+  const peek = () => tokens[i];
+
+  const nest = (pos: number) => {
+    if (++depth > MAX_DEPTH) throw new ExprError(t('expr.tooDeep', { max: MAX_DEPTH }), pos);
+  };
+
+  const parsePrimary = (): Expr => {
+    const tok = tokens[i++];
+    if (tok.type === 'num') {
+      const parsed = parseInput(tok.text, 'auto');
+      if (parsed.error) throw new ExprError(parsed.error, tok.pos + (parsed.errorPos ?? 0));
+      return { kind: 'num', value: parsed.value, start: tok.pos, end: tok.pos + tok.text.length };
+    }
+    if (tok.type === 'var') {
+      return { kind: 'var', start: tok.pos, end: tok.pos + 1 };
+    }
+    if (tok.type === 'op' && (tok.text === '~' || tok.text === '-' || tok.text === '+')) {
+      nest(tok.pos);
+      const arg = parsePrimary();
+      depth--;
+      return { kind: 'unary', op: tok.text, arg, start: tok.pos, end: arg.end };
+    }
+    if (tok.type === 'paren' && tok.text === '(') {
+      nest(tok.pos);
+      const inner = parseBinary(0);
+      depth--;
+      const close = tokens[i++];
+      if (close.type !== 'paren' || close.text !== ')') {
+        throw new ExprError(t('expr.missingParen'), close.pos);
+      }
+      return { ...inner, start: tok.pos, end: close.pos + 1 };
+    }
+    if (tok.type === 'end') throw new ExprError(t('expr.unexpectedEnd'), tok.pos);
+    throw new ExprError(t('expr.unexpectedToken', { token: tok.text }), tok.pos);
+  };
+
+  const parseBinary = (minPrec: number): Expr => {
+    let left = parsePrimary();
+    for (;;) {
+      const tok = peek();
+      if (tok.type !== 'op' || !(tok.text in PRECEDENCE)) break;
+      const op = tok.text as BinaryOp;
+      const prec = PRECEDENCE[op];
+      if (prec <= minPrec) break;
+      i++;
+      const right = parseBinary(prec);
+      left = { kind: 'binary', op, left, right, opPos: tok.pos, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const expr = parseBinary(0);
+  const trailing = peek();
+  if (trailing.type !== 'end') {
+    throw new ExprError(t('expr.missingOperator', { token: trailing.text }), trailing.pos);
+  }
+  return expr;
+};
+
+export const evaluateExpression = (source: string, { width, signed, x }: EvalOptions): EvalResult => {
+  const norm = (v: bigint) => (signed ? BigInt.asIntN(width, v) : BigInt.asUintN(width, v));
+  const unsigned = (v: bigint) => BigInt.asUintN(width, v);
+  const steps: EvalStep[] = [];
+  const text = (e: Expr) => source.slice(e.start, e.end).trim();
+
+  // Long operator chains such as 1+1+1+... nest on the left without any parentheses
+  const evaluate = (e: Expr, depth = 0): bigint => {
+    if (depth > MAX_DEPTH) throw new ExprError(t('expr.tooDeep', { max: MAX_DEPTH }), e.start);
+    switch (e.kind) {
+      case 'num': return norm(e.value);
+      case 'var': return norm(x);
+      case 'unary': {
+        const a = evaluate(e.arg, depth + 1);
+        const result = norm(e.op === '~' ? ~a : e.op === '-' ? -a : a);
+        // A negated literal is just a negative number, not a step worth showing
+        const isLiteral = e.op === '-' && e.arg.kind === 'num';
+        if (e.op !== '+' && !isLiteral) steps.push({ text: text(e), op: e.op, operands: [{ text: text(e.arg), value: a }], result });
+        return result;
+      }
+      case 'binary': {
+        const l = evaluate(e.left, depth + 1);
+        const r = evaluate(e.right, depth + 1);
+        // Shift counts past the width are undefined in C; here they shift everything out
+        const n = Number(unsigned(r));
+        let result: bigint;
+        switch (e.op) {
+          case '|': result = l | r; break;
+          case '^': result = l ^ r; break;
+          case '&': result = l & r; break;
+          case '+': result = l + r; break;
+          case '-': result = l - r; break;
+          case '*': result = l * r; break;
+          case '/':
+          case '%':
+            if (r === 0n) throw new ExprError(t('expr.divideByZero'), e.opPos);
+            // BigInt division truncates toward zero, as C does
+            result = e.op === '/' ? l / r : l % r;
+            break;
+          case '<<': result = n >= width ? 0n : l << BigInt(n); break;
+          case '>>':
+            // Arithmetic for signed values, logical for unsigned, like C on common compilers
+            result = n >= width ? (l < 0n ? -1n : 0n) : l >> BigInt(n);
+            break;
+          case '>>>': result = n >= width ? 0n : unsigned(l) >> BigInt(n); break;
+        }
+        result = norm(result);
+        steps.push({
+          text: text(e),
+          op: e.op,
+          operands: [{ text: text(e.left), value: l }, { text: text(e.right), value: r }],
+          result,
+        });
+        return result;
+      }
+    }
+  };
+
+  if (!source.trim()) return { value: null, steps: [], error: null, errorPos: null };
+
+  try {
+    const value = evaluate(parse(tokenize(source)));
+    return { value, steps, error: null, errorPos: null };
+  } catch (err) {
+    if (err instanceof ExprError) {
+      return { value: null, steps: [], error: err.message, errorPos: err.pos };
+    }
+    throw err;
+  }
+};
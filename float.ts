@@ -0,0 +1,163 @@
+// IEEE 754 style binary floating point, decoded from raw bit patterns with BigInt
+// so that any field layout (binary16, bfloat16, fp8, ...) can share the same code.
+
+export interface FloatFormat {
+  id: string;
+  label: string;
+  exponentBits: number;
+  mantissaBits: number;
+}
+
+export const FLOAT32: FloatFormat = { id: 'float32', label: 'Float32 (binary32)', exponentBits: 8, mantissaBits: 23 };
+export const FLOAT64: FloatFormat = { id: 'float64', label: 'Float64 (binary64)', exponentBits: 11, mantissaBits: 52 };
+export const FLOAT16: FloatFormat = { id: 'float16', label: 'Float16 (binary16)', exponentBits: 5, mantissaBits: 10 };
+export const BFLOAT16: FloatFormat = { id: 'bfloat16', label: 'BFloat16', exponentBits: 8, mantissaBits: 7 };
+// TF32 is stored as a float32 whose low 13 mantissa bits are ignored
+export const TF32: FloatFormat = { id: 'tf32', label: 'TF32', exponentBits: 8, mantissaBits: 10 };
+// OCP 8-bit formats. E4M3 deviates from IEEE 754 (no infinities), see numericTypes.ts
+export const FP8_E5M2: FloatFormat = { id: 'fp8e5m2', label: 'FP8 E5M2', exponentBits: 5, mantissaBits: 2 };
+export const FP8_E4M3: FloatFormat = { id: 'fp8e4m3', label: 'FP8 E4M3', exponentBits: 4, mantissaBits: 3 };
+
+export type FloatClass = 'zero' | 'subnormal' | 'normal' | 'infinity' | 'qnan' | 'snan';
+
+export type FloatField = 'sign' | 'exponent' | 'mantissa';
+
+export interface FloatDecomposition {
+  bits: bigint;
+  sign: 0 | 1;
+  biasedExponent: number;
+  bias: number;
+  // Exponent actually applied, or null for ±Inf and NaN
+  unbiasedExponent: number | null;
+  fraction: bigint;
+  // Integer significand including the hidden bit, so |value| = significand * 2^scale
+  significand: bigint;
+  scale: number;
+  classification: FloatClass;
+  // NaN payload without the quiet bit
+  payload: bigint | null;
+}
+
+export const getTotalBits = (fmt: FloatFormat) => 1 + fmt.exponentBits + fmt.mantissaBits;
+
+export const getBias = (fmt: FloatFormat) => (1 << (fmt.exponentBits - 1)) - 1;
+
+// Bit 0 is the LSB of the mantissa, the top bit is the sign
+export const getFloatField = (bit: number, fmt: FloatFormat): FloatField => {
+  if (bit >= fmt.exponentBits + fmt.mantissaBits) return 'sign';
+  if (bit >= fmt.mantissaBits) return 'exponent';
+  return 'mantissa';
+};
+
+export const decomposeFloat = (bits: bigint, fmt: FloatFormat): FloatDecomposition => {
+  const mantBits = BigInt(fmt.mantissaBits);
+  const expMax = (1 << fmt.exponentBits) - 1;
+  const bias = getBias(fmt);
+
+  const sign = Number((bits >> BigInt(fmt.exponentBits + fmt.mantissaBits)) & 1n) as 0 | 1;
+  const biasedExponent = Number((bits >> mantBits) & BigInt(expMax));
+  const fraction = bits & ((1n << mantBits) - 1n);
+
+  const base = { bits, sign, biasedExponent, bias, fraction, payload: null };
+
+  if (biasedExponent === expMax) {
+    if (fraction === 0n) {
+      return { ...base, unbiasedExponent: null, significand: 0n, scale: 0, classification: 'infinity' };
+    }
+    const quietBit = 1n << (mantBits - 1n);
+    return {
+      ...base,
+      unbiasedExponent: null,
+      significand: 0n,
+      scale: 0,
+      classification: fraction & quietBit ? 'qnan' : 'snan',
+      payload: fraction & (quietBit - 1n),
+    };
+  }
+
+  if (biasedExponent === 0) {
+    // Subnormals share the smallest normal exponent but have no hidden bit
+    const unbiasedExponent = 1 - bias;
+    return {
+      ...base,
+      unbiasedExponent,
+      significand: fraction,
+      scale: unbiasedExponent - fmt.mantissaBits,
+      classification: fraction === 0n ? 'zero' : 'subnormal',
+    };
+  }
+
+  const unbiasedExponent = biasedExponent - bias;
+  return {
+    ...base,
+    unbiasedExponent,
+    significand: (1n << mantBits) | fraction,
+    scale: unbiasedExponent - fmt.mantissaBits,
+    classification: 'normal',
+  };
+};
+
+// Exact decimal expansion of significand * 2^scale. Every binary fraction terminates in decimal.
+export const exactDecimal = (significand: bigint, scale: number, negative: boolean = false): string => {
+  const signStr = negative ? '-' : '';
+  if (scale >= 0) return signStr + (significand << BigInt(scale)).toString();
+
+  const n = -scale;
+  // significand / 2^n == significand * 5^n / 10^n
+  const digits = (significand * 5n ** BigInt(n)).toString().padStart(n + 1, '0');
+  const intPart = digits.slice(0, digits.length - n);
+  const fracPart = digits.slice(digits.length - n).replace(/0+$/, '');
+  return signStr + intPart + (fracPart ? `.${fracPart}` : '');
+};
+
+export const floatToNumber = (d: FloatDecomposition): number => {
+  switch (d.classification) {
+    case 'infinity': return d.sign ? -Infinity : Infinity;
+    case 'qnan':
+    case 'snan': return NaN;
+    case 'zero': return d.sign ? -0 : 0;
+    default: {
+      const magnitude = Number(d.significand) * 2 ** d.scale;
+      return d.sign ? -magnitude : magnitude;
+    }
+  }
+};
+
+// Shortest decimal that reads back to the same value in the given format
+export const formatFloat = (value: number, fmt: FloatFormat): string => {
+  if (!Number.isFinite(value)) return String(value);
+  if (Object.is(value, -0)) return '-0';
+  if (fmt.id === FLOAT64.id) return String(value);
+  if (fmt.id === FLOAT32.id) {
+    for (let p = 1; p <= 9; p++) {
+      const candidate = value.toPrecision(p);
+      if (Math.fround(Number(candidate)) === value) return String(Number(candidate));
+    }
+  }
+  const digits = Math.ceil((fmt.mantissaBits + 1) * Math.log10(2)) + 1;
+  return String(Number(value.toPrecision(digits)));
+};
+
+// Bit pattern of the adjacent representable value towards +Inf (1) or -Inf (-1)
+export const nextFloatBits = (bits: bigint, fmt: FloatFormat, direction: 1 | -1): bigint | null => {
+  const d = decomposeFloat(bits, fmt);
+  if (d.classification === 'qnan' || d.classification === 'snan') return null;
+
+  const signBit = 1n << BigInt(getTotalBits(fmt) - 1);
+  if (d.classification === 'zero') {
+    // Both zeros step to the smallest subnormal of the requested sign
+    return direction === 1 ? 1n : signBit | 1n;
+  }
+
+  const awayFromZero = (d.sign === 0) === (direction === 1);
+  if (awayFromZero) {
+    return d.classification === 'infinity' ? null : bits + 1n;
+  }
+  return bits - 1n;
+};
+
+// Unit in the last place, as a power of two, or null for Inf/NaN
+export const getUlpExponent = (d: FloatDecomposition): number | null => {
+  if (d.unbiasedExponent === null) return null;
+  return d.scale;
+};
@@ -0,0 +1,229 @@
+import { t } from './i18n';
+
+// --- Byte buffers from pasted dumps ---
+// Each format is recognised from its shape; the bytes are taken as-is, in address order.
+
+export type DumpFormat = 'xxd' | 'hexdump' | 'wireshark' | 'c-array' | 'base64' | 'hex' | 'file';
+
+export const DUMP_FORMAT_LABELS: Record<DumpFormat, string> = {
+  xxd: 'xxd',
+  hexdump: 'hexdump -C',
+  get wireshark() { return t('dump.format.wireshark'); },
+  get 'c-array'() { return t('dump.format.cArray'); },
+  base64: 'Base64',
+  get hex() { return t('dump.format.hex'); },
+  get file() { return t('dump.format.file'); },
+};
+
+export interface DumpParseResult {
+  bytes: number[];
+  format: DumpFormat | null;
+  // Address of the first byte, taken from the dump's offset column
+  baseAddress: number;
+  error: string | null;
+  errorPos: number | null;
+}
+
+const ok = (bytes: number[], format: DumpFormat, baseAddress: number = 0): DumpParseResult => ({
+  bytes, format, baseAddress, error: null, errorPos: null,
+});
+
+const fail = (error: string, errorPos: number): DumpParseResult => ({
+  bytes: [], format: null, baseAddress: 0, error, errorPos,
+});
+
+// `{ 0x12, 0x34, 'A', 255 }`, with or without the declaration around it
+const parseCArray = (text: string): DumpParseResult => {
+  const open = text.indexOf('{');
+  const close = text.lastIndexOf('}');
+  const start = open >= 0 ? open + 1 : 0;
+  const end = close > open ? close : text.length;
+  const bytes: number[] = [];
+  let pos = start;
+  for (const part of text.slice(start, end).split(',')) {
+    const token = part.trim();
+    const tokenPos = pos + part.indexOf(token);
+    pos += part.length + 1;
+    if (!token) continue;
+    let value: number;
+    const char = token.match(/^'(\\x[0-9a-fA-F]{1,2}|\\[0nrt\\']|.)'$/);
+    if (char) {
+      const c = char[1];
+      value = c.startsWith('\\x') ? parseInt(c.slice(2), 16)
+        : c.length === 2 ? ({ '0': 0, n: 10, r: 13, t: 9, '\\': 92, "'": 39 } as Record<string, number>)[c[1]]
+        : c.charCodeAt(0);
+    } else if (/^0[xX][0-9a-fA-F]+[uU]?$/.test(token)) {
+      value = parseInt(token.slice(2), 16);
+    } else if (/^0[bB][01]+[uU]?$/.test(token)) {
+      value = parseInt(token.slice(2), 2);
+    } else if (/^0[0-7]+[uU]?$/.test(token)) {
+      value = parseInt(token, 8);
+    } else if (/^\d+[uU]?$/.test(token)) {
+      value = parseInt(token, 10);
+    } else {
+      return fail(t('dump.error.badByte', { token }), tokenPos);
+    }
+    if (value > 0xFF) return fail(t('dump.error.byteRange', { token }), tokenPos);
+    bytes.push(value);
+  }
+  return ok(bytes, 'c-array');
+};
+
+interface DumpLine {
+  address: number;
+  // Hex columns as written, with their column position in the line
+  tokens: { text: string; column: number }[];
+  lineStart: number;
+  repeat: boolean;
+}
+
+const DUMP_LINE = /^([0-9a-fA-F]{4,16})(:?)(\s*)(.*)$/;
+
+type OffsetDumpFormat = 'xxd' | 'hexdump' | 'wireshark';
+
+const TEXT_GAP: Record<OffsetDumpFormat, number> = { xxd: 2, wireshark: 3, hexdump: Infinity };
+
+// xxd, hexdump and Wireshark all print 16 bytes per line unless told otherwise
+const DEFAULT_PER_LINE = 16;
+
+// Offset-prefixed dumps: xxd, hexdump -C and Wireshark differ only in separators and the text column
+const parseOffsetDump = (text: string, format: OffsetDumpFormat): DumpParseResult => {
+  const lines: DumpLine[] = [];
+  let lineStart = 0;
+  for (const raw of text.split('\n')) {
+    const start = lineStart;
+    lineStart += raw.length + 1;
+    const line = raw.replace(/\r$/, '');
+    if (!line.trim()) continue;
+    // hexdump -C marks runs of identical lines with a lone '*'
+    if (line.trim() === '*') {
+      lines.push({ address: -1, tokens: [], lineStart: start, repeat: true });
+      continue;
+    }
+    const m = line.match(DUMP_LINE);
+    if (!m) return fail(t('dump.error.noOffset'), start);
+    const [, addr, colon, gap, rest] = m;
+    const restColumn = addr.length + colon.length + gap.length;
+    // The text column is cut off where it is delimited; otherwise it is excluded below by position
+    const body = format === 'hexdump' ? rest.replace(/\|.*$/, '') : rest;
+    const tokens: DumpLine['tokens'] = [];
+    const tokenPattern = /\S+/g;
+    let match: RegExpExecArray | null;
+    let prevEnd = -1;
+    while ((match = tokenPattern.exec(body))) {
+      if (!/^([0-9a-fA-F]{2})+$/.test(match[0])) break;
+      // A wide gap is the padding before the text column (xxd: 2 spaces, Wireshark: 3)
+      if (prevEnd >= 0 && match.index - prevEnd >= TEXT_GAP[format]) break;
+      tokens.push({ text: match[0], column: restColumn + match.index });
+      prevEnd = match.index + match[0].length;
+    }
+    lines.push({ address: parseInt(addr, 16), tokens, lineStart: start, repeat: false });
+  }
+
+  const data = lines.filter(l => !l.repeat);
+  if (!data.length) return fail(t('dump.error.noData'), 0);
+
+  // Where the text column starts, judged from the first full line; on short lines it can look like hex
+  const firstIndex = lines.findIndex((l, i) => !l.repeat && l.tokens.length && lines[i + 1] && !lines[i + 1].repeat);
+  const first = firstIndex >= 0 ? lines[firstIndex] : null;
+  const perLine = first ? lines[firstIndex + 1].address - first.address : DEFAULT_PER_LINE;
+  let textColumn = Infinity;
+  if (first && perLine > 0) {
+    let count = 0;
+    for (const tok of first.tokens) {
+      count += tok.text.length / 2;
+      if (count >= perLine) {
+        textColumn = tok.column + tok.text.length + 1;
+        break;
+      }
+    }
+  }
+
+  const base = data[0].address;
+  const bytes: number[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.repeat) {
+      // Repeat the previous line until the next listed address
+      const prev = lines[i - 1];
+      const next = lines.slice(i + 1).find(l => !l.repeat);
+      if (!prev || prev.repeat || !next) return fail(t('dump.error.badRepeat'), line.lineStart);
+      const prevBytes = bytes.slice(prev.address - base);
+      while (base + bytes.length < next.address && prevBytes.length) bytes.push(...prevBytes.slice(0, next.address - base - bytes.length));
+      continue;
+    }
+    if (line.address - base !== bytes.length) {
+      if (line.address - base < bytes.length || line.tokens.length) {
+        return fail(t('dump.error.gap', { address: line.address.toString(16) }), line.lineStart);
+      }
+    }
+    let count = 0;
+    for (const tok of line.tokens) {
+      if (tok.column >= textColumn || (perLine > 0 && count >= perLine)) break;
+      for (let k = 0; k < tok.text.length; k += 2) bytes.push(parseInt(tok.text.slice(k, k + 2), 16));
+      count += tok.text.length / 2;
+    }
+  }
+  return ok(bytes, format, base);
+};
+
+// "48 65 6C", "48:65:6c", "0x48 0x65", "48656c"
+const parseHexStream = (text: string): DumpParseResult => {
+  const cleaned = text.replace(/0[xX]/g, '  ');
+  const bad = cleaned.search(/[^0-9a-fA-F\s:.,-]/);
+  if (bad >= 0) return fail(t('dump.error.notHex', { char: text[bad] }), bad);
+  const groups = cleaned.split(/[\s:.,-]+/).filter(Boolean);
+  const bytes: number[] = [];
+  let pos = 0;
+  for (const g of groups) {
+    pos = cleaned.indexOf(g, pos);
+    // A single digit on its own is a byte ("1 2 3"), inside a stream it would be half of one
+    const digits = g.length === 1 && groups.length > 1 ? `0${g}` : g;
+    if (digits.length % 2) return fail(t('dump.error.oddDigits'), pos + g.length - 1);
+    for (let k = 0; k < digits.length; k += 2) bytes.push(parseInt(digits.slice(k, k + 2), 16));
+    pos += g.length;
+  }
+  return ok(bytes, 'hex');
+};
+
+const parseBase64 = (text: string): DumpParseResult => {
+  const compact = text.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  const padded = compact + '='.repeat((4 - (compact.length % 4)) % 4);
+  try {
+    const binary = atob(padded);
+    return ok(Array.from(binary, c => c.charCodeAt(0)), 'base64');
+  } catch {
+    return fail(t('dump.error.badBase64'), 0);
+  }
+};
+
+export const parseHexDump = (text: string): DumpParseResult => {
+  if (!text.trim()) return { bytes: [], format: null, baseAddress: 0, error: null, errorPos: null };
+
+  if (text.includes('{') || /0[xX][0-9a-fA-F]{1,2}\s*,/.test(text)) return parseCArray(text);
+
+  const lines = text.split('\n').filter(l => l.trim());
+  if (lines.some(l => /^[0-9a-fA-F]{4,16}:\s/.test(l))) return parseOffsetDump(text, 'xxd');
+  if (lines.some(l => /^[0-9a-fA-F]{4,16}\s+([0-9a-fA-F]{2}\s+)*[0-9a-fA-F]{2}\s+\|.*\|\s*$/.test(l))) return parseOffsetDump(text, 'hexdump');
+  const wiresharkLine = /^[0-9a-fA-F]{4,8}\s{2,}[0-9a-fA-F]{2}(\s|$)/;
+  if (lines.some(l => wiresharkLine.test(l)) && lines.every(l => wiresharkLine.test(l) || /^[0-9a-fA-F]{4,8}\s*$/.test(l))) {
+    return parseOffsetDump(text, 'wireshark');
+  }
+
+  // Hex is tried first: "deadbeef" is valid Base64 too, but nobody pastes that meaning Base64
+  if (/^[0-9a-fA-FxX\s:.,-]*$/.test(text)) return parseHexStream(text);
+  // Base64 is wrapped into lines but never has spaces inside one
+  if (lines.every(l => /^[A-Za-z0-9+/=_-]+$/.test(l.trim()))) return parseBase64(text);
+  return parseHexStream(text);
+};
+
+// The buffer mode's contents; edits change `bytes` in place of re-parsing the dump
+export interface ByteBuffer {
+  bytes: number[];
+  format: DumpFormat | null;
+  baseAddress: number;
+  // Set when the bytes came from a dropped or opened file
+  fileName: string | null;
+  // Set once the bytes have been edited in place (see bufferEdits.ts)
+  revision?: number;
+}
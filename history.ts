@@ -0,0 +1,71 @@
+// --- Undo / redo ---
+// A plain past/present/future stack of state objects. Entries are compared field by field, so pushing
+// something equal to the present is a no-op and neighbouring entries always differ.
+
+export interface History<T extends object> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+// Oldest entries are dropped past this many
+export const HISTORY_LIMIT = 100;
+
+// ...or once the byte arrays they hold take more memory than this. Entries that share an array
+// (edits patch it in place) count it once, so only separately loaded buffers use up the budget.
+export const HISTORY_BYTE_BUDGET = 64 * 1024 * 1024;
+
+// Each element of a number[] takes a pointer-sized slot
+const BYTES_PER_ELEMENT = 8;
+
+// The large byte array an entry holds, if any
+export type HistoryPayload<T> = (entry: T) => ArrayLike<number> | null;
+
+// Keeps the newest `past` entries whose arrays, together with the present's, fit in the budget
+const trimToBudget = <T>(past: T[], present: T, payload: HistoryPayload<T>) => {
+  const seen = new Set([payload(present)]);
+  let total = (payload(present)?.length ?? 0) * BYTES_PER_ELEMENT;
+  for (let i = past.length - 1; i >= 0; i--) {
+    const bytes = payload(past[i]);
+    if (seen.has(bytes)) continue;
+    seen.add(bytes);
+    total += (bytes?.length ?? 0) * BYTES_PER_ELEMENT;
+    if (total > HISTORY_BYTE_BUDGET) return past.slice(i + 1);
+  }
+  return past;
+};
+
+const shallowEqual = <T extends object>(a: T, b: T) => {
+  const keys = Object.keys(a) as (keyof T)[];
+  return keys.length === Object.keys(b).length && keys.every(key => Object.is(a[key], b[key]));
+};
+
+export const createHistory = <T extends object>(present: T): History<T> => ({ past: [], present, future: [] });
+
+// True while `state` has not been pushed yet, e.g. during a debounce
+export const isPending = <T extends object>(history: History<T>, state: T) => !shallowEqual(state, history.present);
+
+// A new entry clears the redo side, as in any editor
+export const pushHistory = <T extends object>(history: History<T>, next: T, payload?: HistoryPayload<T>): History<T> => {
+  if (shallowEqual(next, history.present)) return history;
+  const past = [...history.past, history.present].slice(-HISTORY_LIMIT);
+  return { past: payload ? trimToBudget(past, next, payload) : past, present: next, future: [] };
+};
+
+export const undoHistory = <T extends object>(history: History<T>): History<T> => {
+  if (!history.past.length) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redoHistory = <T extends object>(history: History<T>): History<T> => {
+  if (!history.future.length) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
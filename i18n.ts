@@ -0,0 +1,72 @@
+import { useSyncExternalStore } from 'react';
+import { ja } from './locales/ja';
+import { en } from './locales/en';
+
+// --- Message catalogs ---
+// Japanese is the source catalog; every other language must provide the same keys.
+// `t` reads the current language at call time, so anything that caches a translated
+// string (useMemo, parse results) has to list the language among its dependencies.
+// Constant tables expose their text through getters for the same reason.
+
+export type Language = 'ja' | 'en';
+export type MessageKey = keyof typeof ja;
+export type Messages = Record<MessageKey, string>;
+
+export const LANGUAGES: { id: Language; label: string }[] = [
+  { id: 'ja', label: '日本語' },
+  { id: 'en', label: 'English' },
+];
+
+const CATALOGS: Record<Language, Messages> = { ja, en };
+
+const STORAGE_KEY = 'bitwise-visualizer.language';
+
+// A saved choice wins; otherwise Japanese browsers get Japanese and everyone else English
+const detectLanguage = (): Language => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved === 'ja' || saved === 'en') return saved;
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed iframes)
+  }
+  return typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('ja') ? 'ja' : 'en';
+};
+
+let current: Language = detectLanguage();
+const listeners = new Set<() => void>();
+
+export const getLanguage = () => current;
+
+export const setLanguage = (language: Language) => {
+  current = language;
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch {
+    // The choice still applies to this session
+  }
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Re-renders the caller when the language changes
+export const useLanguage = () => useSyncExternalStore(subscribe, getLanguage);
+
+// Looks up `key` and fills `{name}` placeholders from `params`
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const text = CATALOGS[current][key];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+};
+
+// <html lang>, the title and the description follow the UI language
+export const applyDocumentLanguage = () => {
+  document.documentElement.lang = current;
+  document.title = t('meta.title');
+  document.querySelector('meta[name="description"]')?.setAttribute('content', t('meta.description'));
+};
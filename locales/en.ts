@@ -0,0 +1,532 @@
+import { Messages } from '../i18n';
+
+export const en: Messages = {
+  'meta.title': 'BitWise Visualizer | See bits, bytes and endianness',
+  'meta.description': 'A learning tool that shows how numbers are stored in memory, bit by bit, byte by byte and in either byte order.',
+
+  'app.title': 'BitWise Visualizer',
+  'app.subtitle1': 'See how numbers are stored in memory.',
+  'app.subtitle2': 'Learn how bits, bytes and endianness fit together.',
+  'app.help': 'Glossary & guide',
+
+  'common.bytes': '{count} bytes',
+  'common.copied': 'Copied',
+  'common.copy': 'Copy',
+  'common.bit': 'Bit {bit}',
+
+  'sign.signed': 'signed',
+  'sign.unsigned': 'unsigned',
+
+  'help.title': 'Glossary & Guide',
+  'help.close': 'Close',
+  'help.basics.heading': 'Basics',
+  'help.endian.heading': 'Endianness',
+  'help.types.heading': 'Data Types',
+  'help.input.heading': 'Writing Input',
+  'help.basics.bit.term': 'Bit',
+  'help.basics.bit.text': 'The smallest unit of information a computer handles. It is either 0 or 1.',
+  'help.basics.byte.term': 'Byte',
+  'help.basics.byte.text': 'A group of 8 bits. One byte holds a number from 0 to 255.',
+  'help.basics.word.term': 'Word',
+  'help.basics.word.text': 'The amount of data a CPU handles at once. This tool offers 8 to 256-bit presets such as 16-bit (2 bytes), 32-bit (4 bytes) and 64-bit (8 bytes), and also accepts widths that are not a multiple of 8, such as 12-bit.',
+  'help.basics.alignment.term': 'Alignment',
+  'help.basics.alignment.text': 'Placing data at an address that is a multiple of its size. A 4-byte integer at +0, +4, +8 … can be read in one access. A misaligned access that crosses a boundary is slower, or an error on some CPUs.',
+  'help.basics.bitField.term': 'Bit Field',
+  'help.basics.bitField.text': 'A word split into bit ranges, each with its own name and meaning. Common in microcontroller peripheral registers, where a range is written high bit first, as in [11:10].',
+  'help.basics.padding.term': 'Padding',
+  'help.basics.padding.text': 'Unused bytes the compiler inserts so struct members stay aligned. The amount depends on member order and <code>#pragma pack</code>, and it affects the size of the struct.',
+  'help.endian.intro': 'The rule for which byte comes first when a number wider than one byte (say, 10000) is stored in memory.',
+  'help.endian.little.term': 'Little Endian',
+  'help.endian.little.text': 'Stores the <b>low-order byte</b> first. Used by Intel and AMD CPUs (Windows PCs and so on).<br/>Example: <code>0x1234</code> → stored in memory as <code>34 12</code>.',
+  'help.endian.big.term': 'Big Endian',
+  'help.endian.big.text': 'Stores the <b>high-order byte</b> first. Used by network protocols and some older CPUs.<br/>Example: <code>0x1234</code> → stored in memory as <code>12 34</code>.',
+  'help.endian.middle.term': 'Middle Endian (PDP-11)',
+  'help.endian.middle.text': 'Little endian within each 16-bit word, with the <b>high-order word</b> first.<br/>Example: <code>0x0A0B0C0D</code> → stored in memory as <code>0B 0A 0D 0C</code>.',
+  'help.types.signed.term': 'Signed',
+  'help.types.signed.text': 'An integer that can be positive or negative. It is negative when the top bit is 1.',
+  'help.types.twosComplement.term': 'Two\'s Complement',
+  'help.types.twosComplement.text': 'How negative values are represented. Inverting every bit and adding 1 flips the sign. Example: 8-bit <code>-1</code> is <code>0xFF</code>.',
+  'help.types.unsigned.term': 'Unsigned',
+  'help.types.unsigned.text': 'An integer that is zero or positive only, which doubles the largest positive value it can hold.',
+  'help.types.float.term': 'Floating Point',
+  'help.types.float.text': 'A format for fractional numbers. The IEEE 754 standard defines how its bits are used.',
+  'help.input.prefix.term': 'Prefixes',
+  'help.input.prefix.text': '<code>0x</code> (hex), <code>0b</code> (binary), <code>0o</code> or a leading <code>0</code> (octal).',
+  'help.input.separator.term': 'Separators',
+  'help.input.separator.text': 'Group digits with <code>_</code> or spaces, as in <code>0b1010_1100</code>.',
+  'help.input.suffix.term': 'Suffixes',
+  'help.input.suffix.text': 'Name a type the way C (<code>123ULL</code>) or Rust (<code>-0x80i8</code>) does.',
+  'help.input.bytes.term': 'Byte buffers',
+  'help.input.bytes.text': 'Paste an <code>xxd</code>, <code>hexdump -C</code> or Wireshark dump, a C array <code>{ 0x12, 0x34 }</code> or Base64, or drop a file, and its bytes are loaded into memory as they are.',
+
+  'input.title': 'Input',
+  'input.help': 'Enter the number to convert here.\nIn byte buffer mode, hex dumps and file contents are loaded into memory as they are.',
+  'input.mode.value': 'Value',
+  'input.mode.buffer': 'Bytes (dump / file)',
+  'input.typeHelp': 'Choose the type the input is stored as. "Integer (variable length)" uses as many bytes as the value needs.',
+  'input.type': 'Type:',
+  'input.stringPlaceholder': 'Hello, world...',
+  'input.suffix': 'Suffix',
+  'input.noSuffixType': ' (no matching type)',
+  'input.useSuffixType': 'Store as this type',
+  'input.rawBinary': 'Raw binary',
+  'input.rawBinaryNote': '* the input in base 2',
+
+  'inputFormat.auto.label': 'Auto',
+  'inputFormat.auto.help': 'Detects the radix from the prefix (0x, 0b, 0o, leading 0).',
+  'inputFormat.dec.label': 'Decimal',
+  'inputFormat.dec.help': 'Reads the input as decimal. Prefixes such as 0x still work.',
+  'inputFormat.hex.label': 'Hex',
+  'inputFormat.hex.help': 'Reads the input as hexadecimal. The 0x is optional.',
+  'inputFormat.bin.label': 'Binary',
+  'inputFormat.bin.help': 'Reads the input as binary. The 0b is optional.',
+  'inputFormat.oct.label': 'Octal',
+  'inputFormat.oct.help': 'Reads the input as octal. The 0o or leading 0 is optional.',
+
+  'arch.title': 'Architecture',
+  'arch.help': 'CPUs differ in the order they lay data out in memory (endianness).',
+  'arch.le': 'Least significant byte first (Intel/AMD x86, etc.)',
+  'arch.be': 'Most significant byte first (network, Motorola, etc.)',
+
+  'memory.title': 'Memory Layout',
+  'memory.byteView': 'Bytes',
+  'memory.wordView': 'Words',
+  'memory.wordWidth': 'Word width:',
+  'memory.signHelp': 'Signed treats the top bit as the sign and stores negative values in two\'s complement.',
+  'memory.sign': 'Sign:',
+  'memory.overflowHelp': 'When the value does not fit a word, either add words to keep all of it, or truncate it to one word like a C cast.',
+  'memory.overflow': 'On overflow:',
+  'memory.extend': 'Extend',
+  'memory.wrap': 'Truncate',
+  'memory.lsbHelp': 'Least Significant Byte: the lowest-order byte (smallest effect on the value)',
+  'memory.lsb': 'LSB (lowest)',
+  'memory.msbHelp': 'Most Significant Byte: the highest-order byte (largest effect on the value)',
+  'memory.msb': 'MSB (highest)',
+  'memory.largeBuffer': 'With {count} bytes, memory is shown as a hex view of 16 bytes per row. The word under the cursor is shown below.',
+  'memory.guideLe': 'In little endian, the least significant byte (red/LSB) is stored at the lowest address (left). This can look reversed compared with how people write numbers.',
+  'memory.guideBe': 'In big endian, the most significant byte (teal/MSB) is stored at the lowest address (left). Memory holds the bytes in the same order people write numbers.',
+
+  'range.outOfRange': '{value} does not fit the {type} range ({min} to {max}).',
+  'range.intType': '{bits}-bit {sign}',
+  'range.negativeUnsigned': ' Negative values cannot be represented as unsigned integers, so it is stored as its two\'s complement bit pattern.',
+  'range.extended': 'Memory has been extended to {words} words. Truncated to one word it would be {wrapped}.',
+  'range.wrapped': 'The upper bits were discarded (wrapped) and it is stored as {wrapped}.',
+
+  'byteCard.lsb': 'Least Significant Byte',
+  'byteCard.msb': 'Most Significant Byte',
+
+  'a11y.grid': 'Memory bits (arrow keys to move, Space / Enter to flip)',
+  'a11y.hexView': 'Memory bytes (arrow keys, Page Up / Page Down and Home / End move the cursor)',
+  'a11y.wordChanged': 'Word at +{address} is now 0x{hex} ({value})',
+
+  'interpret.title': 'Interpretations (from address +{address})',
+  'interpret.offsetHelp': 'The address to read from. You can also pick it by clicking a card in the byte view.',
+  'interpret.offset': 'Offset:',
+  'interpret.qHelp': 'The fixed-point shape used by the Q-format row. m = integer bits (excluding the sign bit), n = fraction bits.',
+  'interpret.q': 'Q format:',
+  'interpret.help': 'The same bits in memory mean different values depending on the type they are read as.',
+  'interpret.column.type': 'Type',
+  'interpret.column.size': 'Size',
+  'interpret.column.value': 'Value (decimal)',
+  'interpret.column.alignment': 'Alignment',
+  'interpret.column.note': 'Range / notes',
+  'interpret.alignedHelp': '+{address} is a multiple of {alignment}, so it can be read in a single memory access.',
+  'interpret.aligned': '✓ Aligned',
+  'interpret.misalignedHelp': '{type} naturally sits on a {alignment}-byte boundary (+{before} or +{after}). Reads that cross a boundary are slower, or raise an exception (bus error) on some CPUs.',
+  'interpret.misaligned': '⚠ Misaligned ({alignment}B)',
+
+  'radix.dec': 'decimal',
+  'radix.hex': 'hex',
+  'radix.bin': 'binary',
+  'radix.oct': 'octal',
+
+  'parse.prefixNotAllowed': 'The "{prefix}" prefix is not allowed in {radix} mode',
+  'parse.badDigit': '"{char}" is not valid in {radix}',
+  'parse.noDigits': 'No digits',
+  'parse.badFloat': 'Not a valid decimal number',
+
+  'sourceType.int': 'Integer (variable length)',
+  'sourceType.string': 'String (UTF-8/ASCII)',
+
+  'type.int8.description': '8-bit signed integer, from -128 to 127.',
+  'type.int8.note': '-128 to 127',
+  'type.uint8.description': '8-bit unsigned integer, from 0 to 255.',
+  'type.uint8.note': '0 to 255',
+  'type.int16.description': '16-bit signed integer.',
+  'type.uint16.description': '16-bit unsigned integer.',
+  'type.uint16.note': '0 to 65,535',
+  'type.int24.description': '24-bit signed integer, used for audio samples (24-bit PCM) and the like.',
+  'type.int24.note': '-8,388,608 to 8,388,607',
+  'type.uint24.description': '24-bit unsigned integer, used for RGB888 colours and the like.',
+  'type.uint24.note': '0 to 16,777,215',
+  'type.int32.description': 'The 32-bit signed integer, the usual "int".',
+  'type.int32.note': 'about ±2.1 billion',
+  'type.uint32.description': '32-bit unsigned integer.',
+  'type.uint32.note': '0 to about 4.2 billion',
+  'type.float32.description': '32-bit floating point number for fractional values.',
+  'type.float32.note': 'IEEE 754 single precision',
+  'type.int64.description': '64-bit signed integer for very large numbers.',
+  'type.uint64.description': '64-bit unsigned integer.',
+  'type.float64.description': '64-bit floating point number with higher precision.',
+  'type.float64.note': 'IEEE 754 double precision',
+  'type.float16.description': '16-bit floating point number (IEEE 754 binary16): 1 sign, 5 exponent and 10 mantissa bits. Used on GPUs and for machine learning inference.',
+  'type.float16.note': 'IEEE 754 half precision / max 65504',
+  'type.bfloat16.description': 'Brain Float16: 1 sign, 8 exponent and 7 mantissa bits. The top 16 bits of a Float32, with a wide range but low precision.',
+  'type.bfloat16.note': 'Same exponent range as Float32',
+  'type.tf32.description': 'NVIDIA TensorFloat-32. Stored as a Float32, but computed with the low 13 mantissa bits ignored (1 sign, 8 exponent, 10 mantissa bits).',
+  'type.tf32.note': 'Float32 with the mantissa cut to 10 bits',
+  'type.fp8e4m3.description': '8-bit floating point number (OCP E4M3FN): 1 sign, 4 exponent and 3 mantissa bits. There is no infinity; only S.1111.111 is NaN.',
+  'type.fp8e4m3.note': 'max ±448',
+  'type.fp8e5m2.description': '8-bit floating point number (OCP E5M2): 1 sign, 5 exponent and 2 mantissa bits. Has infinities and NaNs like IEEE 754.',
+  'type.fp8e5m2.note': 'max ±57344',
+  'type.qformat.description': 'Fixed-point number: the value read as an integer, divided by 2^n. Qm.n has (a sign bit +) m integer bits + n fraction bits. Common in DSP.',
+  'type.bcd.description': 'Packed BCD (binary-coded decimal). Each 4 bits hold one decimal digit (0-9). Used in RTC time registers and the like.',
+  'type.qformat.label': 'Q format',
+  'type.qformat.note': '{sign} Q{m}.{n} / resolution 2^-{n}',
+  'type.bcd.note': 'whole word / {digits} digits',
+  'type.bcd.invalid': 'invalid (contains 0x{digit})',
+  'type.word.label': 'Word (unsigned)',
+  'type.sword.label': 'Word (signed)',
+  'type.word.description': 'Unsigned integer at exactly the selected word width. For widths that are not a multiple of 8, the spare bits of the top byte are ignored.',
+  'type.sword.description': 'Signed (two\'s complement) integer at exactly the selected word width. The highest bit of the width is the sign bit.',
+  'type.word.notePartial': '{name} / top {unused} bits unused',
+
+  'float.sign': 'Sign',
+  'float.exponent': 'Exponent',
+  'float.mantissa': 'Mantissa',
+  'float.class.zero': 'Zero',
+  'float.class.subnormal': 'Subnormal',
+  'float.class.normal': 'Normal',
+  'float.class.infinity': 'Infinity',
+  'float.class.qnan': 'Quiet NaN',
+  'float.class.snan': 'Signalling NaN',
+  'float.title': 'IEEE 754 Breakdown (+{start} to +{end})',
+  'float.highlight': 'Colour the word view',
+  'float.help': 'A floating point number is three bit fields, sign, exponent and mantissa, giving value = (-1)^sign × 1.mantissa × 2^(exponent - bias).',
+  'float.unavailable': 'Reading {format} needs {size} bytes from +{offset}. Lower the offset or widen the word.',
+  'float.row.bits': 'Bits',
+  'float.row.bits.help': 'The value as read from memory (logical order).',
+  'float.row.class': 'Class',
+  'float.row.class.help': 'The exponent and mantissa together decide the kind of number. An all-zero exponent means subnormal or zero; all ones means infinity or NaN.',
+  'float.row.sign': 'Sign',
+  'float.row.sign.help': '0 is positive, 1 is negative.',
+  'float.row.exponent': 'Exponent',
+  'float.row.exponent.help': 'The stored (biased) exponent minus the bias is the actual exponent. Subnormals use 1 - bias.',
+  'float.row.mantissa': 'Mantissa',
+  'float.row.mantissa.help': 'Normal numbers have an implicit leading "1." (the hidden bit). Subnormals have "0." instead.',
+  'float.row.exact': 'Exact decimal',
+  'float.row.exact.help': 'The value these bits represent, with every digit and no rounding. A binary fraction always has a finite decimal expansion.',
+  'float.row.ulp.help': 'Unit in the Last Place: the weight of the lowest mantissa bit, i.e. the gap between representable values around here.',
+  'float.row.prev': 'Next smaller',
+  'float.row.next': 'Next larger',
+  'float.row.prev.help': 'The adjacent representable value toward -∞ (nextDown).',
+  'float.row.next.help': 'The adjacent representable value toward +∞ (nextUp).',
+  'float.negative': 'negative',
+  'float.positive': 'positive',
+  'float.special': '(special)',
+
+  'expr.badNumberChar': '"{char}" cannot be part of a number',
+  'expr.badChar': '"{char}" is not allowed',
+  'expr.missingParen': 'Missing ")"',
+  'expr.unexpectedEnd': 'The expression ends too early',
+  'expr.unexpectedToken': '"{token}" is not allowed here',
+  'expr.missingOperator': 'Missing operator before "{token}"',
+  'expr.divideByZero': 'Division by zero',
+  'expr.tooDeep': 'The expression is nested too deeply (at most {max} levels)',
+
+  'op.or': 'OR',
+  'op.xor': 'XOR',
+  'op.and': 'AND',
+  'op.shl': 'Shift left',
+  'op.shr': 'Shift right',
+  'op.lshr': 'Logical shift right',
+  'op.add': 'Add',
+  'op.sub': 'Subtract',
+  'op.mul': 'Multiply',
+  'op.div': 'Divide',
+  'op.mod': 'Remainder',
+  'op.not': 'NOT (invert bits)',
+  'op.neg': 'Negate (two\'s complement)',
+
+  'calc.title': 'Bitwise Calculator',
+  'calc.help': 'Evaluates a C-like expression as a {bits}-bit {sign} integer. Every intermediate value is truncated to the word width. x is the current value (the first word).\nOperators: ~ * / % + - << >> >>> & ^ |',
+  'calc.result': 'Result:',
+  'calc.apply': 'Write the result to the first word',
+
+  'bitops.set.label': 'Set',
+  'bitops.set.help': 'Sets every bit in the range to 1 (value | mask).',
+  'bitops.clear.label': 'Clear',
+  'bitops.clear.help': 'Sets every bit in the range to 0 (value & ~mask).',
+  'bitops.invert.label': 'Invert',
+  'bitops.invert.help': 'Flips the bits in the range (value ^ mask).',
+  'bitops.shl.help': 'Shift left. Zeros fill the vacated low bits.',
+  'bitops.shr.help': 'Logical shift right. Zeros fill the vacated high bits (unsigned >>).',
+  'bitops.sar.help': 'Arithmetic shift right. The sign bit fills the vacated high bits (signed >>).',
+  'bitops.rol.help': 'Rotate left. Bits pushed out at the top come back in at the bottom.',
+  'bitops.ror.help': 'Rotate right. Bits pushed out at the bottom come back in at the top.',
+  'bitops.title': 'Bit Operations',
+  'bitops.help': 'Click a bit to flip it; drag to paint the same value. The operations below apply to the whole value ({width} bits).',
+  'bitops.bits': 'Bits',
+  'bitops.rangeTo': 'to',
+  'bitops.carryHelp': 'Carry flag (CF): the last bit shifted out (or rotated around).',
+  'bitops.shiftedOut': 'Shifted out:',
+
+  'register.access.rw': 'read/write',
+  'register.access.ro': 'read-only',
+  'register.access.w1c': 'write 1 to clear',
+  'register.example.en': 'UART enable',
+  'register.example.txe': 'Transmitter enable',
+  'register.example.rxe': 'Receiver enable',
+  'register.example.parity': 'Parity',
+  'register.example.baud': 'Baud rate divisor',
+  'register.example.ovr': 'Overrun occurred',
+  'register.example.state': 'Internal state',
+  'register.error.tooWide': 'Register width {width}-bit exceeds the word width {wordBits}-bit',
+  'register.error.unnamedField': 'Field {index}',
+  'register.error.lsbAboveMsb': '{field}: LSB is greater than MSB',
+  'register.error.outOfRange': '{field}: bit {bit} is outside the register width ({width}-bit)',
+  'register.error.overlap': 'The bit ranges of {field} and {other} overlap',
+  'register.error.badJson': 'Not valid JSON: {message}',
+  'register.error.noFields': 'No "fields" array',
+  'register.error.badField': 'fields[{index}]: name, msb and lsb are required',
+  'register.title': 'Register {name} (+{first} to +{last})',
+  'register.overlay': 'Overlay on the word view',
+  'register.export': 'Export JSON',
+  'register.import': 'Import JSON',
+  'register.help': 'A peripheral register splits one word into several bit fields.\nRW: read/write / RO: read-only / W1C: a flag cleared by writing 1.\nThe definition is applied to the word under the cursor.',
+  'register.column.field': 'Field',
+  'register.column.bits': 'Bits',
+  'register.column.access': 'Access',
+  'register.column.value': 'Value',
+  'register.column.meaning': 'Meaning',
+  'register.readOnly': 'Writing to a read-only field has no effect.',
+  'register.valueTitle': 'Enter a value from 0 to {max} to write it back into the word.',
+  'register.w1cTitle': 'Writes 1 to the W1C field to clear the flags that are set.',
+  'register.w1c': 'Write 1 to clear',
+  'register.editor.name': 'Name',
+  'register.editor.width': 'Width',
+  'register.addField': 'Add field',
+  'register.enumsHelp': 'Comma-separated value=name pairs, e.g. 0=None, 1=Even, 2=Odd',
+  'register.enums': 'Enum values',
+  'register.description': 'Description',
+  'register.removeField': 'Remove field',
+
+  'abi.sysv': '64-bit Linux / macOS (LP64). long and pointers are 8 bytes; long double is 80-bit extended precision stored in 16 bytes.',
+  'abi.win64': '64-bit Windows (LLP64). long stays 4 bytes and long double is the same as double.',
+  'abi.aapcs32': '32-bit ARM (ILP32). Pointers are 4 bytes, but long long and double are aligned to 8 bytes. char is unsigned.',
+  'abi.avr': '8-bit AVR (avr-gcc). int and pointers are 2 bytes, and double defaults to the same 4 bytes as float. Every type is byte-aligned, so there is no padding.',
+
+  'struct.error.badChar': '"{char}" is not allowed',
+  'struct.error.badPragma': 'Malformed #pragma pack',
+  'struct.error.badPack': 'The pack value must be 1, 2, 4, 8 or 16',
+  'struct.error.missing': 'Missing "{token}"',
+  'struct.error.expected': 'Expected "{expected}" but found "{found}"',
+  'struct.error.numberExpected': 'A number is expected',
+  'struct.error.attributeExpected': 'An attribute name is expected',
+  'struct.error.badAligned': 'The aligned value must be a power of two',
+  'struct.error.unsupportedAttribute': 'The "{name}" attribute is not supported',
+  'struct.error.nested': 'Nested {keyword} is not supported',
+  'struct.error.unknownType': 'Unknown type "{type}"',
+  'struct.error.typeExpected': 'A type name is expected',
+  'struct.error.missingBrace': 'Missing "}"',
+  'struct.error.memberExpected': 'A member name is expected',
+  'struct.error.duplicateMember': 'Duplicate member "{name}"',
+  'struct.error.voidMember': 'A member cannot have type void',
+  'struct.error.badArrayLength': 'An array needs at least 1 element',
+  'struct.error.tooLarge': 'A struct can be at most {limit} bytes',
+  'struct.error.bitfield': 'Bit fields are not supported',
+  'struct.error.trailing': 'Unexpected text after the struct',
+  'struct.error.noMembers': 'The struct has no members',
+  'struct.anonymous': '(anonymous)',
+  'struct.noNul': ' (no NUL)',
+  'struct.pad.trailingTitle': 'Trailing padding (rounds the size up to the alignment)',
+  'struct.pad.title': 'Padding (aligns the next member)',
+  'struct.title': 'Struct Layout (from address +0)',
+  'struct.overlay': 'Overlay on the byte view',
+  'struct.help': 'In a C struct, each member sits at an address that is a multiple of its alignment. The compiler fills the gaps with padding and rounds the total size up to a multiple of the largest alignment.\n#pragma pack(n) and __attribute__((packed)) change this packing.',
+  'struct.paddingTotal': 'Padding {bytes} bytes ({percent}%)',
+  'struct.column.offset': 'Offset',
+  'struct.column.member': 'Member',
+  'struct.column.type': 'Type',
+  'struct.column.size': 'Size',
+  'struct.column.align': 'Alignment',
+  'struct.column.value': 'Value',
+  'struct.missing': 'Memory does not reach this member. Turn on "Overlay on the byte view" to show it with the missing part filled with zeros.',
+  'struct.pad.trailingRow': '(trailing padding)',
+  'struct.pad.row': '(padding)',
+
+  'buffer.placeholder': 'Paste an xxd / hexdump -C / Wireshark dump, { 0x12, 0x34 } or Base64, or drop a file',
+  'buffer.baseAddress': 'base address 0x{address}',
+  'buffer.empty': 'No bytes loaded',
+  'buffer.openFile': 'Open file',
+
+  'dump.format.wireshark': 'Wireshark (hex dump)',
+  'dump.format.cArray': 'C array',
+  'dump.format.hex': 'Hex bytes',
+  'dump.format.file': 'File',
+  'dump.error.badByte': '"{token}" is not a byte value',
+  'dump.error.byteRange': '{token} does not fit in a byte (0-255)',
+  'dump.error.noOffset': 'A line does not start with an offset',
+  'dump.error.noData': 'No data lines',
+  'dump.error.badRepeat': '"*" needs a line before and after it',
+  'dump.error.gap': 'Address 0x{address} does not follow on from the previous line',
+  'dump.error.notHex': '"{char}" is not a hex digit',
+  'dump.error.oddDigits': 'Odd number of hex digits',
+  'dump.error.badBase64': 'Not valid Base64',
+
+  'endian.le': 'Little endian',
+  'endian.be': 'Big endian',
+
+  'byteOrder.le.description': 'Puts the least significant byte at the lowest address (the default on x86 and ARM).',
+  'byteOrder.be.description': 'Puts the most significant byte at the lowest address (network byte order).',
+  'byteOrder.pdp.label': 'PDP-11 (middle endian)',
+  'byteOrder.pdp.description': 'The PDP-11 order: little endian within each 16-bit word, high word first. 0x0A0B0C0D is stored as 0B 0A 0D 0C.',
+
+  'endianCompare.current': 'Current memory',
+  'endianCompare.title': 'Byte Order Comparison (word at +{address})',
+  'endianCompare.top': 'Top',
+  'endianCompare.bottom': 'Bottom',
+  'endianCompare.help': 'Shows where each byte of the same value lands in memory under each order. Colours give the byte weight (LSB = red through MSB), and lines join each position in the value to its place in memory.',
+  'endianCompare.value': 'Value',
+  'endianCompare.needsWidth': 'Needs a word width of {bits} bits or more.',
+  'endianCompare.host': 'htonl / ntohl treat the current architecture ({host}) as the host.',
+  'endianCompare.hostLe': 'little endian: swaps the bytes',
+  'endianCompare.hostBe': 'big endian: does nothing',
+
+  'swap.bswap16': 'Swaps the 2 bytes of the low 16 bits.',
+  'swap.bswap32': 'Reverses the 4 bytes of the low 32 bits.',
+  'swap.bswap64': 'Reverses all 8 bytes of the 64-bit value.',
+  'swap.htons': 'Converts a 16-bit value from host byte order to network (big endian) order.',
+  'swap.ntohs': 'Converts a 16-bit value from network (big endian) order to host byte order.',
+  'swap.htonl': 'Converts a 32-bit value from host byte order to network (big endian) order.',
+  'swap.ntohl': 'Converts a 32-bit value from network (big endian) order to host byte order.',
+  'swap.pdp32': 'Swaps the high and low 16-bit words of a 32-bit value, converting between the PDP-11 order and little endian.',
+
+  'code.title': 'Copy as Code',
+  'code.help': 'Turns the memory contents into source code as they are.\nThe word forms use the API that matches the current word width and endianness.',
+  'code.empty': 'Memory is empty. Enter a value or load some bytes.',
+  'code.truncated': 'Only the first {limit} of {total} bytes are included.',
+
+  'snippet.cInitializer': 'uint8_t[] initializer',
+
+  'link.error.corrupt': 'The link data is damaged, so part of the state could not be restored',
+  'link.part.buffer': 'the byte buffer',
+  'link.part.struct': 'the struct definition',
+  'link.part.register': 'the register definition',
+  'link.omitted': 'Left out of the link because too large: {parts}',
+  'link.separator': ', ',
+  'link.copyFailed': 'Could not copy to the clipboard. Use the URL in the address bar instead',
+  'link.copy': 'Copy link',
+
+  'history.undo': 'Undo (Ctrl+Z)',
+  'history.redo': 'Redo (Ctrl+Shift+Z)',
+
+  'compare.toggle': 'Compare with a second value (A/B)',
+  'compare.help': 'Enter a second value B to mark the bytes and bits that differ from A in red. B is read with the same type, radix and endianness as A.',
+  'compare.label': 'Value to compare (B)',
+  'compare.placeholder': 'Value to compare (e.g. the expected one)',
+  'compare.hamming': 'Hamming distance',
+  'compare.changedBytes': 'Differing bytes: {count} / {total}',
+  'compare.identical': 'A and B are identical',
+  'compare.bits': 'bits',
+  'compare.moreWords': '{count} more words differ',
+  'compare.changed': 'changed',
+
+  'text.title': 'Bytes as text',
+  'text.help': 'Reads the memory bytes in a character encoding. Each box is one character and spans all bytes of its sequence. Amber boxes are control characters (NUL, LF ...), red ones are bytes that do not form a character, and a purple border marks a UTF-16 surrogate pair. Click a box to move the cursor there.',
+  'text.invalid': 'Invalid sequence',
+  'text.surrogatePair': 'Surrogate pair',
+  'text.window': 'Showing +{start} to +{end} of {total} bytes',
+  'text.summary': '{chars} characters, {invalid} invalid',
+
+  'dissect.title': 'Header dissector',
+  'dissect.help': 'Decodes the header of a known binary format (Ethernet, IPv4/IPv6, TCP, UDP, ELF64, PNG, BMP) from the start offset and shows its fields as a tree. Selecting a field outlines its bytes and bits in the grid in yellow. Each format is read in its own byte order, whatever the endianness setting.',
+  'dissect.format': 'Format',
+  'dissect.auto': 'Auto-detect',
+  'dissect.offset': 'Start',
+  'dissect.fromCursor': 'Cursor',
+  'dissect.fromCursorHelp': 'Dissect from the cursor address',
+  'dissect.elf32': 'ELF32: only e_ident is decoded',
+  'dissect.truncated': '(truncated: {have} of {need} bytes)',
+  'dissect.error.unknown': 'Not a recognised format. Pick one from the list.',
+  'dissect.error.short': '{format} needs {need} bytes of header but only {have} are left',
+
+  'checksum.title': 'Checksums and CRCs',
+  'checksum.help': 'Computes checksums and CRCs over the chosen byte range. The CRC takes any width, poly, init, refin, refout and xorout; common ones are available as presets. Every result can be appended to the input in the chosen byte order (LE/BE). Fletcher-32 reads its 16-bit words in that order, while the Internet checksum always uses network byte order (BE).',
+  'checksum.range': 'Range',
+  'checksum.wholeData': 'All data',
+  'checksum.preset': 'CRC preset',
+  'checksum.custom': 'Custom',
+  'checksum.customCrc': 'CRC-{width} (custom)',
+  'checksum.summary': 'Computed over {count} bytes, +{start} to +{end}',
+  'checksum.append': 'Append ({order})',
+  'checksum.error.hex': '{name} must be a hexadecimal number',
+  'checksum.error.tooWide': '{name} does not fit in {width} bits',
+
+  'varint.title': 'Variable-Length Integers',
+  'varint.help': 'The same integer encoded as LEB128, protobuf, VLQ, a UTF-8 style prefix varint, CBOR and MessagePack. Bits are coloured as continuation/length flags, type headers and payload. Bytes pasted into the decoder below are read the other way; truncated and overlong (non-shortest) encodings are reported as errors.',
+  'varint.value': 'Value: {value}',
+  'varint.legend.flag': 'Continuation / length flag',
+  'varint.legend.header': 'Type header',
+  'varint.legend.payload': 'Payload',
+  'varint.payloadBit': 'Payload bit {bit}',
+  'varint.toDecoder': 'Send this encoding to the decoder',
+  'varint.decode': 'Decode',
+  'varint.format': 'Format',
+  'varint.placeholder': 'Paste bytes (e.g. E5 8E 26)',
+  'varint.decoded': '{value} ({count} bytes)',
+  'varint.trailing': 'The {count} bytes after it are not part of the varint',
+  'varint.useValue': 'Use as input',
+  'varint.error.negative': '{format} cannot represent negative values',
+  'varint.error.tooLarge': 'Out of the range {format} can represent',
+  'varint.error.tooLong': 'Longer than {count} bytes',
+  'varint.error.truncated': 'Truncated: the input ends after {count} bytes while the encoding expects more',
+  'varint.error.overlong': 'Overlong encoding: the same value fits in {count} bytes',
+  'varint.error.invalidLead': 'Lead byte 0x{byte} does not start an integer in this format',
+  'varint.error.badContinuation': '+{offset} is not a continuation byte (10xxxxxx)',
+
+  'bits.title': 'Bit Analysis',
+  'bits.help': 'Facts derived from the word under the cursor. Hover (or focus) an entry to outline the bits it depends on in the word above. Transformed values can be written back over the word.',
+  'bits.signBit': 'Sign-extend from bit',
+  'bits.popcount': 'popcount (set bits)',
+  'bits.parity': 'Parity',
+  'bits.parity.even': 'Even',
+  'bits.parity.odd': 'Odd',
+  'bits.highest': 'Highest set bit',
+  'bits.lowest': 'Lowest set bit',
+  'bits.none': 'None',
+  'bits.isPowerOfTwo': 'Power of two',
+  'bits.yes': 'Yes (2^{exponent})',
+  'bits.no': 'No',
+  'bits.nextPowerOfTwo': 'Next power of two',
+  'bits.overflow': 'Exceeds {width} bits',
+  'bits.reverseBits': 'Bit-reversed',
+  'bits.reverseBytes': 'Byte-reversed',
+  'bits.toGray': 'Gray code',
+  'bits.fromGray': 'Inverse Gray code',
+  'bits.signExtend': 'Sign-extended from bit {bit}',
+  'bits.apply': 'Write',
+  'bits.applyHelp': 'Write this value over the word under the cursor',
+
+  'width.help': 'The word width in bits. Any width from 1 to {max} bits can be entered; with widths that are not a multiple of 8, the spare bits of the most significant byte are unused',
+  'width.custom': 'Word width (bits)',
+  'width.unusedBit': 'Outside the word width (unused)',
+  'width.extendNeedsBytes': 'With a word width that is not a multiple of 8, integers are always truncated to the word width',
+  'numbering.label': 'Bit numbering:',
+  'numbering.help': 'LSB0 numbers the least significant bit as bit 0; MSB0 numbers the most significant bit as bit 0, as in PowerPC and many protocol datasheets',
+
+  'bookmark.title': 'Bookmarks',
+  'bookmark.name': 'Bookmark name',
+  'bookmark.namePlaceholder': 'Name (e.g. MAGIC 0xDEADBEEF)',
+  'bookmark.add': 'Save',
+  'bookmark.remove': 'Delete "{name}"',
+  'bookmark.empty': 'No bookmarks yet. Save the current value and view settings under a name.',
+  'bookmark.tooLarge': 'Buffers larger than {limit} bytes cannot be bookmarked.',
+  'bookmark.error.storage': 'The browser refused to store the bookmarks. Export them as JSON to keep them.',
+  'bookmark.error.badJson': 'Cannot parse JSON: {message}',
+  'bookmark.error.noBookmarks': 'No "bookmarks" array found',
+  'bookmark.error.badBookmark': 'Bookmark {index} is invalid',
+
+  'parseError.lineColumn': 'line {line}, column {column}',
+  'parseError.column': 'column {column}',
+};
@@ -0,0 +1,532 @@
+// Japanese, the source catalog. Keys are grouped by the screen area or module that uses them.
+
+export const ja = {
+  'meta.title': 'BitWise Visualizer | ビット・バイト・エンディアン可視化ツール',
+  'meta.description': '数値がメモリ内でどう保存されるかを、ビット・バイト・エンディアン単位で可視化できる学習向けツールです。',
+
+  'app.title': 'ビット可視化ツール',
+  'app.subtitle1': '数値がメモリ内でどのように保存されるかを可視化します。',
+  'app.subtitle2': 'ビット、バイト、エンディアンの関係を学びましょう。',
+  'app.help': '用語集・使い方',
+
+  'common.bytes': '{count} バイト',
+  'common.copied': 'コピーしました',
+  'common.copy': 'コピー',
+  'common.bit': 'ビット {bit}',
+
+  'sign.signed': '符号付き',
+  'sign.unsigned': '符号なし',
+
+  'help.title': '用語集・使い方ガイド',
+  'help.close': '閉じる',
+  'help.basics.heading': '基本用語',
+  'help.endian.heading': 'エンディアン (Endianness)',
+  'help.types.heading': 'データの型',
+  'help.input.heading': '入力の書き方',
+  'help.basics.bit.term': 'ビット (Bit)',
+  'help.basics.bit.text': 'コンピュータが扱う情報の最小単位です。「0」か「1」のどちらかの状態を持ちます。',
+  'help.basics.byte.term': 'バイト (Byte)',
+  'help.basics.byte.text': '8つのビットをまとめた単位です。1バイトで0〜255までの数値を表現できます。',
+  'help.basics.word.term': 'ワード (Word)',
+  'help.basics.word.text': 'CPUが一度に処理できるデータの単位です。このツールでは16ビット(2バイト)、32ビット(4バイト)、64ビット(8バイト)など8〜256ビットのプリセットのほか、12ビットのような8の倍数でない幅も指定できます。',
+  'help.basics.alignment.term': 'アライメント (Alignment)',
+  'help.basics.alignment.text': 'データを自分のサイズの倍数のアドレスに置くことです。例えば4バイトの整数は +0, +4, +8 … に置くと1回で読み出せます。境界をまたぐ「非整列アクセス」は遅くなったり、CPUによってはエラーになります。',
+  'help.basics.bitField.term': 'ビットフィールド (Bit Field)',
+  'help.basics.bitField.text': '1つのワードをビット範囲ごとに区切り、それぞれに名前と意味を持たせたものです。マイコンの周辺機器レジスタでよく使われ、[11:10] のように上位ビットと下位ビットで範囲を表します。',
+  'help.basics.padding.term': 'パディング (Padding)',
+  'help.basics.padding.text': '構造体のメンバーをアライメントに揃えるため、コンパイラが間に挟む使われないバイトです。メンバーの並べ方や <code>#pragma pack</code> で量が変わり、構造体のサイズに影響します。',
+  'help.endian.intro': '複数のバイトにまたがる大きな数値（例：10000など）をメモリに保存する際、「どのバイトから順に並べるか」というルールのことです。',
+  'help.endian.little.term': 'リトルエンディアン (Little Endian)',
+  'help.endian.little.text': '<b>「下の桁」</b>から先にメモリに置く方式です。IntelやAMDのCPU（Windows PCなど）で使われています。<br/>例：<code>0x1234</code> → メモリには <code>34 12</code> と保存される。',
+  'help.endian.big.term': 'ビッグエンディアン (Big Endian)',
+  'help.endian.big.text': '<b>「上の桁」</b>から先にメモリに置く方式です。ネットワーク通信や一部の古いCPUで使われています。<br/>例：<code>0x1234</code> → メモリには <code>12 34</code> と保存される。',
+  'help.endian.middle.term': 'ミドルエンディアン (PDP-11)',
+  'help.endian.middle.text': '16ビットのワードの中はリトルエンディアン、ワード同士は<b>上位のワード</b>から並べる方式です。<br/>例：<code>0x0A0B0C0D</code> → メモリには <code>0B 0A 0D 0C</code> と保存される。',
+  'help.types.signed.term': '符号付き (Signed)',
+  'help.types.signed.text': 'プラスとマイナスの両方を扱える整数。最上位ビットが1だとマイナスになります。',
+  'help.types.twosComplement.term': '2の補数 (Two\'s Complement)',
+  'help.types.twosComplement.text': '負の値の表し方です。全ビットを反転して1を足すと符号が反転します。例：8ビットの <code>-1</code> は <code>0xFF</code>。',
+  'help.types.unsigned.term': '符号なし (Unsigned)',
+  'help.types.unsigned.text': '0とプラスの値のみを扱う整数。その分、扱えるプラスの最大値が大きくなります。',
+  'help.types.float.term': '浮動小数点 (Float)',
+  'help.types.float.text': '小数を扱うための形式。「IEEE 754」という規格でビットの使い方が決まっています。',
+  'help.input.prefix.term': 'プレフィックス',
+  'help.input.prefix.text': '<code>0x</code> (16進数)、<code>0b</code> (2進数)、<code>0o</code> または先頭の <code>0</code> (8進数)。',
+  'help.input.separator.term': '区切り文字',
+  'help.input.separator.text': '<code>0b1010_1100</code> のように <code>_</code> や空白で桁を区切れます。',
+  'help.input.suffix.term': 'サフィックス',
+  'help.input.suffix.text': 'C の <code>123ULL</code>、Rust の <code>-0x80i8</code> のように型を指定できます。',
+  'help.input.bytes.term': 'バイト列',
+  'help.input.bytes.text': '<code>xxd</code>、<code>hexdump -C</code>、Wireshark のダンプ、C の配列 <code>{ 0x12, 0x34 }</code>、Base64 を貼り付けるか、ファイルをドロップすると、そのバイトをそのままメモリに読み込みます。',
+
+  'input.title': '入力値',
+  'input.help': '変換したい数値をここに入力してください。\nバイト列モードでは、16進ダンプやファイルの中身をそのままメモリに読み込みます。',
+  'input.mode.value': '値を入力',
+  'input.mode.buffer': 'バイト列 (ダンプ / ファイル)',
+  'input.typeHelp': '入力値をどの型としてメモリに格納するかを選びます。「整数 (可変長)」は値に合わせてバイト数が決まります。',
+  'input.type': '型:',
+  'input.stringPlaceholder': 'Hello, 世界...',
+  'input.suffix': 'サフィックス',
+  'input.noSuffixType': ' (対応する型なし)',
+  'input.useSuffixType': 'この型で格納',
+  'input.rawBinary': '生のバイナリ値',
+  'input.rawBinaryNote': '※入力値の2進数表現',
+
+  'inputFormat.auto.label': '自動',
+  'inputFormat.auto.help': 'プレフィックス (0x, 0b, 0o, 先頭の0) から基数を自動判別します。',
+  'inputFormat.dec.label': '10進数',
+  'inputFormat.dec.help': '10進数として読みます。0x などのプレフィックスも使えます。',
+  'inputFormat.hex.label': '16進数',
+  'inputFormat.hex.help': '16進数として読みます。0x は省略できます。',
+  'inputFormat.bin.label': '2進数',
+  'inputFormat.bin.help': '2進数として読みます。0b は省略できます。',
+  'inputFormat.oct.label': '8進数',
+  'inputFormat.oct.help': '8進数として読みます。0o や先頭の0は省略できます。',
+
+  'arch.title': 'アーキテクチャ',
+  'arch.help': 'CPUの種類によって、メモリへのデータの並べ方（エンディアン）が異なります。',
+  'arch.le': '最下位バイトが先頭 (Intel/AMD x86など)',
+  'arch.be': '最上位バイトが先頭 (ネットワーク/Motorolaなど)',
+
+  'memory.title': 'メモリ配置イメージ',
+  'memory.byteView': 'バイト単位',
+  'memory.wordView': 'ワード単位',
+  'memory.wordWidth': 'ワード幅:',
+  'memory.signHelp': '符号付きでは最上位ビットを符号として扱い、負の値を2の補数で表します。',
+  'memory.sign': '符号:',
+  'memory.overflowHelp': '値がワードに収まらないとき、ワードを追加して全体を保存するか、C言語のキャストのように1ワードに切り捨てるかを選びます。',
+  'memory.overflow': '溢れた場合:',
+  'memory.extend': '拡張',
+  'memory.wrap': '切り捨て',
+  'memory.lsbHelp': 'Least Significant Byte: 最も位の低いバイト（値への影響が小さい）',
+  'memory.lsb': 'LSB (最下位)',
+  'memory.msbHelp': 'Most Significant Byte: 最も位の高いバイト（値への影響が大きい）',
+  'memory.msb': 'MSB (最上位)',
+  'memory.largeBuffer': '{count} バイトあるため、1行 16 バイトの16進ビューで表示しています。下はカーソルのあるワードです。',
+  'memory.guideLe': 'リトルエンディアンでは、最も位の低いバイト(赤色/LSB)が、最も小さいメモリアドレス(左側)に保存されます。人間が読む数字の並びとは逆に見えることがあります。',
+  'memory.guideBe': 'ビッグエンディアンでは、最も位の高いバイト(青緑色/MSB)が、最も小さいメモリアドレス(左側)に保存されます。人間が読む数字の並びと同じ順序でメモリに入ります。',
+
+  'range.outOfRange': '{value} は {type} の範囲 ({min} 〜 {max}) に収まりません。',
+  'range.intType': '{bits}-bit {sign}',
+  'range.negativeUnsigned': ' 負の値は符号なし整数では表現できないため、2の補数のビット列として格納されます。',
+  'range.extended': 'メモリは {words} ワードに拡張されています。1ワードに切り捨てると {wrapped} になります。',
+  'range.wrapped': '上位ビットが切り捨てられ (ラップ)、{wrapped} として格納されています。',
+
+  'byteCard.lsb': 'Least Significant Byte (最下位バイト)',
+  'byteCard.msb': 'Most Significant Byte (最上位バイト)',
+
+  'a11y.grid': 'メモリのビット (矢印キーで移動、Space / Enter で反転)',
+  'a11y.hexView': 'メモリのバイト (矢印キー・PageUp/PageDown・Home/End でカーソルを移動)',
+  'a11y.wordChanged': '+{address} のワードが 0x{hex} ({value}) になりました',
+
+  'interpret.title': 'データの解釈 (アドレス +{address} から)',
+  'interpret.offsetHelp': 'どのアドレスから読み出すかを指定します。バイト単位の表示でカードをクリックしても選べます。',
+  'interpret.offset': 'オフセット:',
+  'interpret.qHelp': 'Q形式の行で使う固定小数点の形を指定します。m = 整数部のビット数 (符号ビットを除く)、n = 小数部のビット数。',
+  'interpret.q': 'Q形式:',
+  'interpret.help': 'メモリ内の同じビット列でも、それを「どう解釈するか（型）」によって値が変わります。',
+  'interpret.column.type': '型 (Type)',
+  'interpret.column.size': 'サイズ',
+  'interpret.column.value': '値 (10進数)',
+  'interpret.column.alignment': 'アライメント',
+  'interpret.column.note': '範囲・備考',
+  'interpret.alignedHelp': '+{address} は {alignment} の倍数なので、1回のメモリアクセスで読み出せます。',
+  'interpret.aligned': '✓ 整列',
+  'interpret.misalignedHelp': '{type} は {alignment} バイト境界 (+{before} や +{after}) に置くのが自然です。境界をまたぐ読み出しは遅くなったり、CPU によっては例外 (バスエラー) になります。',
+  'interpret.misaligned': '⚠ 非整列 ({alignment}B)',
+
+  'radix.dec': '10進数',
+  'radix.hex': '16進数',
+  'radix.bin': '2進数',
+  'radix.oct': '8進数',
+
+  'parse.prefixNotAllowed': '{radix}モードでは「{prefix}」プレフィックスは使えません',
+  'parse.badDigit': '「{char}」は{radix}の数字として使えません',
+  'parse.noDigits': '数字がありません',
+  'parse.badFloat': '小数として解釈できません',
+
+  'sourceType.int': '整数 (可変長)',
+  'sourceType.string': '文字列 (UTF-8/ASCII)',
+
+  'type.int8.description': '8ビットの符号付き整数。-128から127まで扱えます。',
+  'type.int8.note': '-128 〜 127',
+  'type.uint8.description': '8ビットの符号なし整数。0から255まで扱えます。',
+  'type.uint8.note': '0 〜 255',
+  'type.int16.description': '16ビットの符号付き整数。',
+  'type.uint16.description': '16ビットの符号なし整数。',
+  'type.uint16.note': '0 〜 65,535',
+  'type.int24.description': '24ビットの符号付き整数。オーディオのサンプル (24-bit PCM) などで使われます。',
+  'type.int24.note': '-8,388,608 〜 8,388,607',
+  'type.uint24.description': '24ビットの符号なし整数。RGB888 の色などで使われます。',
+  'type.uint24.note': '0 〜 16,777,215',
+  'type.int32.description': '32ビットの符号付き整数。一般的な「整数(int)」はこれです。',
+  'type.int32.note': '±約21億',
+  'type.uint32.description': '32ビットの符号なし整数。',
+  'type.uint32.note': '0 〜 約42億',
+  'type.float32.description': '32ビット浮動小数点数。小数を扱います。',
+  'type.float32.note': 'IEEE 754 単精度',
+  'type.int64.description': '64ビットの符号付き整数。非常に大きな数を扱えます。',
+  'type.uint64.description': '64ビットの符号なし整数。',
+  'type.float64.description': '64ビット浮動小数点数。より高精度な小数を扱います。',
+  'type.float64.note': 'IEEE 754 倍精度',
+  'type.float16.description': '16ビット浮動小数点数 (IEEE 754 binary16)。符号1・指数5・仮数10ビット。GPU や機械学習の推論で使われます。',
+  'type.float16.note': 'IEEE 754 半精度 / 最大 65504',
+  'type.bfloat16.description': 'Brain Float16。符号1・指数8・仮数7ビット。Float32 の上位16ビットと同じ形で、範囲は広いが精度は低い形式です。',
+  'type.bfloat16.note': 'Float32 と同じ指数範囲',
+  'type.tf32.description': 'NVIDIA TensorFloat-32。Float32 として格納し、仮数の下位13ビットを無視して計算します (符号1・指数8・仮数10ビット)。',
+  'type.tf32.note': 'Float32 の仮数を10ビットに切り捨て',
+  'type.fp8e4m3.description': '8ビット浮動小数点数 (OCP E4M3FN)。符号1・指数4・仮数3ビット。無限大はなく、S.1111.111 だけが NaN です。',
+  'type.fp8e4m3.note': '最大 ±448',
+  'type.fp8e5m2.description': '8ビット浮動小数点数 (OCP E5M2)。符号1・指数5・仮数2ビット。IEEE 754 と同じく無限大と NaN を持ちます。',
+  'type.fp8e5m2.note': '最大 ±57344',
+  'type.qformat.description': '固定小数点数。整数として読んだ値を 2^n で割ったものです。Qm.n は (符号ビット +) 整数 m ビット + 小数 n ビット。DSP でよく使われます。',
+  'type.bcd.description': 'Packed BCD (2進化10進数)。4ビットごとに10進数の1桁 (0〜9) を表します。RTC の時刻レジスタなどで使われます。',
+  'type.qformat.label': 'Q形式',
+  'type.qformat.note': '{sign} Q{m}.{n} / 分解能 2^-{n}',
+  'type.bcd.note': 'ワード全体 / {digits}桁',
+  'type.bcd.invalid': '無効 (0x{digit} を含む)',
+  'type.word.label': 'ワード (符号なし)',
+  'type.sword.label': 'ワード (符号付き)',
+  'type.word.description': '選択中のワード幅そのままの符号なし整数。8 の倍数でない幅では最上位バイトの余ったビットを無視します。',
+  'type.sword.description': '選択中のワード幅そのままの符号付き整数 (2の補数)。最上位の有効ビットが符号ビットです。',
+  'type.word.notePartial': '{name} / 上位 {unused} ビットは未使用',
+
+  'float.sign': '符号',
+  'float.exponent': '指数部',
+  'float.mantissa': '仮数部',
+  'float.class.zero': 'ゼロ',
+  'float.class.subnormal': '非正規化数 (Subnormal)',
+  'float.class.normal': '正規化数 (Normal)',
+  'float.class.infinity': '無限大 (Infinity)',
+  'float.class.qnan': 'Quiet NaN',
+  'float.class.snan': 'Signalling NaN',
+  'float.title': 'IEEE 754 浮動小数点の内訳 (+{start} 〜 +{end})',
+  'float.highlight': 'ワード表示で色分け',
+  'float.help': '浮動小数点数は「符号」「指数部」「仮数部」の3つのビット列で 値 = (-1)^符号 × 1.仮数 × 2^(指数 - バイアス) を表します。',
+  'float.unavailable': '{format} の解釈には +{offset} から {size} バイト必要です。オフセットを小さくするか、ワード幅を広げてください。',
+  'float.row.bits': 'ビット列',
+  'float.row.bits.help': 'メモリから読み出した値そのもの (論理順)。',
+  'float.row.class': '分類',
+  'float.row.class.help': '指数部と仮数部の組み合わせで、数の種類が決まります。指数部がすべて0なら非正規化数かゼロ、すべて1なら無限大かNaNです。',
+  'float.row.sign': '符号',
+  'float.row.sign.help': '0ならプラス、1ならマイナスです。',
+  'float.row.exponent': '指数部',
+  'float.row.exponent.help': '格納されている指数 (バイアス付き) から、バイアスを引いたものが実際の指数です。非正規化数では 1 - バイアス として扱います。',
+  'float.row.mantissa': '仮数部',
+  'float.row.mantissa.help': '正規化数では先頭に暗黙の「1.」が付きます (hidden bit)。非正規化数では「0.」になります。',
+  'float.row.exact': '正確な10進値',
+  'float.row.exact.help': 'このビット列が表す値を、丸めずにすべての桁で表示したものです。2進数の小数は必ず有限桁の10進数になります。',
+  'float.row.ulp.help': 'Unit in the Last Place: 仮数部の最下位ビット1つ分の大きさ。この付近で表現できる値の間隔です。',
+  'float.row.prev': '1つ小さい値',
+  'float.row.next': '1つ大きい値',
+  'float.row.prev.help': '-∞ 方向に隣接する表現可能な値 (nextDown)。',
+  'float.row.next.help': '+∞ 方向に隣接する表現可能な値 (nextUp)。',
+  'float.negative': '負',
+  'float.positive': '正',
+  'float.special': '(特殊値)',
+
+  'expr.badNumberChar': '「{char}」は数値の一部として使えません',
+  'expr.badChar': '「{char}」は使えない文字です',
+  'expr.missingParen': '「)」がありません',
+  'expr.unexpectedEnd': '式が途中で終わっています',
+  'expr.unexpectedToken': '「{token}」はここに置けません',
+  'expr.missingOperator': '「{token}」の前に演算子がありません',
+  'expr.divideByZero': '0 で割ることはできません',
+  'expr.tooDeep': '式の入れ子が深すぎます (最大 {max} 段)',
+
+  'op.or': 'OR',
+  'op.xor': 'XOR',
+  'op.and': 'AND',
+  'op.shl': '左シフト',
+  'op.shr': '右シフト',
+  'op.lshr': '論理右シフト',
+  'op.add': '加算',
+  'op.sub': '減算',
+  'op.mul': '乗算',
+  'op.div': '除算',
+  'op.mod': '剰余',
+  'op.not': 'NOT (ビット反転)',
+  'op.neg': '符号反転 (2の補数)',
+
+  'calc.title': 'ビット演算電卓',
+  'calc.help': 'C言語風の式を {bits}-bit {sign} 整数として計算します。途中の値もすべてワード幅で切り捨てられます。x は現在の値 (先頭ワード) です。\n演算子: ~ * / % + - << >> >>> & ^ |',
+  'calc.result': '結果:',
+  'calc.apply': '結果を先頭ワードに書き込む',
+
+  'bitops.set.label': 'セット',
+  'bitops.set.help': '範囲のビットをすべて1にします (value | mask)。',
+  'bitops.clear.label': 'クリア',
+  'bitops.clear.help': '範囲のビットをすべて0にします (value & ~mask)。',
+  'bitops.invert.label': '反転',
+  'bitops.invert.help': '範囲のビットを反転します (value ^ mask)。',
+  'bitops.shl.help': '左シフト。空いた下位ビットには0が入ります。',
+  'bitops.shr.help': '論理右シフト。空いた上位ビットには0が入ります (符号なしの >>)。',
+  'bitops.sar.help': '算術右シフト。空いた上位ビットには符号ビットが入ります (符号付きの >>)。',
+  'bitops.rol.help': '左ローテート。押し出された上位ビットが下位に戻ります。',
+  'bitops.ror.help': '右ローテート。押し出された下位ビットが上位に戻ります。',
+  'bitops.title': 'ビット操作',
+  'bitops.help': 'ビットをクリックすると反転し、ドラッグすると同じ値で塗れます。下の操作は値全体 ({width} ビット) に対して行います。',
+  'bitops.bits': 'ビット',
+  'bitops.rangeTo': '〜',
+  'bitops.carryHelp': 'キャリーフラグ (CF): 最後に押し出された (ローテートでは回り込んだ) ビットです。',
+  'bitops.shiftedOut': '溢れたビット:',
+
+  'register.access.rw': '読み書き可',
+  'register.access.ro': '読み出し専用',
+  'register.access.w1c': '1を書いてクリア',
+  'register.example.en': 'UART 有効化',
+  'register.example.txe': '送信有効',
+  'register.example.rxe': '受信有効',
+  'register.example.parity': 'パリティ',
+  'register.example.baud': 'ボーレート分周比',
+  'register.example.ovr': 'オーバーラン発生',
+  'register.example.state': '内部状態',
+  'register.error.tooWide': 'レジスタ幅 {width}-bit がワード幅 {wordBits}-bit を超えています',
+  'register.error.unnamedField': 'フィールド {index}',
+  'register.error.lsbAboveMsb': '{field}: LSB が MSB より大きくなっています',
+  'register.error.outOfRange': '{field}: ビット {bit} はレジスタ幅 ({width}-bit) の外です',
+  'register.error.overlap': '{field} と {other} のビット範囲が重なっています',
+  'register.error.badJson': 'JSON として読み込めません: {message}',
+  'register.error.noFields': '"fields" 配列がありません',
+  'register.error.badField': 'fields[{index}]: name, msb, lsb が必要です',
+  'register.title': 'レジスタ定義 {name} (+{first} 〜 +{last})',
+  'register.overlay': 'ワード表示に重ねる',
+  'register.export': 'JSON 書き出し',
+  'register.import': 'JSON 読み込み',
+  'register.help': '周辺機器のレジスタは、1つのワードをいくつかのビットフィールドに分けて使います。\nRW: 読み書き可 / RO: 読み出し専用 / W1C: 1を書き込むとクリアされるフラグ。\nカーソルのあるワードに定義を当てはめて表示します。',
+  'register.column.field': 'フィールド',
+  'register.column.bits': 'ビット',
+  'register.column.access': 'アクセス',
+  'register.column.value': '値',
+  'register.column.meaning': '意味',
+  'register.readOnly': '読み出し専用のフィールドは書き込んでも変化しません。',
+  'register.valueTitle': '0 〜 {max} の値を入力すると、ワードに書き戻します。',
+  'register.w1cTitle': 'W1C フィールドに1を書き込んで、立っているフラグをクリアします。',
+  'register.w1c': '1を書いてクリア',
+  'register.editor.name': '名前',
+  'register.editor.width': '幅',
+  'register.addField': 'フィールド追加',
+  'register.enumsHelp': '値と名前の組をカンマ区切りで書きます。例: 0=None, 1=Even, 2=Odd',
+  'register.enums': '列挙値',
+  'register.description': '説明',
+  'register.removeField': 'フィールドを削除',
+
+  'abi.sysv': 'Linux / macOS の 64-bit (LP64)。long とポインタが 8 バイト、long double は 80-bit 拡張精度を 16 バイトに格納します。',
+  'abi.win64': 'Windows の 64-bit (LLP64)。long は 4 バイトのまま、long double は double と同じです。',
+  'abi.aapcs32': '32-bit ARM (ILP32)。ポインタは 4 バイトですが、long long と double は 8 バイト境界に揃えます。char は符号なしです。',
+  'abi.avr': '8-bit AVR (avr-gcc)。int とポインタは 2 バイト、double は既定で float と同じ 4 バイトです。すべての型が 1 バイト境界なのでパディングは入りません。',
+
+  'struct.error.badChar': '「{char}」は使えない文字です',
+  'struct.error.badPragma': '#pragma pack の書き方が正しくありません',
+  'struct.error.badPack': 'pack の値は 1, 2, 4, 8, 16 のいずれかです',
+  'struct.error.missing': '「{token}」がありません',
+  'struct.error.expected': '「{expected}」が必要ですが「{found}」があります',
+  'struct.error.numberExpected': '数値が必要です',
+  'struct.error.attributeExpected': '属性名が必要です',
+  'struct.error.badAligned': 'aligned の値は 2 のべき乗です',
+  'struct.error.unsupportedAttribute': '属性「{name}」には対応していません',
+  'struct.error.nested': '入れ子の {keyword} には対応していません',
+  'struct.error.unknownType': '型「{type}」が分かりません',
+  'struct.error.typeExpected': '型名が必要です',
+  'struct.error.missingBrace': '「}」がありません',
+  'struct.error.memberExpected': 'メンバー名が必要です',
+  'struct.error.duplicateMember': 'メンバー「{name}」が重複しています',
+  'struct.error.voidMember': 'void 型のメンバーは置けません',
+  'struct.error.badArrayLength': '配列の要素数は 1 以上です',
+  'struct.error.tooLarge': '構造体のサイズは {limit} バイトまでです',
+  'struct.error.bitfield': 'ビットフィールドには対応していません',
+  'struct.error.trailing': '構造体の後ろに余分な記述があります',
+  'struct.error.noMembers': 'メンバーがありません',
+  'struct.anonymous': '(無名)',
+  'struct.noNul': ' (NUL なし)',
+  'struct.pad.trailingTitle': '末尾パディング (サイズをアライメントの倍数にする)',
+  'struct.pad.title': 'パディング (次のメンバーを境界に揃える)',
+  'struct.title': '構造体レイアウト (アドレス +0 から)',
+  'struct.overlay': 'バイト表示に重ねる',
+  'struct.help': 'C の構造体では、各メンバーは自分のアライメントの倍数のアドレスに置かれます。隙間にはコンパイラがパディングを挿入し、全体のサイズも最大アライメントの倍数に切り上げられます。\n#pragma pack(n) や __attribute__((packed)) でこの詰め方を変えられます。',
+  'struct.paddingTotal': 'パディング {bytes} バイト ({percent}%)',
+  'struct.column.offset': 'オフセット',
+  'struct.column.member': 'メンバー',
+  'struct.column.type': '型',
+  'struct.column.size': 'サイズ',
+  'struct.column.align': 'アライメント',
+  'struct.column.value': '値',
+  'struct.missing': 'メモリがこのメンバーの位置まで届いていません。「バイト表示に重ねる」をオンにすると、足りない部分を 0 で埋めて表示します。',
+  'struct.pad.trailingRow': '(末尾パディング)',
+  'struct.pad.row': '(パディング)',
+
+  'buffer.placeholder': 'xxd / hexdump -C / Wireshark のダンプ、{ 0x12, 0x34 }、Base64 を貼り付けるか、ファイルをドロップ',
+  'buffer.baseAddress': '先頭アドレス 0x{address}',
+  'buffer.empty': 'バイト列が読み込まれていません',
+  'buffer.openFile': 'ファイルを開く',
+
+  'dump.format.wireshark': 'Wireshark (Hex ダンプ)',
+  'dump.format.cArray': 'C 配列',
+  'dump.format.hex': '16進数の並び',
+  'dump.format.file': 'ファイル',
+  'dump.error.badByte': '「{token}」はバイト値として読めません',
+  'dump.error.byteRange': '{token} は 1 バイト (0〜255) に収まりません',
+  'dump.error.noOffset': 'オフセットで始まらない行があります',
+  'dump.error.noData': 'データ行がありません',
+  'dump.error.badRepeat': '「*」の前後に行が必要です',
+  'dump.error.gap': 'アドレス 0x{address} が前の行と続いていません',
+  'dump.error.notHex': '「{char}」は16進数ではありません',
+  'dump.error.oddDigits': '16進数の桁数が奇数です',
+  'dump.error.badBase64': 'Base64 として読めません',
+
+  'endian.le': 'リトルエンディアン',
+  'endian.be': 'ビッグエンディアン',
+
+  'byteOrder.le.description': '最下位バイトを先頭アドレスに置きます (x86, ARM の既定)。',
+  'byteOrder.be.description': '最上位バイトを先頭アドレスに置きます (ネットワークバイトオーダー)。',
+  'byteOrder.pdp.label': 'PDP-11 (ミドルエンディアン)',
+  'byteOrder.pdp.description': '16ビットワードの中はリトルエンディアン、ワード同士は上位ワードが先という PDP-11 の並びです。0x0A0B0C0D は 0B 0A 0D 0C と格納されます。',
+
+  'endianCompare.current': '現在のメモリ',
+  'endianCompare.title': 'バイトオーダー比較 (+{address} のワード)',
+  'endianCompare.top': '上段',
+  'endianCompare.bottom': '下段',
+  'endianCompare.help': '同じ値をメモリに置いたとき、各バイトがどのアドレスに来るかを並べて表示します。色はバイトの重み (LSB = 赤 〜 MSB) を表し、線は値の中の位置とメモリ上の位置を結んでいます。',
+  'endianCompare.value': '値',
+  'endianCompare.needsWidth': '{bits} ビット以上のワード幅で使えます。',
+  'endianCompare.host': 'htonl / ntohl は現在のアーキテクチャ ({host}) をホストとして計算します。',
+  'endianCompare.hostLe': 'リトルエンディアン: バイトを入れ替えます',
+  'endianCompare.hostBe': 'ビッグエンディアン: 何もしません',
+
+  'swap.bswap16': '下位 16 ビットの 2 バイトを入れ替えます。',
+  'swap.bswap32': '下位 32 ビットの 4 バイトを逆順にします。',
+  'swap.bswap64': '64 ビットの 8 バイトを逆順にします。',
+  'swap.htons': 'ホストのバイトオーダーからネットワーク (ビッグエンディアン) へ 16 ビット値を変換します。',
+  'swap.ntohs': 'ネットワーク (ビッグエンディアン) からホストのバイトオーダーへ 16 ビット値を変換します。',
+  'swap.htonl': 'ホストのバイトオーダーからネットワーク (ビッグエンディアン) へ 32 ビット値を変換します。',
+  'swap.ntohl': 'ネットワーク (ビッグエンディアン) からホストのバイトオーダーへ 32 ビット値を変換します。',
+  'swap.pdp32': '32 ビット値の上位・下位 16 ビットワードを入れ替え、PDP-11 の並びとリトルエンディアンを相互に変換します。',
+
+  'code.title': 'コードとしてコピー',
+  'code.help': 'メモリの内容をそのままソースコードにします。\nワード単位の書き方は、現在のワード幅とエンディアンに合わせた API を使います。',
+  'code.empty': 'メモリが空です。値を入力するか、バイト列を読み込んでください。',
+  'code.truncated': '{total} バイトのうち、先頭の {limit} バイトだけを出力しています。',
+
+  'snippet.cInitializer': 'uint8_t[] 初期化子',
+
+  'link.error.corrupt': 'リンクのデータが壊れているため、一部の状態を復元できませんでした',
+  'link.part.buffer': 'バイト列',
+  'link.part.struct': '構造体の定義',
+  'link.part.register': 'レジスタ定義',
+  'link.omitted': '{parts}は大きすぎるためリンクに含まれていません',
+  'link.separator': '・',
+  'link.copyFailed': 'クリップボードにコピーできませんでした。アドレスバーの URL を使ってください',
+  'link.copy': 'リンクをコピー',
+
+  'history.undo': '元に戻す (Ctrl+Z)',
+  'history.redo': 'やり直す (Ctrl+Shift+Z)',
+
+  'compare.toggle': '2 つ目の値と比較 (A/B)',
+  'compare.help': '比較する値 B を入力すると、A と異なるバイトとビットが赤で表示されます。B は A と同じ型・基数・エンディアンで解釈されます。',
+  'compare.label': '比較する値 (B)',
+  'compare.placeholder': '比較する値 (期待値など)',
+  'compare.hamming': 'ハミング距離',
+  'compare.changedBytes': '異なるバイト: {count} / {total}',
+  'compare.identical': 'A と B は同じです',
+  'compare.bits': 'ビット',
+  'compare.moreWords': 'ほか {count} ワードに差分があります',
+  'compare.changed': '変化',
+
+  'text.title': '文字として解釈',
+  'text.help': 'メモリのバイト列を文字コードとして解釈します。1 つの箱が 1 文字で、マルチバイト文字は構成するバイトすべてにまたがります。黄は制御文字 (NUL, LF など)、赤は文字にならない不正なバイト列、紫の枠は UTF-16 のサロゲートペアです。箱をクリックするとカーソルがその位置に移動します。',
+  'text.invalid': '不正なバイト列',
+  'text.surrogatePair': 'サロゲートペア',
+  'text.window': '+{start} 〜 +{end} を表示中 (全 {total} バイト)',
+  'text.summary': '{chars} 文字・不正 {invalid} 箇所',
+
+  'dissect.title': 'ヘッダ解析',
+  'dissect.help': '既知のバイナリ形式 (Ethernet, IPv4/IPv6, TCP, UDP, ELF64, PNG, BMP) のヘッダを開始位置から解析し、フィールドをツリーで表示します。フィールドを選ぶとグリッド上の該当バイトとビットが黄色で示されます。各形式は自身のバイトオーダーで読まれ、エンディアン設定の影響を受けません。',
+  'dissect.format': '形式',
+  'dissect.auto': '自動判別',
+  'dissect.offset': '開始',
+  'dissect.fromCursor': 'カーソル位置',
+  'dissect.fromCursorHelp': 'カーソルのアドレスから解析します',
+  'dissect.elf32': 'ELF32 のため e_ident のみ解析',
+  'dissect.truncated': '(途中で切れています: {have} / {need} バイト)',
+  'dissect.error.unknown': '既知の形式として認識できません。形式を選んでください。',
+  'dissect.error.short': '{format} ヘッダには {need} バイト必要ですが、{have} バイトしかありません',
+
+  'checksum.title': 'チェックサム / CRC',
+  'checksum.help': '選んだバイト範囲のチェックサムと CRC を計算します。CRC は width, poly, init, refin, refout, xorout を自由に指定でき、よく使われるものはプリセットから選べます。各結果は選んだバイトオーダー (LE/BE) で入力の末尾に追加できます。Fletcher-32 は 16 ビットワードをこのバイトオーダーで読み、Internet チェックサムは常にネットワークバイトオーダー (BE) で計算します。',
+  'checksum.range': '範囲',
+  'checksum.wholeData': '全体',
+  'checksum.preset': 'CRC プリセット',
+  'checksum.custom': 'カスタム',
+  'checksum.customCrc': 'CRC-{width} (カスタム)',
+  'checksum.summary': '+{start} 〜 +{end} の {count} バイトを計算',
+  'checksum.append': '末尾に追加 ({order})',
+  'checksum.error.hex': '{name} は 16 進数で入力してください',
+  'checksum.error.tooWide': '{name} が {width} ビットに収まりません',
+
+  'varint.title': '可変長整数エンコーディング',
+  'varint.help': '同じ整数を LEB128・protobuf・VLQ・UTF-8 風プレフィックス・CBOR・MessagePack で符号化したバイト列です。各ビットは継続/長さを示すフラグ、型ヘッダ、値本体のペイロードで色分けされます。下のデコード欄に貼り付けたバイト列は逆方向に解釈され、途中で途切れたものや冗長な（overlong）符号化はエラーになります。',
+  'varint.value': '値: {value}',
+  'varint.legend.flag': '継続 / 長さフラグ',
+  'varint.legend.header': '型ヘッダ',
+  'varint.legend.payload': 'ペイロード',
+  'varint.payloadBit': 'ペイロード ビット {bit}',
+  'varint.toDecoder': 'この符号化をデコード欄へ送る',
+  'varint.decode': 'デコード',
+  'varint.format': '形式',
+  'varint.placeholder': 'バイト列を貼り付け (例: E5 8E 26)',
+  'varint.decoded': '{value}（{count} バイト）',
+  'varint.trailing': '後続の {count} バイトは varint に含まれません',
+  'varint.useValue': '入力に反映',
+  'varint.error.negative': '{format} は負の値を表せません',
+  'varint.error.tooLarge': '{format} で表せる範囲を超えています',
+  'varint.error.tooLong': '{count} バイトを超えています',
+  'varint.error.truncated': '途中で途切れています: {count} バイト目でも継続を示したまま終わりました',
+  'varint.error.overlong': '冗長な符号化です: 同じ値は {count} バイトで表せます',
+  'varint.error.invalidLead': '先頭バイト 0x{byte} はこの形式の整数ではありません',
+  'varint.error.badContinuation': '+{offset} が継続バイト (10xxxxxx) ではありません',
+
+  'bits.title': 'ビット解析',
+  'bits.help': 'カーソル位置のワードから求めた値の一覧です。項目にマウスを乗せる（またはフォーカスする）と、その結果に関わるビットが上のワードで黄色く囲まれます。変換結果は「書き込む」でワードに反映できます。',
+  'bits.signBit': '符号拡張の元ビット',
+  'bits.popcount': 'popcount（1 の数）',
+  'bits.parity': 'パリティ',
+  'bits.parity.even': '偶数',
+  'bits.parity.odd': '奇数',
+  'bits.highest': '最上位の 1',
+  'bits.lowest': '最下位の 1',
+  'bits.none': 'なし',
+  'bits.isPowerOfTwo': '2 の累乗',
+  'bits.yes': 'はい (2^{exponent})',
+  'bits.no': 'いいえ',
+  'bits.nextPowerOfTwo': '次の 2 の累乗',
+  'bits.overflow': '{width} ビットを超えます',
+  'bits.reverseBits': 'ビット反転',
+  'bits.reverseBytes': 'バイト反転',
+  'bits.toGray': 'グレイコード',
+  'bits.fromGray': 'グレイコードの逆変換',
+  'bits.signExtend': 'ビット {bit} から符号拡張',
+  'bits.apply': '書き込む',
+  'bits.applyHelp': 'この値をカーソル位置のワードに書き込みます',
+
+  'width.help': 'ワードのビット幅です。1〜{max} ビットの任意の幅を指定できます。8 の倍数でない幅では、最上位バイトの余りのビットは使われません',
+  'width.custom': 'ワード幅 (ビット)',
+  'width.unusedBit': 'ワード幅の外のビット (未使用)',
+  'width.extendNeedsBytes': '8 の倍数でないワード幅では、整数は常にワード幅で切り詰められます',
+  'numbering.label': 'ビット番号:',
+  'numbering.help': 'LSB0 は最下位ビットを bit 0 とし、MSB0 は最上位ビットを bit 0 とします (PowerPC や多くの通信規格のデータシートの表記)',
+
+  'bookmark.title': 'ブックマーク',
+  'bookmark.name': 'ブックマーク名',
+  'bookmark.namePlaceholder': '名前 (例: MAGIC 0xDEADBEEF)',
+  'bookmark.add': '保存',
+  'bookmark.remove': '「{name}」を削除',
+  'bookmark.empty': '保存したブックマークはまだありません。値と表示設定に名前を付けて保存できます。',
+  'bookmark.tooLarge': '{limit} バイトを超えるバッファはブックマークできません。',
+  'bookmark.error.storage': 'ブラウザに保存できませんでした。JSON に書き出して保管してください。',
+  'bookmark.error.badJson': 'JSON を解析できません: {message}',
+  'bookmark.error.noBookmarks': '"bookmarks" 配列が見つかりません',
+  'bookmark.error.badBookmark': '{index} 番目のブックマークが不正です',
+
+  'parseError.lineColumn': '{line}行目 {column}文字目',
+  'parseError.column': '{column}文字目',
+};
@@ -0,0 +1,256 @@
+import { bytesToBigInt } from './utils';
+import {
+  FloatFormat, FLOAT32, FLOAT16, BFLOAT16, TF32, FP8_E4M3, FP8_E5M2, decomposeFloat, exactDecimal, floatToNumber, formatFloat,
+} from './float';
+import { t } from './i18n';
+
+// --- Numeric Type Registry ---
+// Each row of the interpretation table is one entry here. New types are added by
+// pushing to NUMERIC_TYPES (or calling registerNumericType), not by writing table rows.
+
+export interface QFormat {
+  // Integer bits, excluding the sign bit (TI notation: Q15 == Q0.15 is 16 bits when signed)
+  m: number;
+  // Fractional bits
+  n: number;
+  signed: boolean;
+}
+
+// Largest m and n the Q format inputs accept
+export const MAX_Q_BITS = 63;
+
+export interface InterpretContext {
+  // Bytes of the selected word, and the bits of it that hold the value
+  wordWidth: number;
+  wordBits: number;
+  qFormat: QFormat;
+}
+
+export interface NumericType {
+  id: string;
+  label: string;
+  group: 'int' | 'float' | 'fixed' | 'other';
+  // Tailwind text colour for the type name
+  color: string;
+  description: string;
+  note: string | ((ctx: InterpretContext) => string);
+  size: number | ((ctx: InterpretContext) => number);
+  // Extra text for the size column, e.g. the number of meaningful bits
+  sizeNote?: string;
+  // Hide the row unless the selected word is at least this wide
+  minWordWidth?: number;
+  // `bytes` holds exactly `size` bytes in memory order
+  decode: (bytes: number[], isLittleEndian: boolean, ctx: InterpretContext) => string;
+}
+
+export const getTypeSize = (type: NumericType, ctx: InterpretContext) => {
+  return typeof type.size === 'function' ? type.size(ctx) : type.size;
+};
+
+// Natural alignment: the largest power of two not above the size, capped at the word width
+// (a 64-bit value only needs 4-byte alignment on a 32-bit machine)
+export const getTypeAlignment = (type: NumericType, ctx: InterpretContext) => {
+  const size = getTypeSize(type, ctx);
+  let align = 1;
+  while (align * 2 <= size && align * 2 <= ctx.wordWidth) align *= 2;
+  return align;
+};
+
+export const getTypeNote = (type: NumericType, ctx: InterpretContext) => {
+  return typeof type.note === 'function' ? type.note(ctx) : type.note;
+};
+
+const toView = (bytes: number[]) => new DataView(Uint8Array.from(bytes).buffer);
+
+const decodeMiniFloat = (fmt: FloatFormat) => (bytes: number[], le: boolean) => {
+  const value = floatToNumber(decomposeFloat(bytesToBigInt(bytes, le), fmt));
+  return formatFloat(value, fmt);
+};
+
+// OCP E4M3 ("FN") has no infinities: only S.1111.111 is NaN, the rest of the top exponent is finite
+const decodeE4M3 = (bytes: number[]) => {
+  const b = bytes[0];
+  if ((b & 0x7F) === 0x7F) return 'NaN';
+  const sign = b & 0x80 ? -1 : 1;
+  const exp = (b >> 3) & 0xF;
+  const mant = b & 0x7;
+  const magnitude = exp === 0 ? mant * 2 ** -9 : (8 + mant) * 2 ** (exp - 10);
+  if (magnitude === 0) return sign < 0 ? '-0' : '0';
+  return formatFloat(sign * magnitude, FP8_E4M3);
+};
+
+const decodeQ = (bytes: number[], le: boolean, ctx: InterpretContext) => {
+  const { m, n, signed } = ctx.qFormat;
+  const bits = m + n + (signed ? 1 : 0);
+  const raw = BigInt.asUintN(bits, bytesToBigInt(bytes, le));
+  const value = signed ? BigInt.asIntN(bits, raw) : raw;
+  return exactDecimal(value < 0n ? -value : value, -n, value < 0n);
+};
+
+// Packed BCD: one decimal digit per nibble, most significant digit first
+const decodeBCD = (bytes: number[], le: boolean, ctx: InterpretContext) => {
+  const hex = BigInt.asUintN(ctx.wordBits, bytesToBigInt(bytes, le)).toString(16).padStart(Math.ceil(ctx.wordBits / 4), '0').toUpperCase();
+  const invalid = hex.match(/[A-F]/);
+  if (invalid) return t('type.bcd.invalid', { digit: invalid[0] });
+  return hex.replace(/^0+(?=.)/, '');
+};
+
+// The selected word at its exact bit width; unused bits of a partial top byte are ignored
+const decodeWord = (signed: boolean) => (bytes: number[], le: boolean, ctx: InterpretContext) => {
+  const raw = BigInt.asUintN(ctx.wordBits, bytesToBigInt(bytes, le));
+  return (signed ? BigInt.asIntN(ctx.wordBits, raw) : raw).toString();
+};
+
+const wordNote = (prefix: string) => (ctx: InterpretContext) => {
+  const unused = ctx.wordWidth * 8 - ctx.wordBits;
+  const name = `${prefix}${ctx.wordBits}`;
+  return unused ? t('type.word.notePartial', { name, unused }) : name;
+};
+
+const decodeInt24 = (signed: boolean) => (bytes: number[], le: boolean) => {
+  const raw = bytesToBigInt(bytes, le);
+  return (signed ? BigInt.asIntN(24, raw) : raw).toString();
+};
+
+export const NUMERIC_TYPES: NumericType[] = [
+  {
+    id: 'int8', label: 'Int8', group: 'int', color: 'text-cyan-400', size: 1,
+    get description() { return t('type.int8.description'); }, get note() { return t('type.int8.note'); },
+    decode: (b) => toView(b).getInt8(0).toString(),
+  },
+  {
+    id: 'uint8', label: 'Uint8', group: 'int', color: 'text-cyan-400', size: 1,
+    get description() { return t('type.uint8.description'); }, get note() { return t('type.uint8.note'); },
+    decode: (b) => toView(b).getUint8(0).toString(),
+  },
+  {
+    id: 'int16', label: 'Int16', group: 'int', color: 'text-purple-400', size: 2,
+    get description() { return t('type.int16.description'); }, note: '±32,767',
+    decode: (b, le) => toView(b).getInt16(0, le).toString(),
+  },
+  {
+    id: 'uint16', label: 'Uint16', group: 'int', color: 'text-purple-400', size: 2,
+    get description() { return t('type.uint16.description'); }, get note() { return t('type.uint16.note'); },
+    decode: (b, le) => toView(b).getUint16(0, le).toString(),
+  },
+  {
+    id: 'int24', label: 'Int24', group: 'int', color: 'text-lime-400', size: 3,
+    get description() { return t('type.int24.description'); }, get note() { return t('type.int24.note'); },
+    decode: decodeInt24(true),
+  },
+  {
+    id: 'uint24', label: 'Uint24', group: 'int', color: 'text-lime-400', size: 3,
+    get description() { return t('type.uint24.description'); }, get note() { return t('type.uint24.note'); },
+    decode: decodeInt24(false),
+  },
+  {
+    id: 'int32', label: 'Int32', group: 'int', color: 'text-green-400', size: 4,
+    get description() { return t('type.int32.description'); }, get note() { return t('type.int32.note'); },
+    decode: (b, le) => toView(b).getInt32(0, le).toString(),
+  },
+  {
+    id: 'uint32', label: 'Uint32', group: 'int', color: 'text-green-400', size: 4,
+    get description() { return t('type.uint32.description'); }, get note() { return t('type.uint32.note'); },
+    decode: (b, le) => toView(b).getUint32(0, le).toString(),
+  },
+  {
+    id: 'float32', label: 'Float32', group: 'float', color: 'text-yellow-400', size: 4,
+    get description() { return t('type.float32.description'); }, get note() { return t('type.float32.note'); },
+    decode: (b, le) => toView(b).getFloat32(0, le).toExponential(4),
+  },
+  {
+    id: 'int64', label: 'Int64', group: 'int', color: 'text-pink-400', size: 8, minWordWidth: 8,
+    get description() { return t('type.int64.description'); }, note: 'BigInt',
+    decode: (b, le) => toView(b).getBigInt64(0, le).toString(),
+  },
+  {
+    id: 'uint64', label: 'Uint64', group: 'int', color: 'text-pink-400', size: 8, minWordWidth: 8,
+    get description() { return t('type.uint64.description'); }, note: 'BigInt',
+    decode: (b, le) => toView(b).getBigUint64(0, le).toString(),
+  },
+  {
+    id: 'float64', label: 'Float64', group: 'float', color: 'text-yellow-400', size: 8, minWordWidth: 8,
+    get description() { return t('type.float64.description'); }, get note() { return t('type.float64.note'); },
+    decode: (b, le) => toView(b).getFloat64(0, le).toExponential(4),
+  },
+  {
+    id: 'float16', label: 'Float16', group: 'float', color: 'text-orange-400', size: 2,
+    get description() { return t('type.float16.description'); },
+    get note() { return t('type.float16.note'); },
+    decode: decodeMiniFloat(FLOAT16),
+  },
+  {
+    id: 'bfloat16', label: 'BFloat16', group: 'float', color: 'text-orange-400', size: 2,
+    get description() { return t('type.bfloat16.description'); },
+    get note() { return t('type.bfloat16.note'); },
+    decode: decodeMiniFloat(BFLOAT16),
+  },
+  {
+    id: 'tf32', label: 'TF32', group: 'float', color: 'text-orange-400', size: 4, sizeNote: '19-bit',
+    get description() { return t('type.tf32.description'); },
+    get note() { return t('type.tf32.note'); },
+    decode: (b, le) => {
+      const bits = bytesToBigInt(b, le) & ~0x1FFFn;
+      return formatFloat(floatToNumber(decomposeFloat(bits, FLOAT32)), TF32);
+    },
+  },
+  {
+    id: 'fp8e4m3', label: 'FP8 E4M3', group: 'float', color: 'text-amber-400', size: 1,
+    get description() { return t('type.fp8e4m3.description'); },
+    get note() { return t('type.fp8e4m3.note'); },
+    decode: decodeE4M3,
+  },
+  {
+    id: 'fp8e5m2', label: 'FP8 E5M2', group: 'float', color: 'text-amber-400', size: 1,
+    get description() { return t('type.fp8e5m2.description'); },
+    get note() { return t('type.fp8e5m2.note'); },
+    decode: decodeMiniFloat(FP8_E5M2),
+  },
+  {
+    id: 'word', get label() { return t('type.word.label'); }, group: 'int', color: 'text-sky-400',
+    size: (ctx) => ctx.wordWidth,
+    get description() { return t('type.word.description'); },
+    note: wordNote('u'),
+    decode: decodeWord(false),
+  },
+  {
+    id: 'sword', get label() { return t('type.sword.label'); }, group: 'int', color: 'text-sky-400',
+    size: (ctx) => ctx.wordWidth,
+    get description() { return t('type.sword.description'); },
+    note: wordNote('i'),
+    decode: decodeWord(true),
+  },
+  {
+    id: 'qformat', get label() { return t('type.qformat.label'); }, group: 'fixed', color: 'text-teal-400',
+    size: (ctx) => Math.max(1, Math.ceil((ctx.qFormat.m + ctx.qFormat.n + (ctx.qFormat.signed ? 1 : 0)) / 8)),
+    get description() { return t('type.qformat.description'); },
+    note: (ctx) => t('type.qformat.note', {
+      sign: t(ctx.qFormat.signed ? 'sign.signed' : 'sign.unsigned'), m: ctx.qFormat.m, n: ctx.qFormat.n,
+    }),
+    decode: decodeQ,
+  },
+  {
+    id: 'bcd', label: 'BCD', group: 'other', color: 'text-teal-400',
+    size: (ctx) => ctx.wordWidth,
+    get description() { return t('type.bcd.description'); },
+    note: (ctx) => t('type.bcd.note', { digits: Math.ceil(ctx.wordBits / 4) }),
+    decode: decodeBCD,
+  },
+];
+
+export const registerNumericType = (type: NumericType) => {
+  NUMERIC_TYPES.push(type);
+};
+
+// Decode one type at `offset`, or null when the buffer is too short
+export const interpretAt = (
+  type: NumericType,
+  memoryBytes: number[],
+  offset: number,
+  isLittleEndian: boolean,
+  ctx: InterpretContext
+): string | null => {
+  const size = getTypeSize(type, ctx);
+  if (offset + size > memoryBytes.length) return null;
+  return type.decode(memoryBytes.slice(offset, offset + size), isLittleEndian, ctx);
+};
@@ -0,0 +1,233 @@
+import { InputFormat, SourceType, SOURCE_TYPES, isValidWordBits } from './utils';
+import { BitNumbering } from './bitOps';
+import { FloatFormat, FLOAT16, BFLOAT16, FLOAT32, FLOAT64 } from './float';
+import { QFormat, MAX_Q_BITS } from './numericTypes';
+import { RegisterDefinition, parseRegisterJson } from './register';
+import { AbiPreset, ABI_PRESETS } from './structLayout';
+import { ByteBuffer, DumpFormat, DUMP_FORMAT_LABELS } from './hexDump';
+import { MessageKey, t } from './i18n';
+
+// --- Permalinks ---
+// Small settings go into the query string, readable and editable by hand. Buffers and the register
+// and struct sources go into the hash, deflated; the hash never reaches the server, so its size only
+// matters to whoever has to paste the link.
+
+export interface ViewState {
+  inputMode: 'value' | 'buffer';
+  inputStr: string;
+  inputType: InputFormat;
+  sourceType: SourceType;
+  wordBits: number;
+  bitNumbering: BitNumbering;
+  isLittleEndian: boolean;
+  isSigned: boolean;
+  overflowMode: 'extend' | 'wrap';
+  viewUnit: 'byte' | 'word';
+  floatFormat: FloatFormat;
+  highlightFloatFields: boolean;
+  qFormat: QFormat;
+  cursorOffset: number;
+  showRegisterOverlay: boolean;
+  structAbi: AbiPreset;
+  showStructOverlay: boolean;
+  buffer: ByteBuffer;
+  registerDef: RegisterDefinition;
+  structSource: string;
+}
+
+export const FLOAT_FORMATS: FloatFormat[] = [FLOAT16, BFLOAT16, FLOAT32, FLOAT64];
+
+const INPUT_FORMATS: InputFormat[] = ['auto', 'dec', 'hex', 'bin', 'oct'];
+
+// Links longer than this get cut by chat tools and issue trackers, so bulky parts are dropped first
+export const MAX_LINK_LENGTH = 8000;
+// Buffers past this are not worth compressing: they could never fit
+const MAX_LINK_BUFFER = 64 * 1024;
+
+// --- Query string ---
+
+const flag = (value: boolean) => value ? '1' : '0';
+
+export const writeQuery = (state: ViewState, defaults: ViewState): URLSearchParams => {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string, fallback: string) => {
+    if (value !== fallback) params.set(key, value);
+  };
+  set('mode', state.inputMode, defaults.inputMode);
+  if (state.inputMode === 'value') set('v', state.inputStr, defaults.inputStr);
+  set('fmt', state.inputType, defaults.inputType);
+  set('type', state.sourceType, defaults.sourceType);
+  set('bits', String(state.wordBits), String(defaults.wordBits));
+  set('numbering', state.bitNumbering, defaults.bitNumbering);
+  set('le', flag(state.isLittleEndian), flag(defaults.isLittleEndian));
+  set('signed', flag(state.isSigned), flag(defaults.isSigned));
+  set('overflow', state.overflowMode, defaults.overflowMode);
+  set('view', state.viewUnit, defaults.viewUnit);
+  set('float', state.floatFormat.id, defaults.floatFormat.id);
+  set('floatfields', flag(state.highlightFloatFields), flag(defaults.highlightFloatFields));
+  const q = (f: QFormat) => `${f.signed ? 's' : 'u'}${f.m}.${f.n}`;
+  set('q', q(state.qFormat), q(defaults.qFormat));
+  set('cursor', String(state.cursorOffset), String(defaults.cursorOffset));
+  set('reg', flag(state.showRegisterOverlay), flag(defaults.showRegisterOverlay));
+  set('abi', state.structAbi.id, defaults.structAbi.id);
+  set('struct', flag(state.showStructOverlay), flag(defaults.showStructOverlay));
+  return params;
+};
+
+// Unknown or malformed values are skipped, so a hand-edited link degrades to the defaults
+export const readQuery = (search: string): Partial<ViewState> => {
+  const params = new URLSearchParams(search);
+  const state: Partial<ViewState> = {};
+  const get = (key: string) => params.get(key);
+  const bool = (key: string) => get(key) === '1' ? true : get(key) === '0' ? false : undefined;
+  const oneOf = <T extends string>(key: string, values: readonly T[]) => values.find(v => v === get(key));
+
+  const mode = oneOf('mode', ['value', 'buffer'] as const);
+  if (mode) state.inputMode = mode;
+  if (get('v') !== null) state.inputStr = get('v')!;
+  const fmt = oneOf('fmt', INPUT_FORMATS);
+  if (fmt) state.inputType = fmt;
+  const type = oneOf('type', SOURCE_TYPES.map(t => t.id));
+  if (type) state.sourceType = type;
+  // Older links gave the width in bytes as `w`
+  const bits = get('bits') !== null ? Number(get('bits')) : Number(get('w')) * 8;
+  if (isValidWordBits(bits)) state.wordBits = bits;
+  const numbering = oneOf('numbering', ['lsb0', 'msb0'] as const);
+  if (numbering) state.bitNumbering = numbering;
+  state.isLittleEndian = bool('le');
+  state.isSigned = bool('signed');
+  const overflow = oneOf('overflow', ['extend', 'wrap'] as const);
+  if (overflow) state.overflowMode = overflow;
+  const view = oneOf('view', ['byte', 'word'] as const);
+  if (view) state.viewUnit = view;
+  const float = FLOAT_FORMATS.find(f => f.id === get('float'));
+  if (float) state.floatFormat = float;
+  state.highlightFloatFields = bool('floatfields');
+  const q = get('q')?.match(/^([su])(\d+)\.(\d+)$/);
+  if (q && Number(q[2]) <= MAX_Q_BITS && Number(q[3]) <= MAX_Q_BITS) state.qFormat = { signed: q[1] === 's', m: Number(q[2]), n: Number(q[3]) };
+  const cursor = Number(get('cursor'));
+  if (Number.isSafeInteger(cursor) && cursor > 0) state.cursorOffset = cursor;
+  state.showRegisterOverlay = bool('reg');
+  const abi = ABI_PRESETS.find(a => a.id === get('abi'));
+  if (abi) state.structAbi = abi;
+  state.showStructOverlay = bool('struct');
+
+  for (const key of Object.keys(state) as (keyof ViewState)[]) {
+    if (state[key] === undefined) delete state[key];
+  }
+  return state;
+};
+
+// --- Hash: deflate-raw + base64url ---
+
+const toBase64Url = (data: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipe = async (data: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream) => {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+interface HashPayload {
+  // Buffer bytes as one hex string: deflate finds repeats in it far better than in Base64
+  buffer?: { hex: string; format: DumpFormat | null; baseAddress: number; fileName: string | null };
+  register?: RegisterDefinition;
+  struct?: string;
+}
+
+const encodeHash = async (payload: HashPayload) => {
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return 'z=' + toBase64Url(await pipe(json, new CompressionStream('deflate-raw')));
+};
+
+export const readHash = async (hash: string): Promise<{ state: Partial<ViewState>; error: string | null }> => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get('z');
+  if (!encoded) return { state: {}, error: null };
+  let payload: HashPayload;
+  try {
+    const json = await pipe(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    return { state: {}, error: t('link.error.corrupt') };
+  }
+
+  const state: Partial<ViewState> = {};
+  const b = payload.buffer;
+  if (b && typeof b.hex === 'string' && /^([0-9a-f]{2})*$/.test(b.hex)) {
+    state.buffer = {
+      bytes: (b.hex.match(/../g) ?? []).map(h => parseInt(h, 16)),
+      format: b.format && b.format in DUMP_FORMAT_LABELS ? b.format : null,
+      baseAddress: Number.isSafeInteger(b.baseAddress) ? b.baseAddress : 0,
+      fileName: typeof b.fileName === 'string' ? b.fileName : null,
+    };
+  }
+  if (payload.register) {
+    const { def } = parseRegisterJson(JSON.stringify(payload.register));
+    if (def) state.registerDef = def;
+  }
+  if (typeof payload.struct === 'string') state.structSource = payload.struct;
+  return { state, error: null };
+};
+
+export interface Permalink {
+  url: string;
+  // What had to be left out to stay under MAX_LINK_LENGTH
+  omitted: string[];
+}
+
+// The address bar is rewritten after every change, most of them to the query string alone, so the deflated
+// hash is kept while its parts are the same objects; each subset of parts gets its own entry.
+let hashCache: { parts: unknown[]; hashes: Map<string, string> } | null = null;
+// A buffer's bytes only change together with the ByteBuffer object, so its hex can be kept with it
+const bufferHex = new WeakMap<ByteBuffer, string>();
+
+const cachedHash = async (parts: unknown[], payload: HashPayload) => {
+  if (!hashCache || hashCache.parts.some((part, i) => !Object.is(part, parts[i]))) {
+    hashCache = { parts, hashes: new Map() };
+  }
+  const cache = hashCache;
+  const key = Object.keys(payload).join();
+  const hash = cache.hashes.get(key) ?? await encodeHash(payload);
+  cache.hashes.set(key, hash);
+  return hash;
+};
+
+export const buildPermalink = async (state: ViewState, defaults: ViewState, baseUrl: string): Promise<Permalink> => {
+  const query = writeQuery(state, defaults).toString();
+  const base = baseUrl + (query ? `?${query}` : '');
+  const sources = [state.inputMode === 'buffer' && state.buffer, state.registerDef, state.structSource];
+
+  const payload: HashPayload = {};
+  const omitted: string[] = [];
+  if (state.inputMode === 'buffer' && state.buffer.bytes.length) {
+    if (state.buffer.bytes.length <= MAX_LINK_BUFFER) {
+      const { bytes, format, baseAddress, fileName } = state.buffer;
+      const hex = bufferHex.get(state.buffer) ?? bytes.map(b => b.toString(16).padStart(2, '0')).join('');
+      bufferHex.set(state.buffer, hex);
+      payload.buffer = { hex, format, baseAddress, fileName };
+    } else {
+      omitted.push(t('link.part.buffer'));
+    }
+  }
+  if (JSON.stringify(state.registerDef) !== JSON.stringify(defaults.registerDef)) payload.register = state.registerDef;
+  if (state.structSource !== defaults.structSource) payload.struct = state.structSource;
+
+  // Drop the bulkiest part until the link fits
+  const parts: [keyof HashPayload, MessageKey][] = [['buffer', 'link.part.buffer'], ['struct', 'link.part.struct'], ['register', 'link.part.register']];
+  for (;;) {
+    const hash = Object.keys(payload).length ? '#' + await cachedHash(sources, payload) : '';
+    if (base.length + hash.length <= MAX_LINK_LENGTH) return { url: base + hash, omitted };
+    const drop = parts.find(([key]) => key in payload);
+    if (!drop) return { url: base, omitted };
+    delete payload[drop[0]];
+    omitted.push(t(drop[1]));
+  }
+};
@@ -0,0 +1,150 @@
+import { maskOf } from './bitOps';
+import { t } from './i18n';
+
+// Hardware register layouts: named bit fields over one word
+
+export type FieldAccess = 'RW' | 'RO' | 'W1C';
+
+export const FIELD_ACCESS: { id: FieldAccess; label: string }[] = [
+  { id: 'RW', get label() { return t('register.access.rw'); } },
+  { id: 'RO', get label() { return t('register.access.ro'); } },
+  { id: 'W1C', get label() { return t('register.access.w1c'); } },
+];
+
+export interface RegisterField {
+  name: string;
+  // Bit range, inclusive, 0 = LSB of the word
+  msb: number;
+  lsb: number;
+  access: FieldAccess;
+  description?: string;
+  // Value (as a decimal string) → name
+  enums?: Record<string, string>;
+}
+
+export interface RegisterDefinition {
+  name: string;
+  width: number;
+  fields: RegisterField[];
+}
+
+// Once loaded the definition is the user's to edit, so its descriptions keep the language the page opened in
+export const EXAMPLE_REGISTER: RegisterDefinition = {
+  name: 'UART_CR',
+  width: 32,
+  fields: [
+    { name: 'EN', msb: 0, lsb: 0, access: 'RW', description: t('register.example.en'), enums: { '0': 'Disabled', '1': 'Enabled' } },
+    { name: 'TXE', msb: 8, lsb: 8, access: 'RW', description: t('register.example.txe') },
+    { name: 'RXE', msb: 9, lsb: 9, access: 'RW', description: t('register.example.rxe') },
+    { name: 'PARITY', msb: 11, lsb: 10, access: 'RW', description: t('register.example.parity'), enums: { '0': 'None', '1': 'Even', '2': 'Odd' } },
+    { name: 'BAUD', msb: 15, lsb: 12, access: 'RW', description: t('register.example.baud') },
+    { name: 'OVR', msb: 16, lsb: 16, access: 'W1C', description: t('register.example.ovr') },
+    { name: 'STATE', msb: 31, lsb: 28, access: 'RO', description: t('register.example.state'), enums: { '0': 'IDLE', '1': 'TX', '2': 'RX' } },
+  ],
+};
+
+// Background/text pairs cycled per field
+export const FIELD_COLORS = [
+  { bar: 'bg-fuchsia-500', text: 'text-fuchsia-400' },
+  { bar: 'bg-sky-500', text: 'text-sky-400' },
+  { bar: 'bg-lime-500', text: 'text-lime-400' },
+  { bar: 'bg-orange-500', text: 'text-orange-400' },
+  { bar: 'bg-violet-500', text: 'text-violet-400' },
+  { bar: 'bg-emerald-500', text: 'text-emerald-400' },
+  { bar: 'bg-rose-500', text: 'text-rose-400' },
+  { bar: 'bg-yellow-500', text: 'text-yellow-400' },
+];
+
+export const getFieldWidth = (field: RegisterField) => field.msb - field.lsb + 1;
+
+export const extractField = (word: bigint, field: RegisterField): bigint => {
+  return (word >> BigInt(field.lsb)) & maskOf(getFieldWidth(field));
+};
+
+export const insertField = (word: bigint, field: RegisterField, value: bigint): bigint => {
+  const mask = maskOf(getFieldWidth(field)) << BigInt(field.lsb);
+  return (word & ~mask) | ((value << BigInt(field.lsb)) & mask);
+};
+
+export const findFieldIndexAt = (def: RegisterDefinition, bit: number): number => {
+  return def.fields.findIndex(f => bit >= f.lsb && bit <= f.msb);
+};
+
+export const formatFieldRange = (field: RegisterField) => {
+  return field.msb === field.lsb ? `[${field.msb}]` : `[${field.msb}:${field.lsb}]`;
+};
+
+// Problems that make the layout ambiguous; an empty list means it is usable
+export const validateRegister = (def: RegisterDefinition, wordBits: number): string[] => {
+  const errors: string[] = [];
+  if (def.width > wordBits) {
+    errors.push(t('register.error.tooWide', { width: def.width, wordBits }));
+  }
+  def.fields.forEach((f, i) => {
+    const label = f.name || t('register.error.unnamedField', { index: i + 1 });
+    if (f.lsb > f.msb) errors.push(t('register.error.lsbAboveMsb', { field: label }));
+    if (f.msb >= def.width) errors.push(t('register.error.outOfRange', { field: label, bit: f.msb, width: def.width }));
+    def.fields.slice(0, i).forEach(other => {
+      if (f.lsb <= other.msb && other.lsb <= f.msb) {
+        errors.push(t('register.error.overlap', { field: label, other: other.name }));
+      }
+    });
+  });
+  return errors;
+};
+
+// "0=Off, 1=On" <-> { "0": "Off", "1": "On" }; values may be written in any literal syntax
+export const formatEnums = (enums: Record<string, string> | undefined) => {
+  return Object.entries(enums ?? {}).map(([v, name]) => `${v}=${name}`).join(', ');
+};
+
+export const parseEnums = (text: string): Record<string, string> | undefined => {
+  const enums: Record<string, string> = {};
+  for (const part of text.split(',')) {
+    const [rawValue, ...rest] = part.split('=');
+    const name = rest.join('=').trim();
+    if (!rawValue?.trim() || !name) continue;
+    try {
+      enums[BigInt(rawValue.trim()).toString()] = name;
+    } catch {
+      // Ignore entries whose value is not a number while the user is still typing
+    }
+  }
+  return Object.keys(enums).length ? enums : undefined;
+};
+
+export const serializeRegister = (def: RegisterDefinition) => JSON.stringify(def, null, 2);
+
+export const parseRegisterJson = (text: string): { def: RegisterDefinition | null; error: string | null } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { def: null, error: t('register.error.badJson', { message: (e as Error).message }) };
+  }
+
+  const obj = data as Partial<RegisterDefinition>;
+  if (!obj || typeof obj !== 'object' || !Array.isArray(obj.fields)) {
+    return { def: null, error: t('register.error.noFields') };
+  }
+
+  const fields: RegisterField[] = [];
+  for (const [i, raw] of obj.fields.entries()) {
+    const f = raw as Partial<RegisterField>;
+    if (typeof f.name !== 'string' || !Number.isInteger(f.msb) || !Number.isInteger(f.lsb)) {
+      return { def: null, error: t('register.error.badField', { index: i }) };
+    }
+    const access = FIELD_ACCESS.some(a => a.id === f.access) ? f.access! : 'RW';
+    fields.push({
+      name: f.name,
+      msb: f.msb!,
+      lsb: f.lsb!,
+      access,
+      description: typeof f.description === 'string' ? f.description : undefined,
+      enums: f.enums && typeof f.enums === 'object' ? f.enums : undefined,
+    });
+  }
+
+  const width = Number.isInteger(obj.width) ? obj.width! : Math.max(8, ...fields.map(f => f.msb + 1));
+  return { def: { name: typeof obj.name === 'string' ? obj.name : 'REG', width, fields }, error: null };
+};
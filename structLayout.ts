@@ -0,0 +1,510 @@
+import { bytesToBigInt, formatHex } from './utils';
+import { FLOAT32, FLOAT64, decomposeFloat, floatToNumber, formatFloat } from './float';
+import { t } from './i18n';
+
+// --- C struct layout under a chosen ABI ---
+
+export type ScalarKind = 'int' | 'uint' | 'char' | 'bool' | 'float' | 'pointer' | 'raw';
+
+interface ScalarInfo {
+  size: number;
+  align: number;
+}
+
+// Canonical C type names each ABI defines
+type BaseType =
+  | 'char' | 'short' | 'int' | 'long' | 'long long'
+  | 'float' | 'double' | 'long double' | '_Bool' | 'pointer';
+
+export interface AbiPreset {
+  id: string;
+  label: string;
+  description: string;
+  // Plain `char` is signed on x86 and AVR, unsigned on ARM
+  charSigned: boolean;
+  types: Record<BaseType, ScalarInfo>;
+}
+
+export const ABI_PRESETS: AbiPreset[] = [
+  {
+    id: 'sysv-x86-64',
+    label: 'x86-64 SysV',
+    get description() { return t('abi.sysv'); },
+    charSigned: true,
+    types: {
+      char: { size: 1, align: 1 }, short: { size: 2, align: 2 }, int: { size: 4, align: 4 },
+      long: { size: 8, align: 8 }, 'long long': { size: 8, align: 8 },
+      float: { size: 4, align: 4 }, double: { size: 8, align: 8 }, 'long double': { size: 16, align: 16 },
+      _Bool: { size: 1, align: 1 }, pointer: { size: 8, align: 8 },
+    },
+  },
+  {
+    id: 'win64',
+    label: 'Win64',
+    get description() { return t('abi.win64'); },
+    charSigned: true,
+    types: {
+      char: { size: 1, align: 1 }, short: { size: 2, align: 2 }, int: { size: 4, align: 4 },
+      long: { size: 4, align: 4 }, 'long long': { size: 8, align: 8 },
+      float: { size: 4, align: 4 }, double: { size: 8, align: 8 }, 'long double': { size: 8, align: 8 },
+      _Bool: { size: 1, align: 1 }, pointer: { size: 8, align: 8 },
+    },
+  },
+  {
+    id: 'aapcs32',
+    label: 'ARM AAPCS32',
+    get description() { return t('abi.aapcs32'); },
+    charSigned: false,
+    types: {
+      char: { size: 1, align: 1 }, short: { size: 2, align: 2 }, int: { size: 4, align: 4 },
+      long: { size: 4, align: 4 }, 'long long': { size: 8, align: 8 },
+      float: { size: 4, align: 4 }, double: { size: 8, align: 8 }, 'long double': { size: 8, align: 8 },
+      _Bool: { size: 1, align: 1 }, pointer: { size: 4, align: 4 },
+    },
+  },
+  {
+    id: 'avr',
+    label: 'AVR',
+    get description() { return t('abi.avr'); },
+    charSigned: true,
+    types: {
+      char: { size: 1, align: 1 }, short: { size: 2, align: 1 }, int: { size: 2, align: 1 },
+      long: { size: 4, align: 1 }, 'long long': { size: 8, align: 1 },
+      float: { size: 4, align: 1 }, double: { size: 4, align: 1 }, 'long double': { size: 4, align: 1 },
+      _Bool: { size: 1, align: 1 }, pointer: { size: 2, align: 1 },
+    },
+  },
+];
+
+export interface StructMember {
+  name: string;
+  // Type as written, normalised (e.g. "unsigned long", "char *")
+  typeName: string;
+  kind: ScalarKind;
+  offset: number;
+  // Whole member, i.e. elementSize * count
+  size: number;
+  elementSize: number;
+  // Array length, 1 for scalars
+  count: number;
+  align: number;
+}
+
+export interface StructPadding {
+  offset: number;
+  size: number;
+  // Trailing padding rounds the size up to the struct's alignment
+  trailing: boolean;
+}
+
+export interface StructLayout {
+  name: string;
+  size: number;
+  align: number;
+  members: StructMember[];
+  padding: StructPadding[];
+}
+
+export interface StructResult {
+  layout: StructLayout | null;
+  error: string | null;
+  errorPos: number | null;
+}
+
+// The overlay zero-fills memory out to the struct's end, so its size has to stay something a tab can hold
+export const MAX_STRUCT_SIZE = 1 << 20;
+
+class StructError extends Error {
+  constructor(message: string, public pos: number) {
+    super(message);
+  }
+}
+
+type Token =
+  | { type: 'ident'; text: string; pos: number }
+  | { type: 'num'; text: string; pos: number }
+  | { type: 'punct'; text: string; pos: number }
+  | { type: 'pragma'; text: string; pos: number }
+  | { type: 'end'; text: ''; pos: number };
+
+// Comments become spaces so that token positions still point into the original text
+const stripComments = (source: string) => {
+  return source.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, m => m.replace(/[^\n]/g, ' '));
+};
+
+const tokenize = (source: string): Token[] => {
+  const text = stripComments(source);
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    const rest = text.slice(pos);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      pos += space[0].length;
+      continue;
+    }
+    if (rest[0] === '#') {
+      const line = rest.match(/^#[^\n]*/)![0];
+      tokens.push({ type: 'pragma', text: line, pos });
+      pos += line.length;
+      continue;
+    }
+    const ident = rest.match(/^[A-Za-z_]\w*/);
+    if (ident) {
+      tokens.push({ type: 'ident', text: ident[0], pos });
+      pos += ident[0].length;
+      continue;
+    }
+    const num = rest.match(/^(0[xX][0-9a-fA-F]+|\d+)[uUlL]*/);
+    if (num) {
+      tokens.push({ type: 'num', text: num[1], pos });
+      pos += num[0].length;
+      continue;
+    }
+    if ('{};*[](),:'.includes(rest[0])) {
+      tokens.push({ type: 'punct', text: rest[0], pos });
+      pos++;
+      continue;
+    }
+    throw new StructError(t('struct.error.badChar', { char: rest[0] }), pos);
+  }
+  tokens.push({ type: 'end', text: '', pos: text.length });
+  return tokens;
+};
+
+const FIXED_WIDTH: Record<string, { bits: number; kind: ScalarKind }> = {
+  int8_t: { bits: 8, kind: 'int' }, uint8_t: { bits: 8, kind: 'uint' },
+  int16_t: { bits: 16, kind: 'int' }, uint16_t: { bits: 16, kind: 'uint' },
+  int32_t: { bits: 32, kind: 'int' }, uint32_t: { bits: 32, kind: 'uint' },
+  int64_t: { bits: 64, kind: 'int' }, uint64_t: { bits: 64, kind: 'uint' },
+};
+
+// Pointer-sized typedefs from <stddef.h> / <stdint.h>
+const POINTER_SIZED: Record<string, ScalarKind> = {
+  size_t: 'uint', uintptr_t: 'uint', ssize_t: 'int', intptr_t: 'int', ptrdiff_t: 'int',
+};
+
+const QUALIFIERS = new Set(['const', 'volatile', 'static', 'register', 'restrict']);
+const SPECIFIERS = new Set(['signed', 'unsigned', 'short', 'long', 'int', 'char', 'float', 'double', '_Bool', 'bool', 'void']);
+
+interface ScalarType {
+  typeName: string;
+  kind: ScalarKind;
+  info: ScalarInfo;
+}
+
+// A fixed-width integer takes the alignment of the keyword type of the same size
+const alignForSize = (abi: AbiPreset, size: number) => {
+  const match = (['char', 'short', 'int', 'long', 'long long'] as BaseType[]).find(t => abi.types[t].size === size);
+  return match ? abi.types[match].align : Math.min(size, abi.types.pointer.align);
+};
+
+const resolveSpecifiers = (words: string[], abi: AbiPreset): ScalarType => {
+  const has = (w: string) => words.includes(w);
+  const longs = words.filter(w => w === 'long').length;
+  const unsigned = has('unsigned');
+  const prefix = unsigned ? 'unsigned ' : has('signed') ? 'signed ' : '';
+
+  // Only valid behind a pointer; the declarator check rejects a plain void member
+  if (has('void')) return { typeName: 'void', kind: 'raw', info: { size: 0, align: 1 } };
+  if (has('_Bool') || has('bool')) return { typeName: '_Bool', kind: 'bool', info: abi.types._Bool };
+  if (has('float')) return { typeName: 'float', kind: 'float', info: abi.types.float };
+  if (has('double')) {
+    const base: BaseType = longs ? 'long double' : 'double';
+    const info = abi.types[base];
+    // Only binary32/binary64 can be decoded; x87 extended precision is shown as raw bytes
+    return { typeName: base, kind: info.size === 4 || info.size === 8 ? 'float' : 'raw', info };
+  }
+  if (has('char')) {
+    const kind: ScalarKind = unsigned ? 'uint' : has('signed') ? 'int' : 'char';
+    return { typeName: `${prefix}char`, kind, info: abi.types.char };
+  }
+  const base: BaseType = has('short') ? 'short' : longs >= 2 ? 'long long' : longs === 1 ? 'long' : 'int';
+  return { typeName: `${unsigned ? 'unsigned ' : ''}${base}`, kind: unsigned ? 'uint' : 'int', info: abi.types[base] };
+};
+
+// GCC __attribute__((...)): only packed and aligned(N) change the layout
+interface Attributes {
+  packed: boolean;
+  aligned: number;
+}
+
+export const parseStruct = (source: string, abi: AbiPreset): StructResult => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch (err) {
+    if (err instanceof StructError) return { layout: null, error: err.message, errorPos: err.pos };
+    throw err;
+  }
+
+  let i = 0;
+  const packStack: number[] = [];
+  let pack = 0; // 0 = no #pragma pack in effect
+
+  const peek = () => tokens[i];
+
+  // #pragma pack(n) / pack(push, n) / pack(pop) / pack()
+  const applyPragma = (tok: Token) => {
+    const m = tok.text.match(/^#\s*pragma\s+pack\s*\(\s*(push)?\s*,?\s*(pop)?\s*,?\s*(\d+)?\s*\)/);
+    if (!m) {
+      if (/^#\s*pragma\s+pack\b/.test(tok.text)) throw new StructError(t('struct.error.badPragma'), tok.pos);
+      return; // Other directives (#include, #define ...) do not affect layout
+    }
+    const [, push, pop, n] = m;
+    if (pop) {
+      pack = packStack.pop() ?? 0;
+      return;
+    }
+    if (push) packStack.push(pack);
+    if (n !== undefined) {
+      const value = parseInt(n, 10);
+      if (![1, 2, 4, 8, 16].includes(value)) throw new StructError(t('struct.error.badPack'), tok.pos);
+      pack = value;
+    } else if (!push) {
+      pack = 0;
+    }
+  };
+
+  const next = (): Token => {
+    while (peek().type === 'pragma') applyPragma(tokens[i++]);
+    return tokens[i++];
+  };
+  const lookahead = (): Token => {
+    while (peek().type === 'pragma') applyPragma(tokens[i++]);
+    return peek();
+  };
+  const expect = (text: string) => {
+    const tok = next();
+    if (tok.text !== text) {
+      throw new StructError(tok.type === 'end' ? t('struct.error.missing', { token: text }) : t('struct.error.expected', { expected: text, found: tok.text }), tok.pos);
+    }
+    return tok;
+  };
+  const expectNumber = () => {
+    const tok = next();
+    if (tok.type !== 'num') throw new StructError(t('struct.error.numberExpected'), tok.pos);
+    return Number(BigInt(tok.text));
+  };
+
+  const parseAttributes = (attrs: Attributes) => {
+    while (lookahead().text === '__attribute__' || lookahead().text === '__attribute') {
+      next();
+      expect('(');
+      expect('(');
+      while (lookahead().text !== ')') {
+        const name = next();
+        if (name.type !== 'ident') throw new StructError(t('struct.error.attributeExpected'), name.pos);
+        const attr = name.text.replace(/^__(.*)__$/, '$1');
+        if (attr === 'packed') {
+          attrs.packed = true;
+        } else if (attr === 'aligned') {
+          expect('(');
+          const n = expectNumber();
+          if (n <= 0 || (n & (n - 1)) !== 0) throw new StructError(t('struct.error.badAligned'), name.pos);
+          attrs.aligned = Math.max(attrs.aligned, n);
+          expect(')');
+        } else {
+          throw new StructError(t('struct.error.unsupportedAttribute', { name: name.text }), name.pos);
+        }
+        if (lookahead().text === ',') next();
+      }
+      expect(')');
+      expect(')');
+    }
+  };
+
+  const parseType = (): ScalarType => {
+    const words: string[] = [];
+    let named: ScalarType | null = null;
+    let start = lookahead().pos;
+    for (;;) {
+      const tok = lookahead();
+      if (tok.type !== 'ident') break;
+      if (QUALIFIERS.has(tok.text)) {
+        next();
+        continue;
+      }
+      if (tok.text === 'struct' || tok.text === 'union' || tok.text === 'enum') {
+        throw new StructError(t('struct.error.nested', { keyword: tok.text }), tok.pos);
+      }
+      if (SPECIFIERS.has(tok.text)) {
+        if (named) break;
+        words.push(next().text);
+        continue;
+      }
+      // A typedef name, unless it is already the member name after a complete type
+      if (words.length || named) break;
+      next();
+      start = tok.pos;
+      if (FIXED_WIDTH[tok.text]) {
+        const { bits, kind } = FIXED_WIDTH[tok.text];
+        named = { typeName: tok.text, kind, info: { size: bits / 8, align: alignForSize(abi, bits / 8) } };
+      } else if (POINTER_SIZED[tok.text]) {
+        named = { typeName: tok.text, kind: POINTER_SIZED[tok.text], info: abi.types.pointer };
+      } else {
+        throw new StructError(t('struct.error.unknownType', { type: tok.text }), tok.pos);
+      }
+    }
+    if (named) return named;
+    if (!words.length) throw new StructError(t('struct.error.typeExpected'), start);
+    return resolveSpecifiers(words, abi);
+  };
+
+  const members: (StructMember & { attrs: Attributes })[] = [];
+  const names = new Set<string>();
+
+  const parseMembers = () => {
+    while (lookahead().text !== '}') {
+      if (lookahead().type === 'end') throw new StructError(t('struct.error.missingBrace'), lookahead().pos);
+      const base = parseType();
+      for (;;) {
+        let pointer = false;
+        while (lookahead().text === '*') {
+          next();
+          pointer = true;
+          while (QUALIFIERS.has(lookahead().text)) next();
+        }
+        const nameTok = next();
+        if (nameTok.type !== 'ident') throw new StructError(t('struct.error.memberExpected'), nameTok.pos);
+        if (names.has(nameTok.text)) throw new StructError(t('struct.error.duplicateMember', { name: nameTok.text }), nameTok.pos);
+        if (base.typeName === 'void' && !pointer) throw new StructError(t('struct.error.voidMember'), nameTok.pos);
+
+        let count = 1;
+        while (lookahead().text === '[') {
+          next();
+          const n = expectNumber();
+          if (n <= 0) throw new StructError(t('struct.error.badArrayLength'), tokens[i - 1].pos);
+          count *= n;
+          if (!Number.isSafeInteger(count) || count > MAX_STRUCT_SIZE) {
+            throw new StructError(t('struct.error.tooLarge', { limit: MAX_STRUCT_SIZE }), tokens[i - 1].pos);
+          }
+          expect(']');
+        }
+        if (lookahead().text === ':') throw new StructError(t('struct.error.bitfield'), lookahead().pos);
+
+        const attrs: Attributes = { packed: false, aligned: 0 };
+        parseAttributes(attrs);
+
+        const scalar: ScalarType = pointer
+          ? { typeName: `${base.typeName} *`, kind: 'pointer', info: abi.types.pointer }
+          : base;
+        // Natural alignment, lowered by packed / #pragma pack and raised by aligned(N)
+        let align = attrs.packed ? 1 : scalar.info.align;
+        if (pack) align = Math.min(align, pack);
+        align = Math.max(align, attrs.aligned);
+
+        if (scalar.info.size * count > MAX_STRUCT_SIZE) {
+          throw new StructError(t('struct.error.tooLarge', { limit: MAX_STRUCT_SIZE }), nameTok.pos);
+        }
+        names.add(nameTok.text);
+        members.push({
+          name: nameTok.text,
+          typeName: scalar.typeName,
+          kind: scalar.kind,
+          offset: 0,
+          size: scalar.info.size * count,
+          elementSize: scalar.info.size,
+          count,
+          align,
+          attrs,
+        });
+
+        if (lookahead().text === ',') {
+          next();
+          continue;
+        }
+        expect(';');
+        break;
+      }
+    }
+  };
+
+  try {
+    const structAttrs: Attributes = { packed: false, aligned: 0 };
+    if (lookahead().text === 'typedef') next();
+    expect('struct');
+    parseAttributes(structAttrs);
+    let name = lookahead().type === 'ident' ? next().text : '';
+    expect('{');
+    parseMembers();
+    const close = expect('}');
+    parseAttributes(structAttrs);
+    if (lookahead().type === 'ident') name = name || next().text;
+    if (lookahead().text === ';') next();
+    const trailing = lookahead();
+    if (trailing.type !== 'end') throw new StructError(t('struct.error.trailing'), trailing.pos);
+    if (!members.length) throw new StructError(t('struct.error.noMembers'), trailing.pos);
+
+    // A packed struct packs every member; the struct's own alignment follows from the members
+    let offset = 0;
+    let align = 1;
+    const padding: StructPadding[] = [];
+    for (const m of members) {
+      if (structAttrs.packed && !m.attrs.aligned) m.align = 1;
+      const aligned = Math.ceil(offset / m.align) * m.align;
+      if (aligned > offset) padding.push({ offset, size: aligned - offset, trailing: false });
+      m.offset = aligned;
+      offset = aligned + m.size;
+      align = Math.max(align, m.align);
+    }
+    align = Math.max(align, structAttrs.aligned);
+    const size = Math.ceil(offset / align) * align;
+    if (size > MAX_STRUCT_SIZE) throw new StructError(t('struct.error.tooLarge', { limit: MAX_STRUCT_SIZE }), close.pos);
+    if (size > offset) padding.push({ offset, size: size - offset, trailing: true });
+
+    return {
+      layout: { name: name || t('struct.anonymous'), size, align, members: members.map(({ attrs: _, ...m }) => m), padding },
+      error: null,
+      errorPos: null,
+    };
+  } catch (err) {
+    if (err instanceof StructError) return { layout: null, error: err.message, errorPos: err.pos };
+    throw err;
+  }
+};
+
+const ARRAY_PREVIEW = 8;
+
+const decodeScalar = (bytes: number[], kind: ScalarKind, le: boolean, abi: AbiPreset): string => {
+  const raw = bytesToBigInt(bytes, le);
+  const bits = bytes.length * 8;
+  switch (kind) {
+    case 'int': return BigInt.asIntN(bits, raw).toString();
+    case 'uint': return raw.toString();
+    case 'char': {
+      const value = abi.charSigned ? BigInt.asIntN(8, raw) : raw;
+      const code = Number(raw);
+      return code >= 0x20 && code < 0x7F ? `${value} '${String.fromCharCode(code)}'` : value.toString();
+    }
+    case 'bool': return raw === 0n ? 'false' : raw === 1n ? 'true' : `true (${raw})`;
+    case 'float': {
+      const fmt = bits === 32 ? FLOAT32 : FLOAT64;
+      return formatFloat(floatToNumber(decomposeFloat(raw, fmt)), fmt);
+    }
+    case 'pointer': return `0x${raw.toString(16).toUpperCase().padStart(bytes.length * 2, '0')}`;
+    case 'raw': return bytes.map(b => formatHex(b)).join(' ');
+  }
+};
+
+// Decode a member from the buffer, or null when it runs past the end
+export const decodeMember = (member: StructMember, memoryBytes: number[], base: number, le: boolean, abi: AbiPreset): string | null => {
+  const start = base + member.offset;
+  if (start + member.size > memoryBytes.length) return null;
+  const element = (k: number) => memoryBytes.slice(start + k * member.elementSize, start + (k + 1) * member.elementSize);
+
+  if (member.count === 1) return decodeScalar(element(0), member.kind, le, abi);
+
+  // char arrays read as C strings up to the first NUL
+  if (member.kind === 'char') {
+    const bytes = memoryBytes.slice(start, start + member.size);
+    const end = bytes.indexOf(0);
+    const text = (end < 0 ? bytes : bytes.slice(0, end))
+      .map(b => (b >= 0x20 && b < 0x7F ? String.fromCharCode(b) : `\\x${formatHex(b)}`))
+      .join('');
+    return `"${text}"${end < 0 ? t('struct.noNul') : ''}`;
+  }
+
+  const shown = Array.from({ length: Math.min(member.count, ARRAY_PREVIEW) }, (_, k) => decodeScalar(element(k), member.kind, le, abi));
+  return `[${shown.join(', ')}${member.count > ARRAY_PREVIEW ? ', …' : ''}]`;
+};
@@ -0,0 +1,150 @@
+// --- Text interpretation of raw bytes ---
+// Splits bytes into characters of a given encoding. Every byte ends up in exactly one segment, so the
+// strip under the memory grid can show where each multi-byte sequence starts and ends, and which bytes
+// do not form a character at all.
+
+export type TextEncoding = 'ascii' | 'utf-8' | 'utf-16le' | 'utf-16be' | 'shift_jis' | 'euc-jp';
+
+export const TEXT_ENCODINGS: { id: TextEncoding; label: string }[] = [
+  { id: 'ascii', label: 'ASCII' },
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'utf-16le', label: 'UTF-16LE' },
+  { id: 'utf-16be', label: 'UTF-16BE' },
+  { id: 'shift_jis', label: 'Shift_JIS' },
+  { id: 'euc-jp', label: 'EUC-JP' },
+];
+
+export interface TextSegment {
+  offset: number;
+  length: number;
+  kind: 'char' | 'control' | 'invalid';
+  // The character, or the control's name (NUL, LF ...); empty for invalid bytes
+  text: string;
+  codePoint: number | null;
+  // UTF-16 only: the character was encoded as a surrogate pair
+  isSurrogatePair?: boolean;
+}
+
+const C0_NAMES = [
+  'NUL', 'SOH', 'STX', 'ETX', 'EOT', 'ENQ', 'ACK', 'BEL', 'BS', 'HT', 'LF', 'VT', 'FF', 'CR', 'SO', 'SI',
+  'DLE', 'DC1', 'DC2', 'DC3', 'DC4', 'NAK', 'SYN', 'ETB', 'CAN', 'EM', 'SUB', 'ESC', 'FS', 'GS', 'RS', 'US',
+];
+
+export const formatCodePoint = (codePoint: number) => `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}`;
+
+// Controls get their ASCII name (C1 controls their code point), space is shown as SP so it stays visible
+const charSegment = (offset: number, length: number, codePoint: number): TextSegment => {
+  if (codePoint < 0x20) return { offset, length, kind: 'control', text: C0_NAMES[codePoint], codePoint };
+  if (codePoint === 0x20) return { offset, length, kind: 'control', text: 'SP', codePoint };
+  if (codePoint === 0x7F) return { offset, length, kind: 'control', text: 'DEL', codePoint };
+  if (codePoint >= 0x80 && codePoint < 0xA0) return { offset, length, kind: 'control', text: formatCodePoint(codePoint), codePoint };
+  return { offset, length, kind: 'char', text: String.fromCodePoint(codePoint), codePoint };
+};
+
+const invalid = (offset: number, length: number): TextSegment => ({ offset, length, kind: 'invalid', text: '', codePoint: null });
+
+const decodeAscii = (bytes: number[]) =>
+  bytes.map((b, i) => b < 0x80 ? charSegment(i, 1, b) : invalid(i, 1));
+
+// Follows the WHATWG decoder: overlong forms, surrogates and values past U+10FFFF are rejected at the first
+// byte that rules them out, and a broken sequence covers only the bytes that were still plausible
+const decodeUtf8 = (bytes: number[]) => {
+  const segments: TextSegment[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const lead = bytes[i];
+    const need = lead < 0x80 ? 0 : lead >= 0xC2 && lead <= 0xDF ? 1 : lead >= 0xE0 && lead <= 0xEF ? 2 : lead >= 0xF0 && lead <= 0xF4 ? 3 : -1;
+    if (need < 0) {
+      segments.push(invalid(i, 1));
+      i++;
+      continue;
+    }
+    let codePoint = need === 0 ? lead : lead & (0x3F >> need);
+    let lower = lead === 0xE0 ? 0xA0 : lead === 0xF0 ? 0x90 : 0x80;
+    let upper = lead === 0xED ? 0x9F : lead === 0xF4 ? 0x8F : 0xBF;
+    let length = 1;
+    while (length <= need) {
+      const next = bytes[i + length];
+      if (next === undefined || next < lower || next > upper) break;
+      codePoint = (codePoint << 6) | (next & 0x3F);
+      lower = 0x80;
+      upper = 0xBF;
+      length++;
+    }
+    segments.push(length > need ? charSegment(i, length, codePoint) : invalid(i, length));
+    i += length;
+  }
+  return segments;
+};
+
+const decodeUtf16 = (bytes: number[], isLittleEndian: boolean) => {
+  const segments: TextSegment[] = [];
+  const unit = (i: number) => isLittleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1];
+  let i = 0;
+  while (i + 1 < bytes.length) {
+    const high = unit(i);
+    if (high >= 0xD800 && high <= 0xDBFF && i + 3 < bytes.length) {
+      const low = unit(i + 2);
+      if (low >= 0xDC00 && low <= 0xDFFF) {
+        const codePoint = 0x10000 + ((high - 0xD800) << 10) + (low - 0xDC00);
+        segments.push({ ...charSegment(i, 4, codePoint), isSurrogatePair: true });
+        i += 4;
+        continue;
+      }
+    }
+    // A surrogate without its partner is not a character
+    segments.push(high >= 0xD800 && high <= 0xDFFF ? invalid(i, 2) : charSegment(i, 2, high));
+    i += 2;
+  }
+  // A trailing odd byte is half a code unit
+  if (i < bytes.length) segments.push(invalid(i, 1));
+  return segments;
+};
+
+// Length of the multi-byte sequence starting at `i`, by the lead and trail byte ranges of each encoding;
+// 1 for single bytes and for a lead whose trail does not fit (the trail is then read on its own)
+const sequenceLength = (bytes: number[], i: number, encoding: 'shift_jis' | 'euc-jp') => {
+  const lead = bytes[i];
+  const trail = bytes[i + 1];
+  if (trail === undefined) return 1;
+  if (encoding === 'shift_jis') {
+    const isLead = (lead >= 0x81 && lead <= 0x9F) || (lead >= 0xE0 && lead <= 0xFC);
+    const isTrail = (trail >= 0x40 && trail <= 0x7E) || (trail >= 0x80 && trail <= 0xFC);
+    return isLead && isTrail ? 2 : 1;
+  }
+  const isEucByte = (b: number | undefined) => b !== undefined && b >= 0xA1 && b <= 0xFE;
+  // SS2: half-width katakana, SS3: JIS X 0212
+  if (lead === 0x8E) return trail >= 0xA1 && trail <= 0xDF ? 2 : 1;
+  if (lead === 0x8F) return isEucByte(trail) && isEucByte(bytes[i + 2]) ? 3 : 1;
+  return isEucByte(lead) && isEucByte(trail) ? 2 : 1;
+};
+
+// The legacy Japanese encodings are split by hand and each sequence decoded by the browser's own tables
+const decodeLegacy = (bytes: number[], encoding: 'shift_jis' | 'euc-jp') => {
+  const decoder = new TextDecoder(encoding, { fatal: true });
+  const segments: TextSegment[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const length = sequenceLength(bytes, i, encoding);
+    try {
+      const text = decoder.decode(new Uint8Array(bytes.slice(i, i + length)));
+      segments.push(charSegment(i, length, text.codePointAt(0)!));
+    } catch {
+      segments.push(invalid(i, length));
+    }
+    i += length;
+  }
+  return segments;
+};
+
+export const decodeText = (bytes: number[], encoding: TextEncoding): TextSegment[] => {
+  switch (encoding) {
+    case 'ascii': return decodeAscii(bytes);
+    case 'utf-8': return decodeUtf8(bytes);
+    case 'utf-16le': return decodeUtf16(bytes, true);
+    case 'utf-16be': return decodeUtf16(bytes, false);
+    case 'shift_jis':
+    case 'euc-jp':
+      return decodeLegacy(bytes, encoding);
+  }
+};
@@ -1,3 +1,6 @@
+import { FLOAT32, FLOAT64, decomposeFloat, floatToNumber, formatFloat } from './float';
+import { MessageKey, t } from './i18n';
+
 export const formatHex = (val: number, padding: number = 2) => {
   return val.toString(16).toUpperCase().padStart(padding, '0');
 };
@@ -6,7 +9,9 @@ export const formatBin = (val: number, padding: number = 8) => {
   return val.toString(2).padStart(padding, '0');
 };
 
-// Convert a BigInt to a byte array
+// Convert a BigInt to a byte array.
+// Negative values come out in two's complement: BigInt shifts are arithmetic, so a
+// longer length sign-extends with 0xFF bytes and a shorter one truncates (wraps).
 export const bigIntToBytes = (value: bigint, length: number, isLittleEndian: boolean): number[] => {
   const bytes: number[] = [];
   let temp = value;
@@ -25,32 +30,313 @@ export const bigIntToBytes = (value: bigint, length: number, isLittleEndian: boo
   return bytes;
 };
 
-// Parse input string to BigInt safely
-export const parseInput = (input: string, type: 'hex' | 'dec'): bigint => {
-  try {
-    if (!input) return 0n;
-    const cleanInput = input.replace(/\s/g, '').replace(/_/g, '');
-    if (type === 'hex') {
-      // Handle 0x prefix if present, or add it
-      const hexStr = cleanInput.startsWith('0x') ? cleanInput : `0x${cleanInput}`;
-      return BigInt(hexStr);
-    } else {
-      return BigInt(cleanInput);
+export type InputFormat = 'auto' | 'dec' | 'hex' | 'bin' | 'oct';
+
+export interface ParseResult<T> {
+  value: T;
+  error: string | null;
+  // Index into the original input where parsing failed
+  errorPos: number | null;
+  // Literal suffix such as "ULL" or "i8", as written
+  suffix: string | null;
+  // Storage type implied by the suffix, if it names one
+  typeHint: SourceType | null;
+}
+
+const RADIX: Record<Exclude<InputFormat, 'auto'>, number> = { dec: 10, hex: 16, bin: 2, oct: 8 };
+
+const RADIX_NAMES: Record<number, MessageKey> = { 10: 'radix.dec', 16: 'radix.hex', 2: 'radix.bin', 8: 'radix.oct' };
+
+// Rust-style suffixes first so that "u8" is not read as C's "u" followed by junk
+const RUST_SUFFIX = /(i8|i16|i32|i64|i128|isize|u8|u16|u32|u64|u128|usize)$/;
+const C_SUFFIX = /(ull|llu|ul|lu|ll|u|l)$/i;
+
+const suffixTypeHint = (suffix: string): SourceType | null => {
+  const lower = suffix.toLowerCase();
+  const rust: Record<string, SourceType> = {
+    i8: 'int8', i16: 'int16', i32: 'int32', i64: 'int64', isize: 'int64',
+    u8: 'uint8', u16: 'uint16', u32: 'uint32', u64: 'uint64', usize: 'uint64',
+  };
+  if (lower in rust) return rust[lower];
+  // 128-bit Rust integers have no fixed-width storage type here
+  if (RUST_SUFFIX.test(lower)) return null;
+  // C suffixes, assuming an LP64 data model
+  if (lower === 'u') return 'uint32';
+  if (lower === 'l' || lower === 'll') return 'int64';
+  if (lower.includes('u')) return 'uint64';
+  return null;
+};
+
+const ok = <T>(value: T, suffix: string | null = null): ParseResult<T> => ({
+  value, error: null, errorPos: null, suffix, typeHint: suffix ? suffixTypeHint(suffix) : null,
+});
+
+const fail = <T>(value: T, error: string, errorPos: number): ParseResult<T> => ({
+  value, error, errorPos, suffix: null, typeHint: null,
+});
+
+// Parse an integer literal in C, Rust or Python syntax.
+// Underscores and whitespace are ignored as digit separators; a prefix
+// (0x, 0b, 0o, or a C-style leading 0 in auto/oct mode) selects the radix.
+export const parseInput = (input: string, format: InputFormat): ParseResult<bigint> => {
+  const isSkippable = (c: string) => c === '_' || /\s/.test(c);
+
+  let end = input.length;
+  while (end > 0 && /\s/.test(input[end - 1])) end--;
+  let pos = 0;
+  while (pos < end && /\s/.test(input[pos])) pos++;
+  if (pos === end) return ok(0n);
+
+  let negative = false;
+  if (input[pos] === '-' || input[pos] === '+') {
+    negative = input[pos] === '-';
+    pos++;
+  }
+
+  let radix = format === 'auto' ? 10 : RADIX[format];
+  const prefix = input.slice(pos, pos + 2).toLowerCase();
+  const prefixRadix: Record<string, number> = { '0x': 16, '0b': 2, '0o': 8 };
+  // In hex mode "0b" is just digits, so only a matching prefix is taken there
+  if (prefix in prefixRadix && (format !== 'hex' || prefix === '0x')) {
+    const detected = prefixRadix[prefix];
+    if (format !== 'auto' && format !== 'dec' && detected !== radix) {
+      return fail(0n, t('parse.prefixNotAllowed', { radix: t(RADIX_NAMES[radix]), prefix: input.slice(pos, pos + 2) }), pos);
+    }
+    radix = detected;
+    pos += 2;
+  } else if ((format === 'auto' || format === 'oct') && input[pos] === '0' && /[0-9_]/.test(input[pos + 1] ?? '')) {
+    // C-style octal such as 0755
+    radix = 8;
+    pos += 1;
+  }
+
+  // Strip a type suffix. Hex digits never collide with the suffix letters (i, u, l, s, z).
+  let suffix: string | null = null;
+  const body = input.slice(0, end);
+  const match = body.match(RUST_SUFFIX) ?? body.match(C_SUFFIX);
+  if (match && match.index !== undefined && match.index >= pos) {
+    suffix = match[1];
+    end = match.index;
+  }
+
+  let value = 0n;
+  let digits = 0;
+  for (let i = pos; i < end; i++) {
+    const c = input[i];
+    if (isSkippable(c)) continue;
+    const d = parseInt(c, 36);
+    if (Number.isNaN(d) || d >= radix) {
+      return fail(0n, t('parse.badDigit', { char: c, radix: t(RADIX_NAMES[radix]) }), i);
+    }
+    value = value * BigInt(radix) + BigInt(d);
+    digits++;
+  }
+
+  if (digits === 0) {
+    return fail(0n, t('parse.noDigits'), Math.min(end, input.length));
+  }
+
+  return ok(negative ? -value : value, suffix);
+};
+
+// Reassemble the logical value from bytes stored in memory order
+export const bytesToBigInt = (bytes: number[], isLittleEndian: boolean): bigint => {
+  let val = 0n;
+  const ordered = isLittleEndian ? [...bytes].reverse() : bytes;
+  for (const b of ordered) {
+    val = (val << 8n) | BigInt(b);
+  }
+  return val;
+};
+
+export type SourceType =
+  | 'int'
+  | 'int8' | 'int16' | 'int32' | 'int64'
+  | 'uint8' | 'uint16' | 'uint32' | 'uint64'
+  | 'float32' | 'float64'
+  | 'string';
+
+export interface SourceTypeInfo {
+  id: SourceType;
+  label: string;
+  // Fixed storage size in bytes, or null when the size follows the value
+  size: number | null;
+  kind: 'int' | 'float' | 'string';
+}
+
+export const SOURCE_TYPES: SourceTypeInfo[] = [
+  { id: 'int', get label() { return t('sourceType.int'); }, size: null, kind: 'int' },
+  { id: 'int8', label: 'int8', size: 1, kind: 'int' },
+  { id: 'int16', label: 'int16', size: 2, kind: 'int' },
+  { id: 'int32', label: 'int32', size: 4, kind: 'int' },
+  { id: 'int64', label: 'int64', size: 8, kind: 'int' },
+  { id: 'uint8', label: 'uint8', size: 1, kind: 'int' },
+  { id: 'uint16', label: 'uint16', size: 2, kind: 'int' },
+  { id: 'uint32', label: 'uint32', size: 4, kind: 'int' },
+  { id: 'uint64', label: 'uint64', size: 8, kind: 'int' },
+  { id: 'float32', label: 'float32', size: 4, kind: 'float' },
+  { id: 'float64', label: 'float64', size: 8, kind: 'float' },
+  { id: 'string', get label() { return t('sourceType.string'); }, size: null, kind: 'string' },
+];
+
+export const getSourceTypeInfo = (id: SourceType): SourceTypeInfo => {
+  return SOURCE_TYPES.find(t => t.id === id) ?? SOURCE_TYPES[0];
+};
+
+// Parse a decimal float, accepting the usual spellings of infinity and NaN
+// and a C-style "f" suffix
+export const parseFloatInput = (input: string): ParseResult<number> => {
+  const compact = input.replace(/[\s_]/g, '');
+  if (!compact) return ok(0);
+  if (/^[+-]?inf(inity)?$/i.test(compact)) return ok(compact.startsWith('-') ? -Infinity : Infinity);
+  if (/^[+-]?nan$/i.test(compact)) return ok(NaN);
+  const clean = compact.replace(/f$/i, '');
+  if (/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(clean)) return ok(Number(clean));
+
+  const badIndex = input.search(/[^\s_0-9.eE+\-fF]/);
+  return fail(0, t('parse.badFloat'), badIndex >= 0 ? badIndex : 0);
+};
+
+// Encode the input as the selected source type, returning the bytes in memory order.
+// The variable-length 'int' type is handled by bigIntToBytes and is not accepted here.
+export const encodeTypedInput = (
+  input: string,
+  sourceType: Exclude<SourceType, 'int'>,
+  format: InputFormat,
+  isLittleEndian: boolean
+): ParseResult<number[]> => {
+  if (sourceType === 'string') {
+    return ok(Array.from(new TextEncoder().encode(input)));
+  }
+
+  const { size } = getSourceTypeInfo(sourceType);
+  const view = new DataView(new ArrayBuffer(size ?? 0));
+  const le = isLittleEndian;
+
+  let parsed: ParseResult<unknown>;
+  switch (sourceType) {
+    case 'float32':
+    case 'float64': {
+      const result = parseFloatInput(input);
+      if (sourceType === 'float32') view.setFloat32(0, result.value, le);
+      else view.setFloat64(0, result.value, le);
+      parsed = result;
+      break;
+    }
+    default: {
+      // Integers wrap to the type's width, just as a C cast would
+      const result = parseInput(input, format);
+      const value = result.value;
+      parsed = result;
+      const bits = (size ?? 0) * 8;
+      const signed = sourceType.startsWith('int');
+      const wrapped = signed ? BigInt.asIntN(bits, value) : BigInt.asUintN(bits, value);
+      switch (sourceType) {
+        case 'int8': view.setInt8(0, Number(wrapped)); break;
+        case 'uint8': view.setUint8(0, Number(wrapped)); break;
+        case 'int16': view.setInt16(0, Number(wrapped), le); break;
+        case 'uint16': view.setUint16(0, Number(wrapped), le); break;
+        case 'int32': view.setInt32(0, Number(wrapped), le); break;
+        case 'uint32': view.setUint32(0, Number(wrapped), le); break;
+        case 'int64': view.setBigInt64(0, wrapped, le); break;
+        case 'uint64': view.setBigUint64(0, wrapped, le); break;
+      }
     }
-  } catch (e) {
-    return 0n;
   }
+
+  return { ...parsed, value: Array.from(new Uint8Array(view.buffer)) };
+};
+
+// Write an integer back out in the syntax of the selected input format
+export const formatIntegerLiteral = (value: bigint, format: InputFormat): string => {
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const body =
+    format === 'dec' ? abs.toString() :
+    format === 'bin' ? `0b${abs.toString(2)}` :
+    format === 'oct' ? `0o${abs.toString(8)}` :
+    `0x${abs.toString(16).toUpperCase()}`;
+  return (negative ? '-' : '') + body;
 };
 
-export const calculateMinBytes = (value: bigint): number => {
+// The inverse of encoding: turn edited memory bytes back into text for the input box.
+// `bytes` covers only the input's own storage (the typed value, or the whole buffer for 'int').
+export const bytesToInput = (
+  bytes: number[],
+  sourceType: SourceType,
+  format: InputFormat,
+  isLittleEndian: boolean,
+  isSigned: boolean
+): string => {
+  if (sourceType === 'string') {
+    return new TextDecoder().decode(Uint8Array.from(bytes));
+  }
+
+  const bits = bytes.length * 8;
+  const raw = bytesToBigInt(bytes, isLittleEndian);
+
+  switch (sourceType) {
+    case 'float32':
+    case 'float64': {
+      const fmt = sourceType === 'float32' ? FLOAT32 : FLOAT64;
+      return formatFloat(floatToNumber(decomposeFloat(raw, fmt)), fmt);
+    }
+    case 'int':
+      // A negative literal keeps the buffer size stable; its two's complement bit pattern would not
+      return formatIntegerLiteral(isSigned ? BigInt.asIntN(bits, raw) : raw, format);
+    default: {
+      // Fixed-width types wrap on input, so the bare bit pattern reads back the same in hex/bin/oct
+      const signed = sourceType.startsWith('int') && format === 'dec';
+      return formatIntegerLiteral(signed ? BigInt.asIntN(bits, raw) : raw, format);
+    }
+  }
+};
+
+// Bytes needed to hold the value: two's complement when signed, the bare magnitude when unsigned.
+// Negative values are always sized as two's complement, since that is how they end up stored.
+export const calculateMinBytes = (value: bigint, signed: boolean = false): number => {
   if (value === 0n) return 1;
-  const absVal = value < 0n ? -value : value;
-  // Approximate bytes needed by hex length
+  if (signed || value < 0n) {
+    let bytes = 1;
+    while (BigInt.asIntN(bytes * 8, value) !== value) bytes++;
+    return bytes;
+  }
   // 1 hex char = 4 bits. 2 hex chars = 1 byte.
-  const hex = absVal.toString(16);
+  const hex = value.toString(16);
   return Math.ceil(hex.length / 2);
 };
 
+// --- Word widths ---
+// A word can be any number of bits up to MAX_WORD_BITS. It always takes whole bytes in memory, so when the
+// width is not a multiple of 8 the top bits of its most significant byte are unused.
+
+export const MAX_WORD_BITS = 256;
+
+export const WORD_WIDTH_PRESETS = [8, 16, 24, 32, 64, 128, 256];
+
+export const isValidWordBits = (bits: unknown): bits is number =>
+  typeof bits === 'number' && Number.isInteger(bits) && bits >= 1 && bits <= MAX_WORD_BITS;
+
+export const wordByteCount = (wordBits: number) => Math.ceil(wordBits / 8);
+
+// How many bits of the word's most significant byte belong to the value
+export const topByteBits = (wordBits: number) => wordBits % 8 || 8;
+
+export interface RangeCheck {
+  fits: boolean;
+  min: bigint;
+  max: bigint;
+  // The value after a C-style cast to the given width
+  wrapped: bigint;
+}
+
+export const checkIntegerRange = (value: bigint, bits: number, signed: boolean): RangeCheck => {
+  const min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+  const max = signed ? (1n << BigInt(bits - 1)) - 1n : (1n << BigInt(bits)) - 1n;
+  const wrapped = signed ? BigInt.asIntN(bits, value) : BigInt.asUintN(bits, value);
+  return { fits: value >= min && value <= max, min, max, wrapped };
+};
+
 export const getByteColor = (index: number, total: number, isLittleEndian: boolean) => {
   // Generate a consistent color based on significance
   // Index 0 in the array is the first byte in memory.
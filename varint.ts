@@ -0,0 +1,325 @@
+// --- Variable-length integers ---
+// Each scheme encodes a BigInt to bytes, decodes bytes back, and labels every bit of the encoded bytes
+// as a flag (continuation / length prefix), header (type marker) or payload bit for the bit view.
+import { t } from './i18n';
+
+export type VarintFormat = 'uleb128' | 'sleb128' | 'protobuf' | 'protobuf-sint' | 'vlq' | 'git' | 'prefix' | 'cbor' | 'msgpack';
+
+export type VarintBitRole = 'flag' | 'header' | 'payload';
+
+export interface VarintBit {
+  role: VarintBitRole;
+  // Which bit of the encoded payload this is; null where the scheme has no direct mapping (Git's biased groups)
+  valueBit: number | null;
+}
+
+export interface VarintEncodeResult {
+  bytes: number[];
+  error: string | null;
+}
+
+export interface VarintDecodeResult {
+  value: bigint | null;
+  // Bytes consumed (or read before the error); anything after that is not part of the varint
+  length: number;
+  error: string | null;
+}
+
+interface VarintScheme {
+  id: VarintFormat;
+  label: string;
+  encode: (value: bigint) => VarintEncodeResult;
+  decode: (bytes: number[]) => VarintDecodeResult;
+  // Bit roles of the given bytes, MSB first within each byte like BitGrid
+  layout: (bytes: number[]) => VarintBit[][];
+}
+
+const U64_MAX = (1n << 64n) - 1n;
+const I64_MIN = -(1n << 63n);
+
+const ok = (bytes: number[]): VarintEncodeResult => ({ bytes, error: null });
+const fail = (error: string): VarintEncodeResult => ({ bytes: [], error });
+const decodeFail = (error: string, length: number): VarintDecodeResult => ({ value: null, length, error });
+
+const hexByte = (byte: number) => byte.toString(16).toUpperCase().padStart(2, '0');
+
+const truncated = (length: number) => decodeFail(t('varint.error.truncated', { count: length }), length);
+
+// One byte's roles: the top `flags` bits are flags (or headers), the rest payload numbered from `lowBit`
+const byteLayout = (flags: number, lowBit: number | null, flagRole: VarintBitRole = 'flag'): VarintBit[] =>
+  Array.from({ length: 8 }, (_, i) => {
+    const bit = 7 - i;
+    return bit >= 8 - flags
+      ? { role: flagRole, valueBit: null }
+      : { role: 'payload', valueBit: lowBit === null ? null : lowBit + bit };
+  });
+
+// --- LEB128 family: little-endian 7-bit groups, bit 7 set on all but the last byte ---
+
+const encodeUleb = (value: bigint) => {
+  const bytes: number[] = [];
+  do {
+    const group = Number(value & 0x7Fn);
+    value >>= 7n;
+    bytes.push(value ? group | 0x80 : group);
+  } while (value);
+  return bytes;
+};
+
+// Stops once the remaining bits are all copies of the sign bit (bit 6 of the last group)
+const encodeSleb = (value: bigint) => {
+  const bytes: number[] = [];
+  for (;;) {
+    const group = Number(value & 0x7Fn);
+    value >>= 7n;
+    const done = (value === 0n && !(group & 0x40)) || (value === -1n && !!(group & 0x40));
+    bytes.push(done ? group : group | 0x80);
+    if (done) return bytes;
+  }
+};
+
+const decodeLeb = (bytes: number[], signed: boolean, maxLength = Infinity): VarintDecodeResult => {
+  let value = 0n;
+  for (let i = 0; i < bytes.length; i++) {
+    if (i >= maxLength) return decodeFail(t('varint.error.tooLong', { count: maxLength }), i);
+    value |= BigInt(bytes[i] & 0x7F) << BigInt(7 * i);
+    if (!(bytes[i] & 0x80)) {
+      return { value: signed ? BigInt.asIntN(7 * (i + 1), value) : value, length: i + 1, error: null };
+    }
+  }
+  return truncated(bytes.length);
+};
+
+const lebLayout = (bytes: number[]) => bytes.map((_, i) => byteLayout(1, 7 * i));
+
+const zigzag = (value: bigint) => (value >= 0n ? value << 1n : (-value << 1n) - 1n);
+const unzigzag = (value: bigint) => (value & 1n ? -(value >> 1n) - 1n : value >> 1n);
+
+const decodeProtobuf = (bytes: number[]): VarintDecodeResult => {
+  const result = decodeLeb(bytes, false, 10);
+  if (result.value !== null && result.value > U64_MAX) return decodeFail(t('varint.error.tooLarge', { format: 'protobuf' }), result.length);
+  return result;
+};
+
+// --- Big-endian 7-bit groups (MIDI, Git) ---
+
+const encodeVlq = (value: bigint) => {
+  const bytes = [Number(value & 0x7Fn)];
+  while ((value >>= 7n)) bytes.unshift(Number(value & 0x7Fn) | 0x80);
+  return bytes;
+};
+
+// Git's varint.c and OFS_DELTA offsets: each continuation adds one, so no value has two encodings
+const encodeGit = (value: bigint) => {
+  const bytes = [Number(value & 0x7Fn)];
+  while ((value >>= 7n)) {
+    value -= 1n;
+    bytes.unshift(Number(value & 0x7Fn) | 0x80);
+  }
+  return bytes;
+};
+
+const decodeBigEndianGroups = (bytes: number[], bias: bigint): VarintDecodeResult => {
+  let value = 0n;
+  for (let i = 0; i < bytes.length; i++) {
+    if (i > 0) value += bias;
+    value = (value << 7n) | BigInt(bytes[i] & 0x7F);
+    if (!(bytes[i] & 0x80)) return { value, length: i + 1, error: null };
+  }
+  return truncated(bytes.length);
+};
+
+// --- UTF-8-style prefix: leading ones in the first byte count the 10xxxxxx bytes that follow ---
+
+// Lead bytes up to 11111110, i.e. the original 31-bit UTF-8 extended by one more length
+const PREFIX_MAX_FOLLOWING = 6;
+const prefixCapacity = (following: number) => (following === 0 ? 7 : 6 - following + 6 * following);
+
+const leadingOnes = (byte: number) => {
+  let count = 0;
+  while (count < 8 && (byte >> (7 - count)) & 1) count++;
+  return count;
+};
+
+const encodePrefix = (value: bigint): VarintEncodeResult => {
+  for (let following = 0; following <= PREFIX_MAX_FOLLOWING; following++) {
+    if (following === 0 && value < 0x80n) return ok([Number(value)]);
+    if (following === 0 || value >= 1n << BigInt(prefixCapacity(following))) continue;
+    const bytes: number[] = [];
+    for (let i = 0; i < following; i++) {
+      bytes.unshift(0x80 | Number(value & 0x3Fn));
+      value >>= 6n;
+    }
+    const lead = (0xFF << (7 - following)) & 0xFF;
+    return ok([lead | Number(value), ...bytes]);
+  }
+  return fail(t('varint.error.tooLarge', { format: 'prefix' }));
+};
+
+const decodePrefix = (bytes: number[]): VarintDecodeResult => {
+  const ones = leadingOnes(bytes[0]);
+  if (ones === 1 || ones === 8) return decodeFail(t('varint.error.invalidLead', { byte: hexByte(bytes[0]) }), 1);
+  const following = ones === 0 ? 0 : ones - 1;
+  let value = BigInt(bytes[0] & (0xFF >> (ones + 1)));
+  for (let i = 1; i <= following; i++) {
+    if (i >= bytes.length) return truncated(bytes.length);
+    if ((bytes[i] & 0xC0) !== 0x80) return decodeFail(t('varint.error.badContinuation', { offset: i }), i + 1);
+    value = (value << 6n) | BigInt(bytes[i] & 0x3F);
+  }
+  return { value, length: following + 1, error: null };
+};
+
+const prefixLayout = (bytes: number[]) => {
+  const ones = leadingOnes(bytes[0] ?? 0);
+  const layout = bytes.map((_, i) => byteLayout(i === 0 ? Math.min(ones + 1, 8) : 2, 0));
+  // Payload bits run MSB first across the bytes, so number them from the end
+  let next = 0;
+  for (let i = layout.length - 1; i >= 0; i--) {
+    for (let j = 7; j >= 0; j--) {
+      if (layout[i][j].role === 'payload') layout[i][j] = { role: 'payload', valueBit: next++ };
+    }
+  }
+  return layout;
+};
+
+// --- CBOR (RFC 8949): major type 0/1 in the top 3 bits, then an inline value or the size of the one that follows ---
+
+const CBOR_SIZES: Record<number, number> = { 24: 1, 25: 2, 26: 4, 27: 8 };
+
+const bigEndian = (value: bigint, size: number) =>
+  Array.from({ length: size }, (_, i) => Number((value >> BigInt(8 * (size - 1 - i))) & 0xFFn));
+
+const readBigEndian = (bytes: number[]) => bytes.reduce((acc, b) => (acc << 8n) | BigInt(b), 0n);
+
+const encodeCbor = (value: bigint): VarintEncodeResult => {
+  const major = value < 0n ? 0x20 : 0;
+  const n = value < 0n ? -1n - value : value;
+  if (n > U64_MAX) return fail(t('varint.error.tooLarge', { format: 'CBOR' }));
+  if (n < 24n) return ok([major | Number(n)]);
+  const [info, size] = Object.entries(CBOR_SIZES).map(([k, v]) => [Number(k), v]).find(([, size]) => n < 1n << BigInt(8 * size))!;
+  return ok([major | info, ...bigEndian(n, size)]);
+};
+
+const decodeCbor = (bytes: number[]): VarintDecodeResult => {
+  const major = bytes[0] >> 5;
+  const info = bytes[0] & 0x1F;
+  if (major > 1 || info > 27) return decodeFail(t('varint.error.invalidLead', { byte: hexByte(bytes[0]) }), 1);
+  const size = CBOR_SIZES[info] ?? 0;
+  if (bytes.length < 1 + size) return truncated(bytes.length);
+  const n = size ? readBigEndian(bytes.slice(1, 1 + size)) : BigInt(info);
+  return { value: major ? -1n - n : n, length: 1 + size, error: null };
+};
+
+const cborLayout = (bytes: number[]) => bytes.map((byte, i) => {
+  if (i > 0) return byteLayout(0, 8 * (bytes.length - 1 - i));
+  return (byte & 0x1F) < 24 ? byteLayout(3, 0, 'header') : byteLayout(8, null, 'header');
+});
+
+// --- MessagePack: positive/negative fixint, or a type byte and a big-endian integer ---
+
+const MSGPACK_UINT: Record<number, number> = { 0xCC: 1, 0xCD: 2, 0xCE: 4, 0xCF: 8 };
+const MSGPACK_INT: Record<number, number> = { 0xD0: 1, 0xD1: 2, 0xD2: 4, 0xD3: 8 };
+
+const encodeMsgpack = (value: bigint): VarintEncodeResult => {
+  if (value >= 0n && value < 0x80n) return ok([Number(value)]);
+  if (value < 0n && value >= -32n) return ok([Number(value & 0xFFn)]);
+  if (value > U64_MAX || value < I64_MIN) return fail(t('varint.error.tooLarge', { format: 'MessagePack' }));
+  const table = value < 0n ? MSGPACK_INT : MSGPACK_UINT;
+  const [type, size] = Object.entries(table).map(([k, v]) => [Number(k), v]).find(([, size]) => {
+    const bits = BigInt(8 * size);
+    return value < 0n ? value >= -(1n << (bits - 1n)) : value < 1n << bits;
+  })!;
+  return ok([type, ...bigEndian(BigInt.asUintN(8 * size, value), size)]);
+};
+
+const decodeMsgpack = (bytes: number[]): VarintDecodeResult => {
+  const type = bytes[0];
+  if (type < 0x80) return { value: BigInt(type), length: 1, error: null };
+  if (type >= 0xE0) return { value: BigInt(type - 0x100), length: 1, error: null };
+  const size = MSGPACK_UINT[type] ?? MSGPACK_INT[type];
+  if (!size) return decodeFail(t('varint.error.invalidLead', { byte: hexByte(type) }), 1);
+  if (bytes.length < 1 + size) return truncated(bytes.length);
+  const raw = readBigEndian(bytes.slice(1, 1 + size));
+  return { value: MSGPACK_INT[type] ? BigInt.asIntN(8 * size, raw) : raw, length: 1 + size, error: null };
+};
+
+const msgpackLayout = (bytes: number[]) => bytes.map((byte, i) => {
+  if (i > 0) return byteLayout(0, 8 * (bytes.length - 1 - i));
+  if (byte < 0x80) return byteLayout(1, 0, 'header');
+  return byte >= 0xE0 ? byteLayout(3, 0, 'header') : byteLayout(8, null, 'header');
+});
+
+// --- Registry ---
+
+const unsigned = (format: string, encode: (value: bigint) => number[]) => (value: bigint) =>
+  value < 0n ? fail(t('varint.error.negative', { format })) : ok(encode(value));
+
+const int64 = (format: string, encode: (value: bigint) => number[]) => (value: bigint) =>
+  value < I64_MIN || value > U64_MAX ? fail(t('varint.error.tooLarge', { format })) : ok(encode(value));
+
+export const VARINT_SCHEMES: VarintScheme[] = [
+  { id: 'uleb128', label: 'ULEB128', encode: unsigned('ULEB128', encodeUleb), decode: (b) => decodeLeb(b, false), layout: lebLayout },
+  { id: 'sleb128', label: 'SLEB128', encode: (value) => ok(encodeSleb(value)), decode: (b) => decodeLeb(b, true), layout: lebLayout },
+  {
+    // int32/int64 fields store negatives as their 64-bit two's complement, always 10 bytes
+    id: 'protobuf',
+    label: 'protobuf (u)int64',
+    encode: int64('protobuf', (value) => encodeUleb(BigInt.asUintN(64, value))),
+    decode: decodeProtobuf,
+    layout: lebLayout,
+  },
+  {
+    id: 'protobuf-sint',
+    label: 'protobuf sint64 (zigzag)',
+    encode: (value) => (value < I64_MIN || value > -I64_MIN - 1n ? fail(t('varint.error.tooLarge', { format: 'sint64' })) : ok(encodeUleb(zigzag(value)))),
+    decode: (bytes) => {
+      const result = decodeProtobuf(bytes);
+      return result.value === null ? result : { ...result, value: unzigzag(result.value) };
+    },
+    layout: lebLayout,
+  },
+  {
+    id: 'vlq',
+    label: 'VLQ (MIDI)',
+    encode: unsigned('VLQ', encodeVlq),
+    decode: (bytes) => decodeBigEndianGroups(bytes, 0n),
+    layout: (bytes) => bytes.map((_, i) => byteLayout(1, 7 * (bytes.length - 1 - i))),
+  },
+  {
+    id: 'git',
+    label: 'Git varint',
+    encode: unsigned('Git varint', encodeGit),
+    decode: (bytes) => decodeBigEndianGroups(bytes, 1n),
+    layout: (bytes) => bytes.map(() => byteLayout(1, null)),
+  },
+  {
+    id: 'prefix',
+    label: 'UTF-8 style prefix',
+    encode: (value) => (value < 0n ? fail(t('varint.error.negative', { format: 'prefix' })) : encodePrefix(value)),
+    decode: decodePrefix,
+    layout: prefixLayout,
+  },
+  { id: 'cbor', label: 'CBOR', encode: encodeCbor, decode: decodeCbor, layout: cborLayout },
+  { id: 'msgpack', label: 'MessagePack', encode: encodeMsgpack, decode: decodeMsgpack, layout: msgpackLayout },
+];
+
+const schemeOf = (format: VarintFormat) => VARINT_SCHEMES.find(s => s.id === format)!;
+
+export const encodeVarint = (value: bigint, format: VarintFormat): VarintEncodeResult => schemeOf(format).encode(value);
+
+export const varintLayout = (bytes: number[], format: VarintFormat): VarintBit[][] =>
+  bytes.length ? schemeOf(format).layout(bytes) : [];
+
+// Overlong means the same value has a shorter encoding in the same scheme: decoders accept those,
+// but they break byte-for-byte comparison and canonical forms, so the value comes with an error
+export const decodeVarint = (bytes: number[], format: VarintFormat): VarintDecodeResult => {
+  if (!bytes.length) return truncated(0);
+  const scheme = schemeOf(format);
+  const result = scheme.decode(bytes);
+  if (result.value === null || result.error) return result;
+  const shortest = scheme.encode(result.value).bytes.length;
+  if (shortest && shortest < result.length) {
+    return { ...result, error: t('varint.error.overlong', { count: shortest }) };
+  }
+  return result;
+};